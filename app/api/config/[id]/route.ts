@@ -0,0 +1,63 @@
+/**
+ * Client Config Endpoint
+ * GET /api/config/[id] - Serve what the SDK needs to assign visitors locally
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { refreshBanditAllocations } from "@/lib/bandit";
+import { getDatabase } from "@/lib/db";
+import { getExperiments } from "@/lib/experiments";
+import { getFlags } from "@/lib/flags";
+import { getProject, getProjectScheduleState } from "@/lib/projects";
+import { isRunning, NOT_RUNNING_MESSAGES } from "@/lib/schedule";
+import { buildClientConfig } from "@/lib/script-generator";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/config/[id]
+ * Same config the embed script is generated from: exposure, targeting and
+ * running experiments with their weights and layer ranges
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const project = getProject(db, id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Past the visitor cap the SDK keeps assigning; /api/events drops the
+    // events of visitors who weren't enrolled before it
+    const state = getProjectScheduleState(db, project);
+    if (!isRunning(state)) {
+      return NextResponse.json(
+        { error: NOT_RUNNING_MESSAGES[state] },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(
+      buildClientConfig(
+        project,
+        refreshBanditAllocations(db, getExperiments(db, project.id)),
+        getFlags(db, project.id),
+      ),
+      {
+        headers: {
+          "Cache-Control": "no-cache",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Error serving config:", error);
+    return NextResponse.json(
+      { error: "Failed to load config" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Server-Side Decision Endpoint
+ * POST /api/decide - Assign a visitor's variations on the server
+ *
+ * For server rendering and backend tests. Pass the response to the page as
+ * `window.__OPTIMELEON_BOOTSTRAP__` and the embed script applies the same
+ * decision, feature flags included, instead of assigning in the browser.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { decide, evaluateFlags, parseDecisionContext } from "@/lib/decide";
+import type { Decision } from "@/lib/decide";
+import { getStickyAssignments } from "@/lib/assignments";
+import { refreshBanditAllocations, withAllocatedWeights } from "@/lib/bandit";
+import { recordTrafficEvent, recordVisitorEvent } from "@/lib/events";
+import { getExperiments } from "@/lib/experiments";
+import { getFlags } from "@/lib/flags";
+import {
+  getProject,
+  getProjectScheduleState,
+  isEnrolledVisitor,
+} from "@/lib/projects";
+import { isRunning, NOT_RUNNING_MESSAGES } from "@/lib/schedule";
+import { generateVisitorId, isOnTestPage } from "@/lib/variation";
+
+// Same shape as the IDs the embed script generates, with some slack
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * POST /api/decide
+ *
+ * Body:
+ * - projectId: project to decide for
+ * - visitorId: optional; a new ID is generated and returned if omitted
+ * - context: optional { url, referrer, userAgent, language, returning }
+ *   for targeting rules
+ * - attributes: optional custom attributes for targeting rules
+ * - track: log the decision like the beacon would (default false)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: "Body must be a JSON object" },
+        { status: 400 },
+      );
+    }
+    const { projectId, track = false } = body;
+    const visitorId = body.visitorId ?? generateVisitorId();
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "projectId is required" },
+        { status: 400 },
+      );
+    }
+
+    if (typeof visitorId !== "string" || !VISITOR_ID_PATTERN.test(visitorId)) {
+      return NextResponse.json(
+        {
+          error:
+            "visitorId must be 1-100 characters: letters, numbers, '-' or '_'",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (typeof track !== "boolean") {
+      return NextResponse.json(
+        { error: "track must be a boolean" },
+        { status: 400 },
+      );
+    }
+
+    const context = parseDecisionContext(body.context, body.attributes);
+    if ("error" in context) {
+      return NextResponse.json({ error: context.error }, { status: 400 });
+    }
+
+    const db = getDatabase();
+
+    const project = getProject(db, projectId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const state = getProjectScheduleState(db, project);
+    if (!isRunning(state)) {
+      return NextResponse.json(
+        { error: NOT_RUNNING_MESSAGES[state] },
+        { status: 409 },
+      );
+    }
+
+    // Past the visitor cap, new visitors are held out as if the exposure
+    // were 0; visitors enrolled before it keep their variations
+    const capped =
+      state === "capped" && !isEnrolledVisitor(db, project.id, visitorId);
+
+    const experiments = refreshBanditAllocations(
+      db,
+      getExperiments(db, project.id),
+    ).map(withAllocatedWeights);
+    const decision: Decision = {
+      ...decide(
+        capped ? { ...project, exposure: 0 } : project,
+        experiments,
+        visitorId,
+        context,
+        getStickyAssignments(db, project.id, visitorId),
+      ),
+      flags: evaluateFlags(
+        getFlags(db, project.id),
+        visitorId,
+        context,
+        project.hashVersion,
+      ),
+      tracked: track,
+    };
+
+    if (track) {
+      // Shipped winners are served to everyone and never recorded
+      const shipped = new Set(
+        experiments.filter((e) => e.status === "shipped").map((e) => e.id),
+      );
+      const testing = experiments.some(
+        (e) => e.status === "running" && isOnTestPage(e, context.path),
+      );
+      db.transaction(() => {
+        if (!decision.enrolled) {
+          if (testing && !capped) {
+            recordTrafficEvent(
+              db,
+              project.id,
+              visitorId,
+              decision.eligible ? "holdout" : "ineligible",
+            );
+          }
+          return;
+        }
+        for (const [experimentId, variation] of Object.entries(
+          decision.experiments,
+        )) {
+          if (shipped.has(experimentId)) continue;
+          recordVisitorEvent(db, {
+            projectId: project.id,
+            experimentId,
+            visitorId,
+            variation,
+            userAgent: (body.context?.userAgent as string | undefined) ?? null,
+            referrer: (body.context?.referrer as string | undefined) ?? null,
+          });
+        }
+      })();
+    }
+
+    return NextResponse.json(decision);
+  } catch (error) {
+    console.error("Error deciding variations:", error);
+    return NextResponse.json(
+      { error: "Failed to decide variations" },
+      { status: 500 },
+    );
+  }
+}
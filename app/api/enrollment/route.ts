@@ -0,0 +1,95 @@
+/**
+ * Enrollment Lookup Endpoint
+ * GET /api/enrollment - Whether a visitor was enrolled in a capped project
+ *
+ * Past a project's visitor cap, the embed script only lets in visitors
+ * enrolled before it. When the browser doesn't remember their variations,
+ * e.g. after a re-bucket or on another subdomain, it asks here.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getStickyAssignments } from "@/lib/assignments";
+import { getDatabase } from "@/lib/db";
+import {
+  getAllowedDomains,
+  isAllowedOrigin,
+  requestOrigin,
+} from "@/lib/domains";
+import {
+  getProject,
+  getProjectScheduleState,
+  isEnrolledVisitor,
+} from "@/lib/projects";
+import { isRunning, NOT_RUNNING_MESSAGES } from "@/lib/schedule";
+
+// Same as the decision API
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+function json(body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      "Cache-Control": "no-store",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+/**
+ * GET /api/enrollment?p=<projectId>&v=<visitorId>
+ *
+ * Returns { enrolled, experiments }: whether the visitor has an exposure
+ * recorded in the project, and if so their remembered variations by
+ * experiment ID. Like beacons, requests from outside the project's domains
+ * are refused.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("p");
+    const visitorId = searchParams.get("v");
+
+    if (!projectId) {
+      return json({ error: "p is required" }, 400);
+    }
+    if (!visitorId || !VISITOR_ID_PATTERN.test(visitorId)) {
+      return json(
+        {
+          error: "v must be 1-100 characters: letters, numbers, '-' or '_'",
+        },
+        400,
+      );
+    }
+
+    const db = getDatabase();
+
+    const project = getProject(db, projectId);
+    if (!project) {
+      return json({ error: "Project not found" }, 404);
+    }
+
+    const origin = requestOrigin(request.headers);
+    if (
+      origin !== null &&
+      !isAllowedOrigin(origin, getAllowedDomains(project))
+    ) {
+      return json({ error: "Origin not allowed" }, 403);
+    }
+
+    const state = getProjectScheduleState(db, project);
+    if (!isRunning(state)) {
+      return json({ error: NOT_RUNNING_MESSAGES[state] }, 409);
+    }
+
+    const enrolled = isEnrolledVisitor(db, project.id, visitorId);
+    return json({
+      enrolled,
+      experiments: enrolled
+        ? getStickyAssignments(db, project.id, visitorId)
+        : {},
+    });
+  } catch (error) {
+    console.error("Error looking up enrollment:", error);
+    return json({ error: "Failed to look up enrollment" }, 500);
+  }
+}
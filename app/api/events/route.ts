@@ -0,0 +1,199 @@
+/**
+ * Batched Event Ingestion
+ * POST /api/events - Record exposures, traffic and conversions in bulk
+ *
+ * Used by the SDK, which assigns visitors in-process and reports what it
+ * decided in batches instead of one beacon per visitor.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type Database from "better-sqlite3";
+import { getDatabase } from "@/lib/db";
+import {
+  isTrafficStatus,
+  isValidGoal,
+  recordConversionEvent,
+  recordTrafficEvent,
+  recordVisitorEvent,
+} from "@/lib/events";
+import { getExperiment } from "@/lib/experiments";
+import {
+  getProject,
+  getProjectScheduleState,
+  isEnrolledVisitor,
+} from "@/lib/projects";
+import { isRunning } from "@/lib/schedule";
+import type { Experiment, ScheduleState } from "@/lib/types";
+import { isValidVariation } from "@/lib/variation";
+
+const MAX_BATCH_SIZE = 500;
+
+// Same as the decision API
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * POST /api/events
+ *
+ * Body: { events: [...] } with up to 500 events, each one of:
+ * - { type: "exposure", projectId, experimentId, visitorId, variation }
+ * - { type: "traffic", projectId, visitorId, status: "holdout" | "ineligible" }
+ * - { type: "conversion", projectId, visitorId, goal, value? }
+ *
+ * Events for projects that aren't live (paused or outside their schedule)
+ * are rejected, and so are those of visitors not enrolled before the
+ * project reached its visitor cap.
+ *
+ * Invalid events are skipped rather than failing the batch; the response
+ * counts how many were accepted and rejected.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const events: unknown = body?.events;
+
+    if (!Array.isArray(events)) {
+      return NextResponse.json(
+        { error: "events must be an array" },
+        { status: 400 },
+      );
+    }
+
+    if (events.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} events per batch` },
+        { status: 400 },
+      );
+    }
+
+    const db = getDatabase();
+    const lookups = createLookups(db);
+    const userAgent = request.headers.get("user-agent") || null;
+
+    let accepted = 0;
+    db.transaction(() => {
+      for (const event of events) {
+        if (recordEvent(db, lookups, event, userAgent)) accepted++;
+      }
+    })();
+
+    return NextResponse.json({
+      accepted,
+      rejected: events.length - accepted,
+    });
+  } catch (error) {
+    console.error("Error ingesting events:", error);
+    return NextResponse.json(
+      { error: "Failed to ingest events" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Cached project and experiment lookups; a batch usually repeats a few
+ * A project's schedule state is read once per batch, so a visitor cap
+ * reached mid-batch takes effect from the next one.
+ */
+function createLookups(db: Database.Database) {
+  const projects = new Map<string, ScheduleState | null>();
+  const experiments = new Map<string, Experiment | undefined>();
+
+  return {
+    projectState(projectId: string): ScheduleState | null {
+      if (!projects.has(projectId)) {
+        const project = getProject(db, projectId);
+        projects.set(
+          projectId,
+          project ? getProjectScheduleState(db, project) : null,
+        );
+      }
+      return projects.get(projectId)!;
+    },
+    experiment(
+      projectId: string,
+      experimentId: string,
+    ): Experiment | undefined {
+      const cacheKey = `${projectId}:${experimentId}`;
+      if (!experiments.has(cacheKey)) {
+        experiments.set(cacheKey, getExperiment(db, projectId, experimentId));
+      }
+      return experiments.get(cacheKey);
+    },
+  };
+}
+
+/**
+ * Validate and record one event; returns whether it was recorded
+ */
+function recordEvent(
+  db: Database.Database,
+  lookups: ReturnType<typeof createLookups>,
+  event: unknown,
+  userAgent: string | null,
+): boolean {
+  if (typeof event !== "object" || event === null) return false;
+  const { type, projectId, visitorId } = event as Record<string, unknown>;
+
+  if (typeof projectId !== "string") return false;
+  const state = lookups.projectState(projectId);
+  if (state === null || !isRunning(state)) return false;
+  if (typeof visitorId !== "string" || !VISITOR_ID_PATTERN.test(visitorId)) {
+    return false;
+  }
+  // Past the visitor cap, visitors enrolled before it are still followed
+  if (state === "capped" && !isEnrolledVisitor(db, projectId, visitorId)) {
+    return false;
+  }
+
+  if (type === "exposure") {
+    const { experimentId, variation } = event as Record<string, unknown>;
+    if (typeof experimentId !== "string" || typeof variation !== "string") {
+      return false;
+    }
+    const experiment = lookups.experiment(projectId, experimentId);
+    if (
+      !experiment ||
+      experiment.status === "shipped" ||
+      !isValidVariation(variation, experiment.variations)
+    ) {
+      return false;
+    }
+    recordVisitorEvent(db, {
+      projectId,
+      experimentId,
+      visitorId,
+      variation,
+      userAgent,
+      referrer: null,
+    });
+    return true;
+  }
+
+  if (type === "traffic") {
+    const { status } = event as Record<string, unknown>;
+    if (!isTrafficStatus(status)) return false;
+    recordTrafficEvent(db, projectId, visitorId, status);
+    return true;
+  }
+
+  if (type === "conversion") {
+    const { goal, value } = event as Record<string, unknown>;
+    if (!isValidGoal(goal)) return false;
+    if (
+      value !== undefined &&
+      value !== null &&
+      (typeof value !== "number" || !Number.isFinite(value))
+    ) {
+      return false;
+    }
+    recordConversionEvent(db, {
+      projectId,
+      visitorId,
+      goal,
+      value: value ?? null,
+    });
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,107 @@
+/**
+ * Feature Flag Evaluation Endpoint
+ * POST /api/flags - Evaluate a visitor's feature flags on the server
+ *
+ * For backends that need flag values without the embed script. Values
+ * match what the script computes for the same visitor and context.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { evaluateFlags, parseDecisionContext } from "@/lib/decide";
+import { getFlags } from "@/lib/flags";
+import { getProject, getProjectScheduleState } from "@/lib/projects";
+import { isRunning, NOT_RUNNING_MESSAGES } from "@/lib/schedule";
+import { generateVisitorId } from "@/lib/variation";
+
+// Same shape as the IDs the embed script generates, with some slack
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * POST /api/flags
+ *
+ * Body:
+ * - projectId: project whose flags to evaluate
+ * - visitorId: optional; a new ID is generated and returned if omitted
+ * - context: optional { url, referrer, userAgent, language, returning }
+ *   for targeting rules
+ * - attributes: optional custom attributes for targeting rules
+ * - keys: optional flag keys to evaluate; all flags if omitted
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: "Body must be a JSON object" },
+        { status: 400 },
+      );
+    }
+    const { projectId, keys } = body;
+    const visitorId = body.visitorId ?? generateVisitorId();
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "projectId is required" },
+        { status: 400 },
+      );
+    }
+
+    if (typeof visitorId !== "string" || !VISITOR_ID_PATTERN.test(visitorId)) {
+      return NextResponse.json(
+        {
+          error:
+            "visitorId must be 1-100 characters: letters, numbers, '-' or '_'",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      keys !== undefined &&
+      !(Array.isArray(keys) && keys.every((k) => typeof k === "string"))
+    ) {
+      return NextResponse.json(
+        { error: "keys must be an array of flag keys" },
+        { status: 400 },
+      );
+    }
+
+    const context = parseDecisionContext(body.context, body.attributes);
+    if ("error" in context) {
+      return NextResponse.json({ error: context.error }, { status: 400 });
+    }
+
+    const db = getDatabase();
+
+    const project = getProject(db, projectId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Flags aren't enrollments, so the visitor cap doesn't stop them
+    const state = getProjectScheduleState(db, project);
+    if (!isRunning(state)) {
+      return NextResponse.json(
+        { error: NOT_RUNNING_MESSAGES[state] },
+        { status: 409 },
+      );
+    }
+
+    const flags = getFlags(db, project.id).filter(
+      (flag) => keys === undefined || keys.includes(flag.key),
+    );
+
+    return NextResponse.json({
+      projectId: project.id,
+      visitorId,
+      flags: evaluateFlags(flags, visitorId, context, project.hashVersion),
+    });
+  } catch (error) {
+    console.error("Error evaluating flags:", error);
+    return NextResponse.json(
+      { error: "Failed to evaluate flags" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Preview Redirect Endpoint
+ * GET /api/preview/[token] - Open a project's site with a variation forced
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getExperiment } from "@/lib/experiments";
+import { getProject } from "@/lib/projects";
+import { buildForceUrl, previewPage, verifyPreviewToken } from "@/lib/preview";
+import { isValidVariation } from "@/lib/variation";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * GET /api/preview/[token]
+ * Verify a signed preview token and redirect to a page of the project's
+ * domain where the previewed experiment runs, with `optim_force` set
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+
+    const payload = verifyPreviewToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: "Invalid preview link" },
+        { status: 404 },
+      );
+    }
+
+    if (payload.expiresAt < Date.now()) {
+      return NextResponse.json(
+        { error: "This preview link has expired" },
+        { status: 410 },
+      );
+    }
+
+    const db = getDatabase();
+    const project = getProject(db, payload.projectId);
+    const experiment =
+      project && getExperiment(db, project.id, payload.experimentId);
+
+    if (
+      !project ||
+      !experiment ||
+      !isValidVariation(payload.variation, experiment.variations)
+    ) {
+      return NextResponse.json(
+        { error: "The previewed variation no longer exists" },
+        { status: 404 },
+      );
+    }
+
+    if (experiment.status !== "running") {
+      return NextResponse.json(
+        { error: "The previewed experiment isn't running" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.redirect(
+      buildForceUrl(
+        project.domain,
+        previewPage(experiment),
+        experiment.key,
+        payload.variation,
+      ),
+    );
+  } catch (error) {
+    console.error("Error opening preview:", error);
+    return NextResponse.json(
+      { error: "Failed to open preview" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Hash Distribution API Route
+ * GET /api/projects/[id]/distribution - Chi-square report per hash version
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getDistributionReport } from "@/lib/distribution";
+import { getExperiments } from "@/lib/experiments";
+import { getProject } from "@/lib/projects";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/distribution
+ * Re-bucket the project's stored visitor IDs with every hash version and
+ * report how far each is from the expected split
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const project = getProject(db, id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      getDistributionReport(db, project, getExperiments(db, id)),
+    );
+  } catch (error) {
+    console.error("Error building distribution report:", error);
+    return NextResponse.json(
+      { error: "Failed to build distribution report" },
+      { status: 500 },
+    );
+  }
+}
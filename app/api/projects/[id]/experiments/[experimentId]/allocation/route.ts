@@ -0,0 +1,79 @@
+/**
+ * Bandit Allocation API Routes
+ * GET /api/projects/[id]/experiments/[experimentId]/allocation - Weight history
+ * POST /api/projects/[id]/experiments/[experimentId]/allocation - Recompute now
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAllocationHistory, recomputeAllocation } from "@/lib/bandit";
+import { getDatabase } from "@/lib/db";
+import { getExperiment } from "@/lib/experiments";
+
+interface RouteParams {
+  params: Promise<{ id: string; experimentId: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/experiments/[experimentId]/allocation
+ * How a bandit's weights evolved, oldest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, experimentId } = await params;
+    const db = getDatabase();
+
+    const experiment = getExperiment(db, id, experimentId);
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      allocation: experiment.allocation,
+      goal: experiment.banditGoal,
+      history: getAllocationHistory(db, experimentId),
+    });
+  } catch (error) {
+    console.error("Error getting allocation history:", error);
+    return NextResponse.json(
+      { error: "Failed to get allocation history" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/experiments/[experimentId]/allocation
+ * Recompute a bandit's weights without waiting for the interval
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, experimentId } = await params;
+    const db = getDatabase();
+
+    const experiment = getExperiment(db, id, experimentId);
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 },
+      );
+    }
+
+    if (experiment.allocation !== "bandit" || !experiment.banditGoal) {
+      return NextResponse.json(
+        { error: "Experiment doesn't use bandit allocation" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(recomputeAllocation(db, experiment));
+  } catch (error) {
+    console.error("Error recomputing allocation:", error);
+    return NextResponse.json(
+      { error: "Failed to recompute allocation" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Funnel Report API Route
+ * GET /api/projects/[id]/experiments/[experimentId]/funnel - Drop-off per variation
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getExperiment } from "@/lib/experiments";
+import { getFunnelReport } from "@/lib/funnels";
+
+interface RouteParams {
+  params: Promise<{ id: string; experimentId: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/experiments/[experimentId]/funnel
+ * Visitors exposed to each variation and how many of them reached each
+ * funnel step
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, experimentId } = await params;
+    const db = getDatabase();
+
+    const experiment = getExperiment(db, id, experimentId);
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(getFunnelReport(db, experiment));
+  } catch (error) {
+    console.error("Error getting funnel report:", error);
+    return NextResponse.json(
+      { error: "Failed to get funnel report" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Single Experiment API Routes
+ * GET /api/projects/[id]/experiments/[experimentId] - Get experiment with stats
+ * PUT /api/projects/[id]/experiments/[experimentId] - Update experiment
+ * DELETE /api/projects/[id]/experiments/[experimentId] - Delete experiment
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { recomputeAllocation } from "@/lib/bandit";
+import { getDatabase } from "@/lib/db";
+import { parseDomChanges, pruneDomChanges } from "@/lib/dom-changes";
+import { isValidGoal } from "@/lib/events";
+import {
+  getExperiment,
+  getExperimentStats,
+  isAllocationMode,
+  isValidExperimentStatus,
+} from "@/lib/experiments";
+import { clearFunnelSteps, parseFunnel } from "@/lib/funnels";
+import { resolveLayerPlacement } from "@/lib/layers";
+import { applyWeights, parsePages, parseVariations } from "@/lib/variation";
+
+interface RouteParams {
+  params: Promise<{ id: string; experimentId: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/experiments/[experimentId]
+ * Get a single experiment with its stats
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, experimentId } = await params;
+    const db = getDatabase();
+
+    const experiment = getExperiment(db, id, experimentId);
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      ...experiment,
+      stats: getExperimentStats(db, experiment),
+    });
+  } catch (error) {
+    console.error("Error getting experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to get experiment" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/experiments/[experimentId]
+ * Update an experiment
+ *
+ * Traffic splits can be changed mid-test with `weights`, a map of
+ * variation key to relative weight, e.g. { "control": 90, "risky": 10 }.
+ * Visitors already assigned keep their variation; new weights only apply
+ * to new visitors until the project is re-bucketed.
+ *
+ * `layerId` moves the experiment into a layer (null takes it out) and
+ * `layerShare` sets its percentage of the layer. Resizing keeps the
+ * experiment's start slot when it still fits.
+ *
+ * `allocation: "bandit"` with a `banditGoal` replaces the weights with
+ * Thompson sampling over that goal's conversion rates; "fixed" goes back
+ * to the weights.
+ *
+ * `pages` limits the experiment to URL path patterns, e.g. ["/cart",
+ * "/checkout/*"], and `funnel` sets its steps as [{ name, path }]. Changing
+ * the steps clears the steps visitors already reached.
+ *
+ * `changes` replaces the page changes, a map of variation key to a list
+ * of { type, selector, ... } changes. Changes of removed variations are
+ * dropped.
+ *
+ * Winners are shipped with POST .../ship; after that only `name` can
+ * change.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, experimentId } = await params;
+    const body = await request.json();
+    const {
+      name,
+      status,
+      variations,
+      weights,
+      layerId,
+      layerShare,
+      allocation,
+      banditGoal,
+      pages,
+      funnel,
+      changes,
+    } = body;
+
+    const db = getDatabase();
+
+    const existing = getExperiment(db, id, experimentId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Shipped experiments are final
+    if (
+      existing.status === "shipped" &&
+      Object.keys(body).some((field) => field !== "name")
+    ) {
+      return NextResponse.json(
+        { error: "Shipped experiments can only be renamed" },
+        { status: 409 },
+      );
+    }
+
+    if (variations !== undefined && weights !== undefined) {
+      return NextResponse.json(
+        { error: "Send either variations or weights, not both" },
+        { status: 400 },
+      );
+    }
+
+    // Build update query dynamically
+    const updates: string[] = [];
+    const values: Array<string | number | null> = [];
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || name.trim().length === 0) {
+        return NextResponse.json(
+          { error: "Name is required" },
+          { status: 400 },
+        );
+      }
+      updates.push("name = ?");
+      values.push(name.trim());
+    }
+    if (status !== undefined) {
+      if (!isValidExperimentStatus(status)) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
+      updates.push("status = ?");
+      values.push(status);
+    }
+    let nextVariations = existing.variations;
+    if (variations !== undefined) {
+      const parsed = parseVariations(variations);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("variations = ?");
+      values.push(JSON.stringify(parsed.variations));
+      nextVariations = parsed.variations;
+    }
+    if (weights !== undefined) {
+      const parsed = applyWeights(existing.variations, weights);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("variations = ?");
+      values.push(JSON.stringify(parsed.variations));
+    }
+
+    if (changes !== undefined) {
+      const parsed = parseDomChanges(changes, nextVariations);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("changes = ?");
+      values.push(JSON.stringify(parsed.changes));
+    } else if (variations !== undefined) {
+      updates.push("changes = ?");
+      values.push(
+        JSON.stringify(pruneDomChanges(existing.changes, nextVariations)),
+      );
+    }
+    if (pages !== undefined) {
+      const parsed = parsePages(pages);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("pages = ?");
+      values.push(JSON.stringify(parsed.pages));
+    }
+    let funnelChanged = false;
+    if (funnel !== undefined) {
+      const parsed = parseFunnel(funnel);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      funnelChanged =
+        JSON.stringify(parsed.funnel.map((s) => s.path)) !==
+        JSON.stringify(existing.funnel.map((s) => s.path));
+      updates.push("funnel = ?");
+      values.push(JSON.stringify(parsed.funnel));
+    }
+
+    if (allocation !== undefined) {
+      if (!isAllocationMode(allocation)) {
+        return NextResponse.json(
+          { error: 'allocation must be "fixed" or "bandit"' },
+          { status: 400 },
+        );
+      }
+      updates.push("allocation = ?");
+      values.push(allocation);
+      // Weights from an earlier bandit run would be stale
+      if (allocation === "fixed") updates.push("bandit_weights = NULL");
+    }
+    if (banditGoal !== undefined) {
+      if (banditGoal !== null && !isValidGoal(banditGoal)) {
+        return NextResponse.json(
+          {
+            error:
+              "banditGoal must be 1-100 characters: letters, numbers, '_', '.', ':' or '-'",
+          },
+          { status: 400 },
+        );
+      }
+      updates.push("bandit_goal = ?");
+      values.push(banditGoal);
+    }
+    if (
+      (allocation ?? existing.allocation) === "bandit" &&
+      !(banditGoal !== undefined ? banditGoal : existing.banditGoal)
+    ) {
+      return NextResponse.json(
+        { error: "banditGoal is required for bandit allocation" },
+        { status: 400 },
+      );
+    }
+
+    if (layerId !== undefined || layerShare !== undefined) {
+      const placement = resolveLayerPlacement(
+        db,
+        id,
+        experimentId,
+        layerId !== undefined ? layerId : existing.layerId,
+        layerShare ?? existing.layerShare,
+      );
+      if ("error" in placement) {
+        return NextResponse.json(
+          { error: placement.error },
+          { status: placement.status },
+        );
+      }
+      updates.push("layer_id = ?", "layer_start = ?", "layer_share = ?");
+      values.push(
+        placement.layerId,
+        placement.layerStart,
+        placement.layerShare,
+      );
+    }
+
+    if (updates.length === 0) {
+      return NextResponse.json(
+        { error: "No fields to update" },
+        { status: 400 },
+      );
+    }
+
+    updates.push("updated_at = ?");
+    values.push(new Date().toISOString());
+    values.push(experimentId);
+
+    db.transaction(() => {
+      db.prepare(
+        `
+        UPDATE experiments
+        SET ${updates.join(", ")}
+        WHERE id = ?
+      `,
+      ).run(...values);
+      if (funnelChanged) clearFunnelSteps(db, experimentId);
+    })();
+
+    // Start a bandit right away instead of at the next interval
+    const updated = getExperiment(db, id, experimentId)!;
+    if (
+      updated.allocation === "bandit" &&
+      (allocation !== undefined ||
+        banditGoal !== undefined ||
+        variations !== undefined)
+    ) {
+      updated.banditWeights = recomputeAllocation(db, updated).weights;
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to update experiment" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/experiments/[experimentId]
+ * Delete an experiment and its visitor events
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, experimentId } = await params;
+    const db = getDatabase();
+
+    const existing = getExperiment(db, id, experimentId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 },
+      );
+    }
+
+    db.transaction(() => {
+      db.prepare("DELETE FROM visitor_events WHERE experiment_id = ?").run(
+        experimentId,
+      );
+      db.prepare("DELETE FROM assignments WHERE experiment_id = ?").run(
+        experimentId,
+      );
+      db.prepare("DELETE FROM allocation_history WHERE experiment_id = ?").run(
+        experimentId,
+      );
+      clearFunnelSteps(db, experimentId);
+      db.prepare("DELETE FROM experiments WHERE id = ?").run(experimentId);
+    })();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete experiment" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Ship Winner API Route
+ * POST /api/projects/[id]/experiments/[experimentId]/ship - Conclude an
+ * experiment and serve its winner to everyone
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getExperiment, shipExperiment } from "@/lib/experiments";
+import { isValidVariation } from "@/lib/variation";
+
+const MAX_CONCLUSION_LENGTH = 2000;
+
+interface RouteParams {
+  params: Promise<{ id: string; experimentId: string }>;
+}
+
+/**
+ * POST /api/projects/[id]/experiments/[experimentId]/ship
+ * Freeze the experiment's results and make the script apply `variation`
+ * to every visitor without tracking it. Shipping is final.
+ *
+ * Body:
+ * - variation: key of the winning variation
+ * - conclusion: optional note on why it won
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, experimentId } = await params;
+    const body = await request.json();
+    const { variation, conclusion = null } = body;
+
+    const db = getDatabase();
+
+    const experiment = getExperiment(db, id, experimentId);
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 },
+      );
+    }
+
+    if (experiment.status === "shipped") {
+      return NextResponse.json(
+        { error: "Experiment is already shipped" },
+        { status: 409 },
+      );
+    }
+
+    if (
+      typeof variation !== "string" ||
+      !isValidVariation(variation, experiment.variations)
+    ) {
+      return NextResponse.json(
+        { error: "variation must be one of the experiment's variations" },
+        { status: 400 },
+      );
+    }
+
+    if (
+      conclusion !== null &&
+      (typeof conclusion !== "string" ||
+        conclusion.length > MAX_CONCLUSION_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `conclusion must be a string of up to ${MAX_CONCLUSION_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const shipped = shipExperiment(
+      db,
+      experiment,
+      variation,
+      conclusion?.trim() || null,
+    );
+
+    return NextResponse.json({ ...shipped, stats: shipped.finalStats });
+  } catch (error) {
+    console.error("Error shipping experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to ship experiment" },
+      { status: 500 },
+    );
+  }
+}
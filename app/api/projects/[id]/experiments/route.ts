@@ -0,0 +1,177 @@
+/**
+ * Experiments API Routes
+ * GET /api/projects/[id]/experiments - List a project's experiments with stats
+ * POST /api/projects/[id]/experiments - Create an experiment
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { parseDomChanges } from "@/lib/dom-changes";
+import {
+  getExperimentsWithStats,
+  insertExperiment,
+  isValidExperimentKey,
+  isValidExperimentStatus,
+} from "@/lib/experiments";
+import { parseFunnel } from "@/lib/funnels";
+import { resolveLayerPlacement } from "@/lib/layers";
+import {
+  DEFAULT_VARIATIONS,
+  parsePages,
+  parseVariations,
+} from "@/lib/variation";
+import type { DomChange, FunnelStep } from "@/lib/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/experiments
+ * List all experiments of a project
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const project = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      experiments: getExperimentsWithStats(db, id),
+    });
+  } catch (error) {
+    console.error("Error listing experiments:", error);
+    return NextResponse.json(
+      { error: "Failed to list experiments" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/experiments
+ * Create a new experiment, as a draft unless a status is given
+ * Pass `layerId` and `layerShare` (1-100) to make it mutually exclusive
+ * with the other experiments in that layer. `pages`, `funnel` and
+ * `changes` are optional, as in PUT /api/projects/[id]/experiments/[experimentId].
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { key, name, status = "draft" } = body;
+
+    // Validation
+    if (!name || typeof name !== "string" || name.trim().length === 0) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    if (typeof key !== "string" || !isValidExperimentKey(key.trim())) {
+      return NextResponse.json(
+        {
+          error:
+            "Key must be 1-40 characters: lowercase letters, numbers or '-'",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidExperimentStatus(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    let variations = DEFAULT_VARIATIONS;
+    if (body.variations !== undefined) {
+      const parsed = parseVariations(body.variations);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      variations = parsed.variations;
+    }
+
+    let pages: string[] = [];
+    if (body.pages !== undefined) {
+      const parsed = parsePages(body.pages);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      pages = parsed.pages;
+    }
+
+    let funnel: FunnelStep[] = [];
+    if (body.funnel !== undefined) {
+      const parsed = parseFunnel(body.funnel);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      funnel = parsed.funnel;
+    }
+
+    let changes: Record<string, DomChange[]> = {};
+    if (body.changes !== undefined) {
+      const parsed = parseDomChanges(body.changes, variations);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      changes = parsed.changes;
+    }
+
+    const db = getDatabase();
+
+    const project = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const duplicate = db
+      .prepare("SELECT id FROM experiments WHERE project_id = ? AND key = ?")
+      .get(id, key.trim());
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `An experiment with key "${key.trim()}" already exists` },
+        { status: 409 },
+      );
+    }
+
+    let layer = {};
+    if (body.layerId !== undefined && body.layerId !== null) {
+      const placement = resolveLayerPlacement(
+        db,
+        id,
+        null,
+        body.layerId,
+        body.layerShare ?? 100,
+      );
+      if ("error" in placement) {
+        return NextResponse.json(
+          { error: placement.error },
+          { status: placement.status },
+        );
+      }
+      layer = placement;
+    }
+
+    const experiment = insertExperiment(db, id, {
+      key: key.trim(),
+      name: name.trim(),
+      variations,
+      status,
+      pages,
+      funnel,
+      changes,
+      ...layer,
+    });
+
+    return NextResponse.json(experiment, { status: 201 });
+  } catch (error) {
+    console.error("Error creating experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to create experiment" },
+      { status: 500 },
+    );
+  }
+}
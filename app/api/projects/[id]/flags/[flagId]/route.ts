@@ -0,0 +1,137 @@
+/**
+ * Single Feature Flag API Routes
+ * PUT /api/projects/[id]/flags/[flagId] - Update a feature flag
+ * DELETE /api/projects/[id]/flags/[flagId] - Delete a feature flag
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getFlag, isValidRollout, parseFlagValue } from "@/lib/flags";
+import { parseTargeting } from "@/lib/targeting";
+
+interface RouteParams {
+  params: Promise<{ id: string; flagId: string }>;
+}
+
+/**
+ * PUT /api/projects/[id]/flags/[flagId]
+ * Update a flag's `enabled`, `rollout`, `value`, `defaultValue` or
+ * `targeting`. The key and type are fixed once created.
+ *
+ * Raising the rollout keeps every visitor who already had the flag's value.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, flagId } = await params;
+    const body = await request.json();
+    const { enabled, rollout, targeting } = body;
+
+    const db = getDatabase();
+
+    const existing = getFlag(db, id, flagId);
+    if (!existing) {
+      return NextResponse.json({ error: "Flag not found" }, { status: 404 });
+    }
+
+    // Build update query dynamically
+    const updates: string[] = [];
+    const values: Array<string | number> = [];
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== "boolean") {
+        return NextResponse.json(
+          { error: "enabled must be a boolean" },
+          { status: 400 },
+        );
+      }
+      updates.push("enabled = ?");
+      values.push(enabled ? 1 : 0);
+    }
+    if (rollout !== undefined) {
+      if (!isValidRollout(rollout)) {
+        return NextResponse.json(
+          { error: "Rollout must be a whole number from 0 to 100" },
+          { status: 400 },
+        );
+      }
+      updates.push("rollout = ?");
+      values.push(rollout);
+    }
+    if (Object.hasOwn(body, "value")) {
+      const parsed = parseFlagValue(existing.type, body.value);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("value = ?");
+      values.push(JSON.stringify(parsed.value));
+    }
+    if (Object.hasOwn(body, "defaultValue")) {
+      const parsed = parseFlagValue(existing.type, body.defaultValue);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("default_value = ?");
+      values.push(JSON.stringify(parsed.value));
+    }
+    if (targeting !== undefined) {
+      const parsed = parseTargeting(targeting);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("targeting = ?");
+      values.push(JSON.stringify(parsed.rules));
+    }
+
+    if (updates.length === 0) {
+      return NextResponse.json(
+        { error: "No fields to update" },
+        { status: 400 },
+      );
+    }
+
+    updates.push("updated_at = ?");
+    values.push(new Date().toISOString());
+    values.push(flagId);
+
+    db.prepare(
+      `
+      UPDATE feature_flags
+      SET ${updates.join(", ")}
+      WHERE id = ?
+    `,
+    ).run(...values);
+
+    return NextResponse.json(getFlag(db, id, flagId));
+  } catch (error) {
+    console.error("Error updating flag:", error);
+    return NextResponse.json(
+      { error: "Failed to update flag" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/flags/[flagId]
+ * Delete a flag; pages reading it get undefined from then on
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, flagId } = await params;
+    const db = getDatabase();
+
+    if (!getFlag(db, id, flagId)) {
+      return NextResponse.json({ error: "Flag not found" }, { status: 404 });
+    }
+
+    db.prepare("DELETE FROM feature_flags WHERE id = ?").run(flagId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting flag:", error);
+    return NextResponse.json(
+      { error: "Failed to delete flag" },
+      { status: 500 },
+    );
+  }
+}
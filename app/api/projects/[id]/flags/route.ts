@@ -0,0 +1,164 @@
+/**
+ * Feature Flags API Routes
+ * GET /api/projects/[id]/flags - List a project's feature flags
+ * POST /api/projects/[id]/flags - Create a feature flag
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import {
+  DEFAULT_FLAG_VALUES,
+  generateFlagId,
+  getFlag,
+  getFlags,
+  isFlagType,
+  isValidFlagKey,
+  isValidRollout,
+  parseFlagValue,
+} from "@/lib/flags";
+import { parseTargeting } from "@/lib/targeting";
+import type { TargetingRule } from "@/lib/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/flags
+ * List all feature flags of a project
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const project = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ flags: getFlags(db, id) });
+  } catch (error) {
+    console.error("Error listing flags:", error);
+    return NextResponse.json(
+      { error: "Failed to list flags" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/flags
+ * Create a feature flag, disabled unless `enabled` is true
+ *
+ * `type` is "boolean" (default), "string" or "json" and can't change
+ * later. `value` is served to visitors inside the `rollout` percentage
+ * (default 100) who match `targeting`; `defaultValue` to everyone else.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { key, type = "boolean", enabled = false, rollout = 100 } = body;
+
+    if (typeof key !== "string" || !isValidFlagKey(key.trim())) {
+      return NextResponse.json(
+        {
+          error:
+            "Key must be 1-60 characters: letters, numbers, '_', '.' or '-'",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (!isFlagType(type)) {
+      return NextResponse.json(
+        { error: 'type must be "boolean", "string" or "json"' },
+        { status: 400 },
+      );
+    }
+
+    if (typeof enabled !== "boolean") {
+      return NextResponse.json(
+        { error: "enabled must be a boolean" },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidRollout(rollout)) {
+      return NextResponse.json(
+        { error: "Rollout must be a whole number from 0 to 100" },
+        { status: 400 },
+      );
+    }
+
+    const defaults = DEFAULT_FLAG_VALUES[type];
+    const value = parseFlagValue(type, body.value ?? defaults.value);
+    if ("error" in value) {
+      return NextResponse.json({ error: value.error }, { status: 400 });
+    }
+    const defaultValue = parseFlagValue(
+      type,
+      body.defaultValue ?? defaults.defaultValue,
+    );
+    if ("error" in defaultValue) {
+      return NextResponse.json({ error: defaultValue.error }, { status: 400 });
+    }
+
+    let targeting: TargetingRule[] = [];
+    if (body.targeting !== undefined) {
+      const parsed = parseTargeting(body.targeting);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      targeting = parsed.rules;
+    }
+
+    const db = getDatabase();
+
+    const project = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const duplicate = db
+      .prepare("SELECT id FROM feature_flags WHERE project_id = ? AND key = ?")
+      .get(id, key.trim());
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `A flag with key "${key.trim()}" already exists` },
+        { status: 409 },
+      );
+    }
+
+    const flagId = generateFlagId();
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `
+      INSERT INTO feature_flags (id, project_id, key, type, enabled, rollout, value, default_value, targeting, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    ).run(
+      flagId,
+      id,
+      key.trim(),
+      type,
+      enabled ? 1 : 0,
+      rollout,
+      JSON.stringify(value.value),
+      JSON.stringify(defaultValue.value),
+      JSON.stringify(targeting),
+      now,
+      now,
+    );
+
+    return NextResponse.json(getFlag(db, id, flagId), { status: 201 });
+  } catch (error) {
+    console.error("Error creating flag:", error);
+    return NextResponse.json(
+      { error: "Failed to create flag" },
+      { status: 500 },
+    );
+  }
+}
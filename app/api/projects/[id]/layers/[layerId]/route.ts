@@ -0,0 +1,83 @@
+/**
+ * Single Layer API Routes
+ * PUT /api/projects/[id]/layers/[layerId] - Rename a layer
+ * DELETE /api/projects/[id]/layers/[layerId] - Delete a layer
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getLayer } from "@/lib/layers";
+
+interface RouteParams {
+  params: Promise<{ id: string; layerId: string }>;
+}
+
+/**
+ * PUT /api/projects/[id]/layers/[layerId]
+ * Rename a layer
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, layerId } = await params;
+    const { name } = await request.json();
+
+    if (!name || typeof name !== "string" || name.trim().length === 0) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    const db = getDatabase();
+
+    if (!getLayer(db, id, layerId)) {
+      return NextResponse.json({ error: "Layer not found" }, { status: 404 });
+    }
+
+    db.prepare("UPDATE layers SET name = ?, updated_at = ? WHERE id = ?").run(
+      name.trim(),
+      new Date().toISOString(),
+      layerId,
+    );
+
+    return NextResponse.json(getLayer(db, id, layerId));
+  } catch (error) {
+    console.error("Error updating layer:", error);
+    return NextResponse.json(
+      { error: "Failed to update layer" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/layers/[layerId]
+ * Delete a layer. Its experiments are kept but no longer exclusive,
+ * so from then on they run on all enrolled traffic.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, layerId } = await params;
+    const db = getDatabase();
+
+    if (!getLayer(db, id, layerId)) {
+      return NextResponse.json({ error: "Layer not found" }, { status: 404 });
+    }
+
+    db.transaction(() => {
+      db.prepare(
+        `
+        UPDATE experiments
+        SET layer_id = NULL, layer_start = 0, layer_share = 100, updated_at = ?
+        WHERE layer_id = ?
+      `,
+      ).run(new Date().toISOString(), layerId);
+      db.prepare("DELETE FROM layers WHERE id = ?").run(layerId);
+    })();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting layer:", error);
+    return NextResponse.json(
+      { error: "Failed to delete layer" },
+      { status: 500 },
+    );
+  }
+}
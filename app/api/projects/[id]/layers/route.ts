@@ -0,0 +1,92 @@
+/**
+ * Layers API Routes
+ * GET /api/projects/[id]/layers - List a project's layers with occupancy
+ * POST /api/projects/[id]/layers - Create a layer
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getExperiments } from "@/lib/experiments";
+import {
+  generateLayerId,
+  getLayer,
+  getLayersWithOccupancy,
+} from "@/lib/layers";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/layers
+ * List all layers of a project
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const project = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      layers: getLayersWithOccupancy(db, id, getExperiments(db, id)),
+    });
+  } catch (error) {
+    console.error("Error listing layers:", error);
+    return NextResponse.json(
+      { error: "Failed to list layers" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/layers
+ * Create an empty layer; experiments join it via their own PUT
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { name } = await request.json();
+
+    if (!name || typeof name !== "string" || name.trim().length === 0) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    const db = getDatabase();
+
+    const project = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const layerId = generateLayerId();
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `
+      INSERT INTO layers (id, project_id, name, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `,
+    ).run(layerId, id, name.trim(), now, now);
+
+    return NextResponse.json(
+      {
+        ...getLayer(db, id, layerId),
+        allocated: 0,
+        unallocated: 100,
+        experiments: [],
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Error creating layer:", error);
+    return NextResponse.json(
+      { error: "Failed to create layer" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Preview Links API Route
+ * GET /api/projects/[id]/preview - Signed preview links for each variation
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDatabase } from "@/lib/db";
+import { getExperiments } from "@/lib/experiments";
+import { createPreviewToken, PREVIEW_TTL_MS } from "@/lib/preview";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/preview
+ * Create a preview link per variation of every running experiment
+ * Links expire after PREVIEW_TTL_MS; drafts can't be previewed because
+ * the embed script only knows running experiments
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const project = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const apiEndpoint =
+      process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const expiresAt = Date.now() + PREVIEW_TTL_MS;
+
+    const experiments = getExperiments(db, id)
+      .filter((e) => e.status === "running")
+      .map((e) => ({
+        id: e.id,
+        key: e.key,
+        name: e.name,
+        links: e.variations.map((v) => ({
+          variation: v.key,
+          label: v.label,
+          url: `${apiEndpoint}/api/preview/${createPreviewToken({
+            projectId: id,
+            experimentId: e.id,
+            variation: v.key,
+            expiresAt,
+          })}`,
+        })),
+      }));
+
+    return NextResponse.json({
+      experiments,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+  } catch (error) {
+    console.error("Error creating preview links:", error);
+    return NextResponse.json(
+      { error: "Failed to create preview links" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Re-bucket API Route
+ * POST /api/projects/[id]/rebucket - Reshuffle every visitor's variations
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { rebucketProject } from "@/lib/assignments";
+import { getDatabase } from "@/lib/db";
+import { getProject } from "@/lib/projects";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/projects/[id]/rebucket
+ * Forget the variations visitors were first assigned, so the next visit
+ * buckets them again with the current weights
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    if (!getProject(db, id)) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    rebucketProject(db, id);
+
+    return NextResponse.json(getProject(db, id));
+  } catch (error) {
+    console.error("Error re-bucketing project:", error);
+    return NextResponse.json(
+      { error: "Failed to re-bucket project" },
+      { status: 500 },
+    );
+  }
+}
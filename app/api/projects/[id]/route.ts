@@ -7,8 +7,27 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getDatabase } from "@/lib/db";
-import { generateEmbedCode } from "@/lib/script-generator";
-import type { Project, Variation } from "@/lib/types";
+import {
+  generateAntiFlickerSnippet,
+  generateEmbedCode,
+} from "@/lib/script-generator";
+import { parseAntiFlicker } from "@/lib/anti-flicker";
+import { parseConsent } from "@/lib/consent";
+import { parseIdentity } from "@/lib/identity";
+import {
+  getRejectedOrigins,
+  isValidProjectDomain,
+  parseAllowedDomains,
+} from "@/lib/domains";
+import { getProject, getProjectStats } from "@/lib/projects";
+import { parseSchedule } from "@/lib/schedule";
+import { getExperiments, getExperimentsWithStats } from "@/lib/experiments";
+import { getFlags } from "@/lib/flags";
+import { isHashVersion } from "@/lib/hash";
+import { getLayersWithOccupancy } from "@/lib/layers";
+import { parseTargeting } from "@/lib/targeting";
+import { isValidExposure } from "@/lib/variation";
+import type { ProjectWithStats, RejectedOrigin } from "@/lib/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -16,84 +35,39 @@ interface RouteParams {
 
 /**
  * GET /api/projects/[id]
- * Get a single project with its embed script and stats
+ * Get a single project with its embed script, anti-flicker snippet,
+ * experiments, layers, flags, stats and the origins of rejected hits
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const db = getDatabase();
 
-    const project = db
-      .prepare(
-        `
-      SELECT id, name, domain, description, is_active, created_at, updated_at
-      FROM projects
-      WHERE id = ?
-    `,
-      )
-      .get(id) as
-      | {
-          id: string;
-          name: string;
-          domain: string;
-          description: string | null;
-          is_active: number;
-          created_at: string;
-          updated_at: string;
-        }
-      | undefined;
+    const project = getProject(db, id);
 
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
-    // Get variation stats
-    const stats = db
-      .prepare(
-        `
-      SELECT variation, COUNT(*) as count
-      FROM visitor_events
-      WHERE project_id = ?
-      GROUP BY variation
-    `,
-      )
-      .all(id) as Array<{ variation: string; count: number }>;
-
-    const variationCounts: Record<Variation, number> = {
-      A: 0,
-      B: 0,
-      C: 0,
-      D: 0,
-    };
-    let totalVisitors = 0;
-
-    stats.forEach((s) => {
-      if (s.variation in variationCounts) {
-        variationCounts[s.variation as Variation] = s.count;
-        totalVisitors += s.count;
-      }
-    });
-
     const apiEndpoint =
       process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const embedScript = generateEmbedCode(project.id, apiEndpoint);
+    const antiFlickerSnippet = generateAntiFlickerSnippet(project, apiEndpoint);
 
-    const result: Project & {
+    const experiments = getExperimentsWithStats(db, project.id);
+    const result: ProjectWithStats & {
       embedScript: string;
-      stats: { totalVisitors: number; variations: Record<Variation, number> };
+      antiFlickerSnippet: string;
+      rejectedOrigins: RejectedOrigin[];
     } = {
-      id: project.id,
-      name: project.name,
-      domain: project.domain,
-      description: project.description,
-      isActive: project.is_active === 1,
-      createdAt: project.created_at,
-      updatedAt: project.updated_at,
+      ...project,
       embedScript,
-      stats: {
-        totalVisitors,
-        variations: variationCounts,
-      },
+      antiFlickerSnippet,
+      stats: getProjectStats(db, project.id),
+      experiments,
+      layers: getLayersWithOccupancy(db, project.id, experiments),
+      flags: getFlags(db, project.id),
+      rejectedOrigins: getRejectedOrigins(db, project.id),
     };
 
     return NextResponse.json(result);
@@ -109,39 +83,201 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 /**
  * PUT /api/projects/[id]
  * Update a project
+ * Variations and weights are edited per experiment; sending them here is
+ * refused with 400, so a client written for the old API doesn't believe
+ * they were saved.
+ *
+ * `exposure` is the percentage of visitors enrolled in experiments.
+ * Raising it keeps existing participants enrolled.
+ *
+ * `targeting` replaces the project's audience rules; an empty array
+ * targets everyone.
+ *
+ * `hashVersion` switches the bucketing hash, which re-rolls every
+ * visitor's exposure, layer slots and variations. It's refused with 409
+ * while an experiment is running, since remembered variations are only
+ * honored for visitors still exposed and in the experiment's layer range.
+ *
+ * `startsAt`, `endsAt` (ISO timestamps) and `maxVisitors` schedule when
+ * the project runs; null clears each one. Outside that window the script
+ * is an empty stub and tracking is ignored, whatever `isActive` says.
+ *
+ * `domain` and `allowedDomains` are the sites the script runs on and
+ * beacons are accepted from, see lib/domains.ts.
+ *
+ * `antiFlickerTimeout` (milliseconds) and `antiFlickerSelector` configure
+ * the anti-flicker snippet; a null selector hides the whole page. The
+ * snippet is pasted into the site, so it has to be copied again.
+ *
+ * `consentMode` ("off", "wait" or "assign") and `consentTcf` decide what
+ * the script does until the visitor consents, see lib/consent.ts.
+ *
+ * `identityStrategy`, `cookieDomain` and `cookieDays` decide where the
+ * script keeps the visitor ID, see lib/identity.ts.
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, domain, description, isActive } = body;
+    const {
+      name,
+      domain,
+      allowedDomains,
+      description,
+      exposure,
+      targeting,
+      hashVersion,
+      isActive,
+    } = body;
 
     const db = getDatabase();
 
     // Check if project exists
-    const existing = db.prepare("SELECT id FROM projects WHERE id = ?").get(id);
+    const existing = getProject(db, id);
     if (!existing) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
+    if (body.variations !== undefined || body.weights !== undefined) {
+      return NextResponse.json(
+        {
+          error:
+            "Variations and weights are set per experiment, with PUT /api/projects/[id]/experiments/[experimentId]",
+        },
+        { status: 400 },
+      );
+    }
+
     const now = new Date().toISOString();
 
     // Build update query dynamically
     const updates: string[] = [];
-    const values: (string | number)[] = [];
+    const values: (string | number | null)[] = [];
 
     if (name !== undefined) {
       updates.push("name = ?");
       values.push(name.trim());
     }
     if (domain !== undefined) {
+      if (typeof domain !== "string" || !isValidProjectDomain(domain)) {
+        return NextResponse.json(
+          { error: "Domain must be a hostname like example.com" },
+          { status: 400 },
+        );
+      }
       updates.push("domain = ?");
       values.push(domain.trim());
     }
+    if (allowedDomains !== undefined) {
+      const parsed = parseAllowedDomains(allowedDomains);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("allowed_domains = ?");
+      values.push(JSON.stringify(parsed.domains));
+    }
     if (description !== undefined) {
       updates.push("description = ?");
       values.push(description?.trim() || null);
     }
+    if (exposure !== undefined) {
+      if (!isValidExposure(exposure)) {
+        return NextResponse.json(
+          { error: "Exposure must be a whole number from 0 to 100" },
+          { status: 400 },
+        );
+      }
+      updates.push("exposure = ?");
+      values.push(exposure);
+    }
+    if (targeting !== undefined) {
+      const parsed = parseTargeting(targeting);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.push("targeting = ?");
+      values.push(JSON.stringify(parsed.rules));
+    }
+    if (hashVersion !== undefined) {
+      if (!isHashVersion(hashVersion)) {
+        return NextResponse.json(
+          { error: "hashVersion must be 1 (djb2) or 2 (MurmurHash3)" },
+          { status: 400 },
+        );
+      }
+      // Running experiments would lose visitors to the re-rolled exposure
+      // and layer slots
+      if (
+        hashVersion !== existing.hashVersion &&
+        getExperiments(db, id).some((e) => e.status === "running")
+      ) {
+        return NextResponse.json(
+          {
+            error:
+              "Stop or ship the running experiments before switching the hash",
+          },
+          { status: 409 },
+        );
+      }
+      updates.push("hash_version = ?");
+      values.push(hashVersion);
+    }
+    const schedule = parseSchedule(body, existing);
+    if ("error" in schedule) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
+    }
+    if (schedule.startsAt !== undefined) {
+      updates.push("starts_at = ?");
+      values.push(schedule.startsAt);
+    }
+    if (schedule.endsAt !== undefined) {
+      updates.push("ends_at = ?");
+      values.push(schedule.endsAt);
+    }
+    if (schedule.maxVisitors !== undefined) {
+      updates.push("max_visitors = ?");
+      values.push(schedule.maxVisitors);
+    }
+    const antiFlicker = parseAntiFlicker(body);
+    if ("error" in antiFlicker) {
+      return NextResponse.json({ error: antiFlicker.error }, { status: 400 });
+    }
+    if (antiFlicker.antiFlickerTimeout !== undefined) {
+      updates.push("anti_flicker_timeout = ?");
+      values.push(antiFlicker.antiFlickerTimeout);
+    }
+    if (antiFlicker.antiFlickerSelector !== undefined) {
+      updates.push("anti_flicker_selector = ?");
+      values.push(antiFlicker.antiFlickerSelector);
+    }
+    const consent = parseConsent(body);
+    if ("error" in consent) {
+      return NextResponse.json({ error: consent.error }, { status: 400 });
+    }
+    if (consent.consentMode !== undefined) {
+      updates.push("consent_mode = ?");
+      values.push(consent.consentMode);
+    }
+    if (consent.consentTcf !== undefined) {
+      updates.push("consent_tcf = ?");
+      values.push(consent.consentTcf ? 1 : 0);
+    }
+    const identity = parseIdentity(body);
+    if ("error" in identity) {
+      return NextResponse.json({ error: identity.error }, { status: 400 });
+    }
+    if (identity.identityStrategy !== undefined) {
+      updates.push("identity_strategy = ?");
+      values.push(identity.identityStrategy);
+    }
+    if (identity.cookieDomain !== undefined) {
+      updates.push("cookie_domain = ?");
+      values.push(identity.cookieDomain);
+    }
+    if (identity.cookieDays !== undefined) {
+      updates.push("cookie_days = ?");
+      values.push(identity.cookieDays);
+    }
     if (isActive !== undefined) {
       updates.push("is_active = ?");
       values.push(isActive ? 1 : 0);
@@ -167,33 +303,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     ).run(...values);
 
     // Return updated project
-    const updated = db
-      .prepare(
-        `
-      SELECT id, name, domain, description, is_active, created_at, updated_at
-      FROM projects
-      WHERE id = ?
-    `,
-      )
-      .get(id) as {
-      id: string;
-      name: string;
-      domain: string;
-      description: string | null;
-      is_active: number;
-      created_at: string;
-      updated_at: string;
-    };
-
-    return NextResponse.json({
-      id: updated.id,
-      name: updated.name,
-      domain: updated.domain,
-      description: updated.description,
-      isActive: updated.is_active === 1,
-      createdAt: updated.created_at,
-      updatedAt: updated.updated_at,
-    });
+    return NextResponse.json(getProject(db, id));
   } catch (error) {
     console.error("Error updating project:", error);
     return NextResponse.json(
@@ -205,7 +315,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
 /**
  * DELETE /api/projects/[id]
- * Delete a project and its visitor events
+ * Delete a project with its experiments, layers and visitor events
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
@@ -218,11 +328,25 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
-    // Delete visitor events first (foreign key)
-    db.prepare("DELETE FROM visitor_events WHERE project_id = ?").run(id);
-
-    // Delete project
-    db.prepare("DELETE FROM projects WHERE id = ?").run(id);
+    // Delete dependent rows first (foreign keys)
+    db.transaction(() => {
+      db.prepare("DELETE FROM visitor_events WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM traffic_events WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM conversion_events WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM assignments WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM funnel_steps WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM anti_flicker_events WHERE project_id = ?").run(
+        id,
+      );
+      db.prepare("DELETE FROM rejected_hits WHERE project_id = ?").run(id);
+      db.prepare(
+        "DELETE FROM allocation_history WHERE experiment_id IN (SELECT id FROM experiments WHERE project_id = ?)",
+      ).run(id);
+      db.prepare("DELETE FROM experiments WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM layers WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM feature_flags WHERE project_id = ?").run(id);
+      db.prepare("DELETE FROM projects WHERE id = ?").run(id);
+    })();
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -7,8 +7,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDatabase } from "@/lib/db";
 import { nanoid } from "nanoid";
-import { generateEmbedCode } from "@/lib/script-generator";
-import type { Project, ProjectWithStats, Variation } from "@/lib/types";
+import {
+  DEFAULT_ANTI_FLICKER_TIMEOUT,
+  parseAntiFlicker,
+} from "@/lib/anti-flicker";
+import { DEFAULT_CONSENT_MODE, parseConsent } from "@/lib/consent";
+import {
+  DEFAULT_COOKIE_DAYS,
+  DEFAULT_IDENTITY_STRATEGY,
+  parseIdentity,
+} from "@/lib/identity";
+import {
+  generateAntiFlickerSnippet,
+  generateEmbedCode,
+} from "@/lib/script-generator";
+import {
+  PROJECT_COLUMNS,
+  getProjectStats,
+  mapProjectRow,
+  type ProjectRow,
+} from "@/lib/projects";
+import { getExperimentsWithStats, insertExperiment } from "@/lib/experiments";
+import { isValidProjectDomain, parseAllowedDomains } from "@/lib/domains";
+import { DEFAULT_HASH_VERSION, isHashVersion } from "@/lib/hash";
+import { parseSchedule } from "@/lib/schedule";
+import {
+  DEFAULT_VARIATIONS,
+  isValidExposure,
+  parseVariations,
+} from "@/lib/variation";
+import type { Project, ProjectWithStats } from "@/lib/types";
 
 // Generate project ID with prefix
 function generateProjectId(): string {
@@ -22,7 +50,13 @@ function generateProjectId(): string {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, domain, description } = body;
+    const {
+      name,
+      domain,
+      description,
+      exposure = 100,
+      hashVersion = DEFAULT_HASH_VERSION,
+    } = body;
 
     // Validation
     if (!name || typeof name !== "string" || name.trim().length === 0) {
@@ -36,24 +70,116 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isValidProjectDomain(domain)) {
+      return NextResponse.json(
+        { error: "Domain must be a hostname like example.com" },
+        { status: 400 },
+      );
+    }
+
+    let allowedDomains: string[] = [];
+    if (body.allowedDomains !== undefined) {
+      const parsed = parseAllowedDomains(body.allowedDomains);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      allowedDomains = parsed.domains;
+    }
+
+    if (!isValidExposure(exposure)) {
+      return NextResponse.json(
+        { error: "Exposure must be a whole number from 0 to 100" },
+        { status: 400 },
+      );
+    }
+
+    if (!isHashVersion(hashVersion)) {
+      return NextResponse.json(
+        { error: "hashVersion must be 1 (djb2) or 2 (MurmurHash3)" },
+        { status: 400 },
+      );
+    }
+
+    const schedule = parseSchedule(body, { startsAt: null, endsAt: null });
+    if ("error" in schedule) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
+    }
+    const { startsAt = null, endsAt = null, maxVisitors = null } = schedule;
+
+    const antiFlicker = parseAntiFlicker(body);
+    if ("error" in antiFlicker) {
+      return NextResponse.json({ error: antiFlicker.error }, { status: 400 });
+    }
+    const {
+      antiFlickerTimeout = DEFAULT_ANTI_FLICKER_TIMEOUT,
+      antiFlickerSelector = null,
+    } = antiFlicker;
+
+    const consent = parseConsent(body);
+    if ("error" in consent) {
+      return NextResponse.json({ error: consent.error }, { status: 400 });
+    }
+    const { consentMode = DEFAULT_CONSENT_MODE, consentTcf = false } = consent;
+
+    const identity = parseIdentity(body);
+    if ("error" in identity) {
+      return NextResponse.json({ error: identity.error }, { status: 400 });
+    }
+    const {
+      identityStrategy = DEFAULT_IDENTITY_STRATEGY,
+      cookieDomain = null,
+      cookieDays = DEFAULT_COOKIE_DAYS,
+    } = identity;
+
+    let variations = DEFAULT_VARIATIONS;
+    if (body.variations !== undefined) {
+      const parsed = parseVariations(body.variations);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      variations = parsed.variations;
+    }
+
     const db = getDatabase();
     const id = generateProjectId();
     const now = new Date().toISOString();
 
-    // Insert the project
-    const stmt = db.prepare(`
-      INSERT INTO projects (id, name, domain, description, is_active, created_at, updated_at)
-      VALUES (?, ?, ?, ?, 1, ?, ?)
-    `);
+    // Insert the project with its first experiment
+    const experiment = db.transaction(() => {
+      db.prepare(
+        `
+      INSERT INTO projects (id, name, domain, allowed_domains, description, exposure, hash_version, starts_at, ends_at, max_visitors, anti_flicker_timeout, anti_flicker_selector, consent_mode, consent_tcf, identity_strategy, cookie_domain, cookie_days, is_active, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+    `,
+      ).run(
+        id,
+        name.trim(),
+        domain.trim(),
+        JSON.stringify(allowedDomains),
+        description?.trim() || null,
+        exposure,
+        hashVersion,
+        startsAt,
+        endsAt,
+        maxVisitors,
+        antiFlickerTimeout,
+        antiFlickerSelector,
+        consentMode,
+        consentTcf ? 1 : 0,
+        identityStrategy,
+        cookieDomain,
+        cookieDays,
+        now,
+        now,
+      );
 
-    stmt.run(
-      id,
-      name.trim(),
-      domain.trim(),
-      description?.trim() || null,
-      now,
-      now,
-    );
+      return insertExperiment(db, id, {
+        key: "main",
+        name: "Main",
+        variations,
+        status: "running",
+      });
+    })();
 
     // Get the API endpoint for embed code
     const apiEndpoint =
@@ -64,13 +190,36 @@ export async function POST(request: NextRequest) {
       id,
       name: name.trim(),
       domain: domain.trim(),
+      allowedDomains,
       description: description?.trim() || null,
+      exposure,
+      targeting: [],
+      bucketEpoch: 0,
+      hashVersion,
+      startsAt,
+      endsAt,
+      maxVisitors,
+      antiFlickerTimeout,
+      antiFlickerSelector,
+      consentMode,
+      consentTcf,
+      identityStrategy,
+      cookieDomain,
+      cookieDays,
       isActive: true,
       createdAt: now,
       updatedAt: now,
     };
 
-    return NextResponse.json({ ...project, embedScript }, { status: 201 });
+    return NextResponse.json(
+      {
+        ...project,
+        experiments: [experiment],
+        embedScript,
+        antiFlickerSnippet: generateAntiFlickerSnippet(project, apiEndpoint),
+      },
+      { status: 201 },
+    );
   } catch (error) {
     console.error("Error creating project:", error);
     return NextResponse.json(
@@ -92,62 +241,20 @@ export async function GET() {
     const projects = db
       .prepare(
         `
-      SELECT id, name, domain, description, is_active, created_at, updated_at
+      SELECT ${PROJECT_COLUMNS}
       FROM projects
       ORDER BY created_at DESC
     `,
       )
-      .all() as Array<{
-      id: string;
-      name: string;
-      domain: string;
-      description: string | null;
-      is_active: number;
-      created_at: string;
-      updated_at: string;
-    }>;
+      .all() as ProjectRow[];
 
     // Get stats for each project
-    const projectsWithStats: ProjectWithStats[] = projects.map((p) => {
-      // Get variation counts
-      const stats = db
-        .prepare(
-          `
-        SELECT variation, COUNT(*) as count
-        FROM visitor_events
-        WHERE project_id = ?
-        GROUP BY variation
-      `,
-        )
-        .all(p.id) as Array<{ variation: string; count: number }>;
-
-      const variationCounts: Record<Variation, number> = {
-        A: 0,
-        B: 0,
-        C: 0,
-        D: 0,
-      };
-      let totalVisitors = 0;
-
-      stats.forEach((s) => {
-        if (s.variation in variationCounts) {
-          variationCounts[s.variation as Variation] = s.count;
-          totalVisitors += s.count;
-        }
-      });
-
+    const projectsWithStats: ProjectWithStats[] = projects.map((row) => {
+      const project = mapProjectRow(row);
       return {
-        id: p.id,
-        name: p.name,
-        domain: p.domain,
-        description: p.description,
-        isActive: p.is_active === 1,
-        createdAt: p.created_at,
-        updatedAt: p.updated_at,
-        stats: {
-          totalVisitors,
-          variations: variationCounts,
-        },
+        ...project,
+        stats: getProjectStats(db, project.id),
+        experiments: getExperimentsWithStats(db, project.id),
       };
     });
 
@@ -0,0 +1,21 @@
+/**
+ * Runtime Endpoint
+ * GET /api/runtime/[file] - Serve the runtime the embed scripts load
+ */
+
+import { NextRequest } from "next/server";
+import { runtimeResponse } from "@/lib/script-bundle";
+
+interface RouteParams {
+  params: Promise<{ file: string }>;
+}
+
+/**
+ * GET /api/runtime/[hash].js
+ * Serve the runtime shared by every project. It holds no project data, so
+ * it's cached for good under the hash of its content.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { file } = await params;
+  return runtimeResponse(request, file);
+}
@@ -3,9 +3,19 @@
  * GET /api/s/[id] - Serve the embed script as JavaScript
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
 import { getDatabase } from "@/lib/db";
-import { generateEmbedScript } from "@/lib/script-generator";
+import {
+  generateEmbedScript,
+  generateInactiveScript,
+} from "@/lib/script-generator";
+import {
+  getRuntimeUrl,
+  loadScriptEntry,
+  NO_CACHE,
+  scriptCacheControl,
+  scriptResponse,
+} from "@/lib/script-bundle";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -13,72 +23,55 @@ interface RouteParams {
 
 /**
  * GET /api/s/[id]
- * Serve the embed script as a JavaScript file
+ * Serve the embed script as a JavaScript file: the project's config and a
+ * loader for the shared runtime, revalidated with its ETag
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const db = getDatabase();
 
-    // Verify project exists and is active
-    const project = db
-      .prepare(
-        `
-      SELECT id, is_active
-      FROM projects
-      WHERE id = ?
-    `,
-      )
-      .get(id) as { id: string; is_active: number } | undefined;
+    // Verify project exists and is live
+    const entry = loadScriptEntry(db, id);
 
-    if (!project) {
+    if (!entry) {
       // Return empty script with error comment for debugging
-      const errorScript = `/* Optimeleon: Project not found */`;
-      return new NextResponse(errorScript, {
-        status: 200, // Return 200 to avoid breaking client site
-        headers: {
-          "Content-Type": "application/javascript",
-          "Cache-Control": "no-cache, no-store, must-revalidate",
-        },
-      });
+      return scriptResponse(
+        request,
+        `/* Optimeleon: Project not found */`,
+        NO_CACHE,
+      );
     }
 
-    if (project.is_active !== 1) {
-      // Return empty script for inactive projects
-      const inactiveScript = `/* Optimeleon: Project is inactive */`;
-      return new NextResponse(inactiveScript, {
-        status: 200,
-        headers: {
-          "Content-Type": "application/javascript",
-          "Cache-Control": "no-cache, no-store, must-revalidate",
-        },
-      });
+    if (!entry.live) {
+      // Return a stub for paused, scheduled, ended or capped projects; it
+      // only shows a page the anti-flicker snippet hid
+      const inactiveScript = generateInactiveScript(
+        entry.projectId,
+        entry.message,
+      );
+      return scriptResponse(request, inactiveScript, NO_CACHE);
     }
 
     // Generate the embed script
     const apiEndpoint =
       process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-    const script = generateEmbedScript(project.id, apiEndpoint);
+    const script = generateEmbedScript(
+      [entry],
+      apiEndpoint,
+      getRuntimeUrl(apiEndpoint),
+    );
 
-    return new NextResponse(script, {
-      status: 200,
-      headers: {
-        "Content-Type": "application/javascript",
-        "Cache-Control": "public, max-age=300", // Cache for 5 minutes
-        "Access-Control-Allow-Origin": "*", // Allow cross-origin requests
-      },
-    });
+    // Cache for a minute, or until the scheduled end if that's sooner
+    return scriptResponse(request, script, scriptCacheControl([entry.project]));
   } catch (error) {
     console.error("Error serving script:", error);
 
     // Return empty script with error - never break client site
-    const errorScript = `/* Optimeleon: Internal error */`;
-    return new NextResponse(errorScript, {
-      status: 200,
-      headers: {
-        "Content-Type": "application/javascript",
-        "Cache-Control": "no-cache",
-      },
-    });
+    return scriptResponse(
+      request,
+      `/* Optimeleon: Internal error */`,
+      "no-cache",
+    );
   }
 }
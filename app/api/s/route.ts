@@ -0,0 +1,80 @@
+/**
+ * Bundled Script Endpoint
+ * GET /api/s?ids=a,b,c - Serve one embed script for several projects
+ */
+
+import { NextRequest } from "next/server";
+import { getDatabase } from "@/lib/db";
+import {
+  generateEmbedScript,
+  generateInactiveScript,
+} from "@/lib/script-generator";
+import {
+  getRuntimeUrl,
+  loadScriptEntry,
+  NO_CACHE,
+  parseBundleIds,
+  scriptCacheControl,
+  scriptResponse,
+  type ScriptEntry,
+} from "@/lib/script-bundle";
+
+/**
+ * GET /api/s?ids=a,b,c
+ * Serve the embed script of several projects as one file, loading the
+ * runtime once. Projects that don't exist or aren't live get the
+ * same comment or stub as on their own, which makes the bundle uncacheable
+ * so it picks them up as soon as they start.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseBundleIds(request.nextUrl.searchParams.get("ids"));
+    if ("error" in parsed) {
+      return scriptResponse(
+        request,
+        `/* Optimeleon: ${parsed.error} */`,
+        NO_CACHE,
+      );
+    }
+
+    const db = getDatabase();
+    const parts: string[] = [];
+    const live: Extract<ScriptEntry, { live: true }>[] = [];
+    for (const id of parsed.ids) {
+      const entry = loadScriptEntry(db, id);
+      if (!entry) {
+        parts.push(`/* Optimeleon: Project ${id} not found */`);
+      } else if (!entry.live) {
+        parts.push(
+          generateInactiveScript(
+            entry.projectId,
+            `${entry.projectId}: ${entry.message}`,
+          ),
+        );
+      } else {
+        live.push(entry);
+      }
+    }
+
+    const apiEndpoint =
+      process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    if (live.length > 0) {
+      parts.push(
+        generateEmbedScript(live, apiEndpoint, getRuntimeUrl(apiEndpoint)),
+      );
+    }
+
+    const cacheControl =
+      live.length === parsed.ids.length
+        ? scriptCacheControl(live.map((entry) => entry.project))
+        : NO_CACHE;
+    return scriptResponse(request, parts.join("\n"), cacheControl);
+  } catch (error) {
+    console.error("Error serving script bundle:", error);
+    return scriptResponse(
+      request,
+      `/* Optimeleon: Internal error */`,
+      "no-cache",
+    );
+  }
+}
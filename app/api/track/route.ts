@@ -1,6 +1,7 @@
 /**
  * Tracking Beacon Endpoint
  * GET /api/track - Record visitor variation assignments
+ * POST /api/track - Same, for navigator.sendBeacon before a redirect
  *
  * Uses GET with query params because:
  * 1. Image beacons can only use GET
@@ -10,8 +11,35 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getDatabase } from "@/lib/db";
-import { nanoid } from "nanoid";
 import { isValidVariation } from "@/lib/variation";
+import { getExperiment } from "@/lib/experiments";
+import { parseFunnelStep, recordFunnelStep } from "@/lib/funnels";
+import {
+  isAntiFlickerOutcome,
+  recordAntiFlickerEvent,
+} from "@/lib/anti-flicker";
+import {
+  getProject,
+  getProjectScheduleState,
+  isEnrolledVisitor,
+} from "@/lib/projects";
+import { isRunning } from "@/lib/schedule";
+import {
+  getAllowedDomains,
+  isAllowedOrigin,
+  normalizeDomain,
+  recordRejectedHit,
+  requestOrigin,
+} from "@/lib/domains";
+import {
+  isTrafficStatus,
+  isValidGoal,
+  recordConversionEvent,
+  recordTrafficEvent,
+  recordVisitorEvent,
+} from "@/lib/events";
+
+const MAX_BATCH_HITS = 100;
 
 // 1x1 transparent GIF pixel
 const PIXEL = Buffer.from(
@@ -19,6 +47,154 @@ const PIXEL = Buffer.from(
   "base64",
 );
 
+/**
+ * Build the pixel response
+ * Every outcome returns the pixel with 200 - never break the client site
+ */
+function pixelResponse(): NextResponse {
+  return new NextResponse(PIXEL, {
+    status: 200,
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+/**
+ * Record one hit, with the params described for GET
+ */
+function recordHit(searchParams: URLSearchParams, headers: Headers): void {
+  const visitorId = searchParams.get("v");
+  const projectId = searchParams.get("p");
+  const experimentId = searchParams.get("e") || projectId;
+  const variation = searchParams.get("var");
+  const status = searchParams.get("s");
+  const goal = searchParams.get("c");
+  const step = searchParams.get("st");
+  const antiFlicker = searchParams.get("af");
+  const rejected = searchParams.get("rj");
+
+  // QA sessions with a forced variation would skew results
+  if (searchParams.get("f") === "1") {
+    return;
+  }
+
+  if (!projectId || (!visitorId && !antiFlicker && rejected === null)) {
+    return;
+  }
+
+  const db = getDatabase();
+
+  const project = getProject(db, projectId);
+  if (!project) {
+    return;
+  }
+
+  // Someone else's site running our script or replaying beacons. The
+  // script's rj report only counts when the browser's origin agrees with
+  // it, so a request can't make up the sites it's counted against.
+  const origin = requestOrigin(headers);
+  const allowed =
+    origin === null || isAllowedOrigin(origin, getAllowedDomains(project));
+  if (rejected !== null || !allowed) {
+    const reported = rejected === null ? null : normalizeDomain(rejected);
+    if (
+      !allowed &&
+      (rejected === null ||
+        (reported !== null && reported === normalizeDomain(origin)))
+    ) {
+      recordRejectedHit(db, projectId, origin);
+    }
+    return;
+  }
+
+  const state = getProjectScheduleState(db, project);
+  if (!isRunning(state)) {
+    return;
+  }
+
+  if (antiFlicker) {
+    if (isAntiFlickerOutcome(antiFlicker)) {
+      recordAntiFlickerEvent(db, projectId, antiFlicker);
+    }
+    return;
+  }
+
+  if (!visitorId) {
+    return;
+  }
+
+  // Past the visitor cap, visitors enrolled before it are still followed
+  if (state === "capped" && !isEnrolledVisitor(db, projectId, visitorId)) {
+    return;
+  }
+
+  if (status) {
+    if (isTrafficStatus(status)) {
+      recordTrafficEvent(db, projectId, visitorId, status);
+    }
+    return;
+  }
+
+  if (goal) {
+    const value = searchParams.get("cv");
+    const numericValue = value ? Number(value) : null;
+    if (
+      isValidGoal(goal) &&
+      (numericValue === null || Number.isFinite(numericValue))
+    ) {
+      recordConversionEvent(db, {
+        projectId,
+        visitorId,
+        goal,
+        value: numericValue,
+      });
+    }
+    return;
+  }
+
+  if (experimentId && step !== null) {
+    const experiment = getExperiment(db, projectId, experimentId);
+    const index = experiment ? parseFunnelStep(experiment, step) : null;
+    if (experiment && experiment.status !== "shipped" && index !== null) {
+      recordFunnelStep(db, {
+        projectId,
+        experimentId,
+        visitorId,
+        step: index,
+      });
+    }
+    return;
+  }
+
+  if (!experimentId || !variation) {
+    return;
+  }
+
+  // Verify the experiment belongs to the project and the variation is its
+  // own; shipped experiments' results are frozen
+  const experiment = getExperiment(db, projectId, experimentId);
+  if (
+    !experiment ||
+    experiment.status === "shipped" ||
+    !isValidVariation(variation, experiment.variations)
+  ) {
+    return;
+  }
+
+  // Insert visitor event with the browser's user agent and referrer
+  recordVisitorEvent(db, {
+    projectId,
+    experimentId,
+    visitorId,
+    variation,
+    userAgent: headers.get("user-agent") || null,
+    referrer: headers.get("referer") || null,
+  });
+}
+
 /**
  * GET /api/track
  * Record a visitor variation assignment
@@ -26,85 +202,40 @@ const PIXEL = Buffer.from(
  * Query params:
  * - v: visitor ID
  * - p: project ID
- * - var: variation (A, B, C, or D)
+ * - e: experiment ID (scripts served before experiments existed omit it;
+ *      their project's migrated experiment shares the project ID)
+ * - var: variation key (one of the experiment's variations)
+ * - s: set instead of e/var for visitors not enrolled in experiments
+ *      ("holdout" = outside the project's traffic exposure,
+ *      "ineligible" = not matching the project's targeting)
+ * - c: set instead of e/var when the visitor reached this conversion goal
+ * - cv: optional numeric value of the conversion, e.g. an order total
+ * - st: set instead of var when the visitor reached this step (index) of
+ *       the experiment's funnel
+ * - af: sent without v by the anti-flicker snippet, once per page view:
+ *       "shown" when the script showed the page, "timeout" when the
+ *       timeout did
+ * - rj: sent alone by the embed script on a site outside the project's
+ *       domains, with the hostname it refused to run on; counted only
+ *       when the Origin (or Referer) is that host
+ * - f: "1" when the variation was forced for QA; not recorded
  * - t: timestamp (for cache busting)
+ *
+ * Hits whose Origin (or Referer) is outside the project's domains are
+ * counted per origin, up to 100 origins per project, and otherwise
+ * ignored. Requests with neither header
+ * can't be checked and are accepted.
+ *
+ * Nothing is recorded unless the project is live: active and inside its
+ * scheduled start and end. Past its visitor cap, only hits from visitors
+ * enrolled before it are recorded.
  */
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-
-    const visitorId = searchParams.get("v");
-    const projectId = searchParams.get("p");
-    const variation = searchParams.get("var");
-
-    // Validate required params
-    if (!visitorId || !projectId || !variation) {
-      // Return pixel anyway - don't break client
-      return new NextResponse(PIXEL, {
-        status: 200,
-        headers: {
-          "Content-Type": "image/gif",
-          "Cache-Control": "no-cache, no-store, must-revalidate",
-        },
-      });
-    }
-
-    // Validate variation
-    if (!isValidVariation(variation)) {
-      return new NextResponse(PIXEL, {
-        status: 200,
-        headers: {
-          "Content-Type": "image/gif",
-          "Cache-Control": "no-cache, no-store, must-revalidate",
-        },
-      });
-    }
-
-    const db = getDatabase();
-
-    // Verify project exists
-    const project = db
-      .prepare("SELECT id FROM projects WHERE id = ?")
-      .get(projectId);
-    if (!project) {
-      return new NextResponse(PIXEL, {
-        status: 200,
-        headers: {
-          "Content-Type": "image/gif",
-          "Cache-Control": "no-cache, no-store, must-revalidate",
-        },
-      });
-    }
-
-    // Get user agent and referrer from headers
-    const userAgent = request.headers.get("user-agent") || null;
-    const referrer = request.headers.get("referer") || null;
-
-    // Insert visitor event
-    const stmt = db.prepare(`
-      INSERT INTO visitor_events (id, project_id, visitor_id, variation, timestamp, user_agent, referrer)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    stmt.run(
-      `evt_${nanoid(12)}`,
-      projectId,
-      visitorId,
-      variation,
-      new Date().toISOString(),
-      userAgent,
-      referrer,
-    );
+    recordHit(new URL(request.url).searchParams, request.headers);
 
     // Return 1x1 transparent pixel
-    return new NextResponse(PIXEL, {
-      status: 200,
-      headers: {
-        "Content-Type": "image/gif",
-        "Cache-Control": "no-cache, no-store, must-revalidate",
-        "Access-Control-Allow-Origin": "*",
-      },
-    });
+    return pixelResponse();
   } catch (error) {
     console.error("Error tracking event:", error);
 
@@ -118,3 +249,30 @@ export async function GET(request: NextRequest) {
     });
   }
 }
+
+/**
+ * POST /api/track
+ * Same query params as GET, or a batch of hits in a text body with one
+ * query string per line (up to 100). The embed script sends batches and
+ * beacons before a redirect with navigator.sendBeacon, which survives
+ * leaving the page. One bad hit doesn't drop the rest of its batch.
+ */
+export async function POST(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  if (searchParams.has("p")) return GET(request);
+
+  try {
+    const lines = (await request.text()).split("\n").slice(0, MAX_BATCH_HITS);
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        recordHit(new URLSearchParams(line.trim()), request.headers);
+      } catch (error) {
+        console.error("Error tracking batched event:", error);
+      }
+    }
+  } catch (error) {
+    console.error("Error reading tracking batch:", error);
+  }
+  return pixelResponse();
+}
@@ -2,14 +2,21 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import { variationColorKey } from "@/lib/variation-colors";
 
 interface ProjectStats {
   totalVisitors: number;
-  variations: {
-    A: number;
-    B: number;
-    C: number;
-    D: number;
+}
+
+interface Experiment {
+  id: string;
+  key: string;
+  name: string;
+  status: string;
+  variations: { key: string; label: string }[];
+  stats: {
+    totalVisitors: number;
+    variations: Record<string, number>;
   };
 }
 
@@ -21,6 +28,7 @@ interface Project {
   isActive: boolean;
   createdAt: string;
   stats?: ProjectStats;
+  experiments?: Experiment[];
 }
 
 export default function DashboardPage() {
@@ -270,6 +278,9 @@ function StatCard({ label, value }: { label: string; value: number }) {
 
 function ProjectCard({ project }: { project: Project }) {
   const totalVisitors = project.stats?.totalVisitors || 0;
+  const experiments = project.experiments || [];
+  const primary =
+    experiments.find((e) => e.status === "running") ?? experiments[0];
 
   return (
     <Link
@@ -317,19 +328,35 @@ function ProjectCard({ project }: { project: Project }) {
           </span>
         </div>
 
-        <div className="stats-grid" style={{ marginTop: "1rem" }}>
-          {(["A", "B", "C", "D"] as const).map((variation) => (
-            <div key={variation} className="stat-item">
-              <div
-                className={`stat-value variation-${variation.toLowerCase()}`}
-                style={{ fontSize: "1rem" }}
-              >
-                {project.stats?.variations[variation] || 0}
-              </div>
-              <div className="stat-label">{variation}</div>
+        {primary && (
+          <>
+            <div
+              style={{
+                marginTop: "1rem",
+                fontSize: "0.75rem",
+                color: "var(--muted-foreground)",
+              }}
+            >
+              {primary.name}
+              {experiments.length > 1 && <> • +{experiments.length - 1} more</>}
             </div>
-          ))}
-        </div>
+            <div className="stats-grid" style={{ marginTop: "0.5rem" }}>
+              {primary.variations.map((variation, index) => (
+                <div key={variation.key} className="stat-item">
+                  <div
+                    className={`stat-value variation-${variationColorKey(index)}`}
+                    style={{ fontSize: "1rem" }}
+                  >
+                    {primary.stats.variations[variation.key] || 0}
+                  </div>
+                  <div className="stat-label" title={variation.label}>
+                    {variation.key}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
 
         <div
           style={{
@@ -3,27 +3,70 @@
 import { useEffect, useState, use } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import AntiFlickerCard from "@/components/AntiFlickerCard";
+import ConsentCard from "@/components/ConsentCard";
+import DomainsCard from "@/components/DomainsCard";
+import ExperimentCard from "@/components/ExperimentCard";
+import ExposureCard from "@/components/ExposureCard";
+import FlagsCard from "@/components/FlagsCard";
+import HashingCard from "@/components/HashingCard";
+import IdentityCard from "@/components/IdentityCard";
+import LayersCard from "@/components/LayersCard";
+import NewExperimentForm from "@/components/NewExperimentForm";
+import PreviewLinksCard from "@/components/PreviewLinksCard";
+import ScheduleBadge from "@/components/ScheduleBadge";
+import ScheduleCard from "@/components/ScheduleCard";
+import TargetingCard from "@/components/TargetingCard";
+import type {
+  ConsentMode,
+  ExperimentWithStats,
+  FeatureFlag,
+  HashVersion,
+  IdentityStrategy,
+  LayerWithOccupancy,
+  RejectedOrigin,
+  TargetingRule,
+} from "@/lib/types";
 
 interface ProjectStats {
   totalVisitors: number;
-  variations: {
-    A: number;
-    B: number;
-    C: number;
-    D: number;
-  };
+  eligibleVisitors: number;
+  enrolledVisitors: number;
+  ineligibleVisitors: number;
+  antiFlickerViews: number;
+  antiFlickerTimeouts: number;
 }
 
 interface Project {
   id: string;
   name: string;
   domain: string;
+  allowedDomains: string[];
   description: string | null;
+  exposure: number;
+  targeting: TargetingRule[];
+  bucketEpoch: number;
+  hashVersion: HashVersion;
+  startsAt: string | null;
+  endsAt: string | null;
+  maxVisitors: number | null;
+  antiFlickerTimeout: number;
+  antiFlickerSelector: string | null;
+  consentMode: ConsentMode;
+  consentTcf: boolean;
+  identityStrategy: IdentityStrategy;
+  cookieDomain: string | null;
+  cookieDays: number;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
   embedScript: string;
+  antiFlickerSnippet: string;
   stats: ProjectStats;
+  experiments: ExperimentWithStats[];
+  layers: LayerWithOccupancy[];
+  flags: FeatureFlag[];
+  rejectedOrigins: RejectedOrigin[];
 }
 
 interface PageProps {
@@ -40,6 +83,7 @@ export default function ProjectDetailPage({ params }: PageProps) {
   const [copied, setCopied] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showNewExperiment, setShowNewExperiment] = useState(false);
 
   useEffect(() => {
     fetchProject();
@@ -61,6 +105,20 @@ export default function ProjectDetailPage({ params }: PageProps) {
     }
   }
 
+  // Occupancy and layer membership change with experiment updates
+  async function refreshLayers() {
+    try {
+      const res = await fetch(`/api/projects/${id}/layers`);
+      if (!res.ok) throw new Error("Failed to fetch layers");
+      const data = await res.json();
+      setProject((current) =>
+        current ? { ...current, layers: data.layers } : current,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
   async function copyToClipboard() {
     if (!project) return;
     try {
@@ -102,6 +160,57 @@ export default function ProjectDetailPage({ params }: PageProps) {
     }
   }
 
+  // Visitors keep their first variation until this reshuffles them
+  async function rebucket() {
+    if (!project) return;
+    if (
+      !window.confirm(
+        "Re-bucket every visitor? Returning visitors will be assigned again with the current weights and may switch variations.",
+      )
+    ) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/projects/${id}/rebucket`, {
+        method: "POST",
+      });
+      if (!res.ok) throw new Error("Failed to re-bucket visitors");
+      const updated = await res.json();
+      setProject({ ...project, bucketEpoch: updated.bucketEpoch });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to re-bucket");
+    }
+  }
+
+  function updateExperiment(experiment: ExperimentWithStats) {
+    if (!project) return;
+    setProject({
+      ...project,
+      experiments: project.experiments.map((e) =>
+        e.id === experiment.id ? experiment : e,
+      ),
+    });
+    refreshLayers();
+  }
+
+  function removeExperiment(experimentId: string) {
+    if (!project) return;
+    setProject({
+      ...project,
+      experiments: project.experiments.filter((e) => e.id !== experimentId),
+    });
+    refreshLayers();
+  }
+
+  function addExperiment(experiment: ExperimentWithStats) {
+    if (!project) return;
+    setProject({
+      ...project,
+      experiments: [...project.experiments, experiment],
+    });
+    setShowNewExperiment(false);
+  }
+
   if (loading) {
     return (
       <div
@@ -206,8 +315,13 @@ export default function ProjectDetailPage({ params }: PageProps) {
     );
   }
 
-  const totalVisitors = project.stats.totalVisitors;
-  const maxVariation = Math.max(...Object.values(project.stats.variations), 1);
+  const primary = project.experiments.find(
+    (e) => e.status === "running" || e.status === "shipped",
+  );
+  const exampleKeys = (primary ?? project.experiments[0])?.variations.map(
+    (v) => v.key,
+  ) ?? ["A", "B"];
+  const [firstKey, secondKey] = exampleKeys;
 
   return (
     <div
@@ -267,11 +381,10 @@ export default function ProjectDetailPage({ params }: PageProps) {
               >
                 {project.name}
               </h1>
-              <span
-                className={`badge ${project.isActive ? "badge-success" : ""}`}
-              >
-                {project.isActive ? "Active" : "Inactive"}
-              </span>
+              <ScheduleBadge
+                project={project}
+                enrolledVisitors={project.stats.enrolledVisitors}
+              />
             </div>
             <p
               style={{ color: "var(--muted-foreground)", fontSize: "0.875rem" }}
@@ -300,103 +413,124 @@ export default function ProjectDetailPage({ params }: PageProps) {
         </div>
       </div>
 
-      {/* Stats */}
+      {/* Schedule */}
+      <ScheduleCard
+        projectId={project.id}
+        schedule={project}
+        enrolledVisitors={project.stats.enrolledVisitors}
+        onUpdate={(schedule) => setProject({ ...project, ...schedule })}
+        onError={setError}
+      />
+
+      {/* Traffic Exposure */}
+      <ExposureCard
+        projectId={project.id}
+        exposure={project.exposure}
+        eligibleVisitors={project.stats.eligibleVisitors}
+        enrolledVisitors={project.stats.enrolledVisitors}
+        onUpdate={(exposure) => setProject({ ...project, exposure })}
+        onError={setError}
+      />
+
+      {/* Targeting */}
+      <TargetingCard
+        projectId={project.id}
+        targeting={project.targeting}
+        ineligibleVisitors={project.stats.ineligibleVisitors}
+        onUpdate={(targeting) => setProject({ ...project, targeting })}
+        onError={setError}
+      />
+
+      {/* Bucketing Hash */}
+      <HashingCard
+        projectId={project.id}
+        hashVersion={project.hashVersion}
+        locked={project.experiments.some((e) => e.status === "running")}
+        onUpdate={(hashVersion) => setProject({ ...project, hashVersion })}
+        onError={setError}
+      />
+
+      {/* Layers */}
+      <LayersCard
+        projectId={project.id}
+        layers={project.layers}
+        onChange={fetchProject}
+        onError={setError}
+      />
+
+      {/* Experiments */}
       <div
         style={{
-          display: "grid",
-          gridTemplateColumns: "repeat(5, 1fr)",
-          gap: "0.75rem",
-          marginBottom: "1.5rem",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginBottom: "0.75rem",
         }}
       >
-        <div className="card" style={{ padding: "1rem" }}>
-          <div
-            style={{
-              fontSize: "0.6875rem",
-              color: "var(--muted-foreground)",
-              marginBottom: "0.25rem",
-              textTransform: "uppercase",
-              letterSpacing: "0.025em",
-            }}
-          >
-            Total
-          </div>
-          <div
-            style={{ fontSize: "1.5rem", fontWeight: 700, color: "#111827" }}
+        <div>
+          <h2
+            style={{ fontSize: "1.125rem", fontWeight: 600, color: "#111827" }}
           >
-            {totalVisitors.toLocaleString()}
-          </div>
+            Experiments
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            {project.stats.totalVisitors.toLocaleString()} events across{" "}
+            {project.experiments.length} experiment
+            {project.experiments.length === 1 ? "" : "s"}. Visitors keep their
+            first variation when weights change.
+          </p>
         </div>
-        {(["A", "B", "C", "D"] as const).map((v) => (
-          <div key={v} className="card" style={{ padding: "1rem" }}>
-            <div
-              style={{
-                fontSize: "0.6875rem",
-                color: "var(--muted-foreground)",
-                marginBottom: "0.25rem",
-                textTransform: "uppercase",
-                letterSpacing: "0.025em",
-              }}
-            >
-              Var {v}
-            </div>
-            <div
-              style={{
-                display: "flex",
-                alignItems: "baseline",
-                gap: "0.375rem",
-              }}
-            >
-              <span
-                className={`variation-${v.toLowerCase()}`}
-                style={{ fontSize: "1.5rem", fontWeight: 700 }}
-              >
-                {project.stats.variations[v]}
-              </span>
-              <span
-                style={{
-                  fontSize: "0.75rem",
-                  color: "var(--muted-foreground)",
-                }}
-              >
-                (
-                {totalVisitors > 0
-                  ? Math.round(
-                      (project.stats.variations[v] / totalVisitors) * 100,
-                    )
-                  : 0}
-                %)
-              </span>
-            </div>
-            <div
-              style={{
-                marginTop: "0.5rem",
-                height: "3px",
-                background: "var(--muted)",
-                borderRadius: "2px",
-                overflow: "hidden",
-              }}
+        <div style={{ display: "flex", gap: "0.375rem" }}>
+          <button
+            onClick={rebucket}
+            className="btn btn-ghost"
+            style={{ fontSize: "0.8125rem" }}
+          >
+            Re-bucket everyone
+          </button>
+          {!showNewExperiment && (
+            <button
+              onClick={() => setShowNewExperiment(true)}
+              className="btn btn-secondary"
+              style={{ fontSize: "0.8125rem" }}
             >
-              <div
-                style={{
-                  height: "100%",
-                  width: `${(project.stats.variations[v] / maxVariation) * 100}%`,
-                  background:
-                    v === "A"
-                      ? "#6366f1"
-                      : v === "B"
-                        ? "#10b981"
-                        : v === "C"
-                          ? "#f59e0b"
-                          : "#ef4444",
-                  transition: "width 0.3s ease",
-                }}
-              />
-            </div>
-          </div>
-        ))}
+              New Experiment
+            </button>
+          )}
+        </div>
       </div>
 
+      {showNewExperiment && (
+        <NewExperimentForm
+          projectId={project.id}
+          onCreated={addExperiment}
+          onCancel={() => setShowNewExperiment(false)}
+        />
+      )}
+
+      {project.experiments.map((experiment) => (
+        <ExperimentCard
+          key={experiment.id}
+          projectId={project.id}
+          experiment={experiment}
+          layers={project.layers}
+          onUpdate={updateExperiment}
+          onDelete={removeExperiment}
+          onError={setError}
+        />
+      ))}
+
+      {/* Feature Flags */}
+      <FlagsCard
+        projectId={project.id}
+        flags={project.flags}
+        onChange={(flags) => setProject({ ...project, flags })}
+        onError={setError}
+      />
+
+      {/* Preview Links */}
+      <PreviewLinksCard projectId={project.id} onError={setError} />
+
       {/* Embed Script */}
       <div className="card" style={{ marginBottom: "1.5rem" }}>
         <div
@@ -472,6 +606,47 @@ export default function ProjectDetailPage({ params }: PageProps) {
         </div>
       </div>
 
+      {/* Anti-Flicker */}
+      <AntiFlickerCard
+        projectId={project.id}
+        timeout={project.antiFlickerTimeout}
+        selector={project.antiFlickerSelector}
+        snippet={project.antiFlickerSnippet}
+        views={project.stats.antiFlickerViews}
+        timeouts={project.stats.antiFlickerTimeouts}
+        onChange={fetchProject}
+        onError={setError}
+      />
+
+      {/* Allowed Domains */}
+      <DomainsCard
+        projectId={project.id}
+        domain={project.domain}
+        allowedDomains={project.allowedDomains}
+        rejectedOrigins={project.rejectedOrigins}
+        onChange={fetchProject}
+        onError={setError}
+      />
+
+      {/* Consent */}
+      <ConsentCard
+        projectId={project.id}
+        mode={project.consentMode}
+        tcf={project.consentTcf}
+        onChange={fetchProject}
+        onError={setError}
+      />
+
+      {/* Visitor Identity */}
+      <IdentityCard
+        projectId={project.id}
+        strategy={project.identityStrategy}
+        cookieDomain={project.cookieDomain}
+        cookieDays={project.cookieDays}
+        onChange={fetchProject}
+        onError={setError}
+      />
+
       {/* Usage */}
       <div className="card">
         <div className="card-header">
@@ -487,15 +662,27 @@ export default function ProjectDetailPage({ params }: PageProps) {
             Use CSS selectors to style variations:
           </p>
           <div className="code-block" style={{ marginBottom: "1rem" }}>
-            <code>{`[data-optim-variation="A"] .hero { background: blue; }
-[data-optim-variation="B"] .hero { background: green; }`}</code>
+            <code>{`[data-optim-variation="${firstKey}"] .hero { background: blue; }
+[data-optim-variation="${secondKey}"] .hero { background: green; }`}</code>
           </div>
           <p style={{ color: "var(--muted-foreground)", marginBottom: "1rem" }}>
             Or show/hide elements:
           </p>
           <div className="code-block">
-            <code>{`<div data-optim-show="A">Only for Variation A</div>
-<div data-optim-show="B,C">For B and C</div>`}</code>
+            <code>{`<div data-optim-show="${firstKey}">Only for ${firstKey}</div>
+<div data-optim-show="${firstKey},${secondKey}">For ${firstKey} and ${secondKey}</div>`}</code>
+          </div>
+          <p
+            style={{
+              color: "var(--muted-foreground)",
+              margin: "1rem 0",
+            }}
+          >
+            With several experiments, target each one by its key:
+          </p>
+          <div className="code-block">
+            <code>{`[data-optim-exp-pricing="annual"] .price-monthly { display: none; }
+<div data-optim-exp="pricing" data-optim-show="annual">Billed yearly</div>`}</code>
           </div>
         </div>
       </div>
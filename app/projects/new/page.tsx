@@ -3,6 +3,8 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import VariationsEditor from "@/components/VariationsEditor";
+import { DEFAULT_VARIATIONS } from "@/lib/variation";
 
 export default function NewProjectPage() {
   const router = useRouter();
@@ -14,6 +16,7 @@ export default function NewProjectPage() {
     domain: "",
     description: "",
   });
+  const [variations, setVariations] = useState(DEFAULT_VARIATIONS);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -24,7 +27,7 @@ export default function NewProjectPage() {
       const res = await fetch("/api/projects", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, variations }),
       });
 
       if (!res.ok) {
@@ -153,6 +156,12 @@ export default function NewProjectPage() {
               />
             </div>
 
+            {/* Variations */}
+            <VariationsEditor
+              variations={variations}
+              onChange={setVariations}
+            />
+
             {/* Error Message */}
             {error && (
               <div
@@ -227,7 +236,7 @@ export default function NewProjectPage() {
             }}
           >
             After creating, you&apos;ll get an embed script. Visitors will be
-            assigned to variations A, B, C, or D consistently.
+            assigned to one of your variations consistently.
           </p>
         </div>
       </div>
@@ -2,14 +2,23 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import ScheduleBadge from "@/components/ScheduleBadge";
+import { variationColorKey } from "@/lib/variation-colors";
 
 interface ProjectStats {
   totalVisitors: number;
-  variations: {
-    A: number;
-    B: number;
-    C: number;
-    D: number;
+  enrolledVisitors: number;
+}
+
+interface Experiment {
+  id: string;
+  key: string;
+  name: string;
+  status: string;
+  variations: { key: string; label: string }[];
+  stats: {
+    totalVisitors: number;
+    variations: Record<string, number>;
   };
 }
 
@@ -19,8 +28,12 @@ interface Project {
   domain: string;
   description: string | null;
   isActive: boolean;
+  startsAt: string | null;
+  endsAt: string | null;
+  maxVisitors: number | null;
   createdAt: string;
   stats?: ProjectStats;
+  experiments?: Experiment[];
 }
 
 export default function ProjectsPage() {
@@ -230,7 +243,7 @@ export default function ProjectsPage() {
                     letterSpacing: "0.05em",
                   }}
                 >
-                  Variations
+                  Experiments
                 </th>
                 <th
                   style={{
@@ -286,11 +299,10 @@ export default function ProjectsPage() {
                     </Link>
                   </td>
                   <td style={{ padding: "0.75rem 1rem" }}>
-                    <span
-                      className={`badge ${project.isActive ? "badge-success" : ""}`}
-                    >
-                      {project.isActive ? "Active" : "Inactive"}
-                    </span>
+                    <ScheduleBadge
+                      project={project}
+                      enrolledVisitors={project.stats?.enrolledVisitors ?? 0}
+                    />
                   </td>
                   <td
                     style={{
@@ -303,30 +315,48 @@ export default function ProjectsPage() {
                     {(project.stats?.totalVisitors || 0).toLocaleString()}
                   </td>
                   <td style={{ padding: "0.75rem 1rem" }}>
-                    <div
-                      style={{
-                        display: "flex",
-                        justifyContent: "center",
-                        gap: "0.375rem",
-                      }}
-                    >
-                      {(["A", "B", "C", "D"] as const).map((v) => (
+                    {(project.experiments || []).map((experiment) => (
+                      <div
+                        key={experiment.id}
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          justifyContent: "center",
+                          flexWrap: "wrap",
+                          gap: "0.375rem",
+                          marginBottom: "0.25rem",
+                        }}
+                      >
                         <span
-                          key={v}
-                          className={`bg-variation-${v.toLowerCase()}`}
+                          title={experiment.name}
                           style={{
-                            padding: "0.125rem 0.375rem",
-                            borderRadius: "0.25rem",
                             fontSize: "0.6875rem",
-                            fontWeight: 500,
+                            color: "var(--muted-foreground)",
                           }}
                         >
-                          <span className={`variation-${v.toLowerCase()}`}>
-                            {v}:{project.stats?.variations[v] || 0}
-                          </span>
+                          {experiment.key}
                         </span>
-                      ))}
-                    </div>
+                        {experiment.variations.map((v, i) => (
+                          <span
+                            key={v.key}
+                            className={`bg-variation-${variationColorKey(i)}`}
+                            title={v.label}
+                            style={{
+                              padding: "0.125rem 0.375rem",
+                              borderRadius: "0.25rem",
+                              fontSize: "0.6875rem",
+                              fontWeight: 500,
+                            }}
+                          >
+                            <span
+                              className={`variation-${variationColorKey(i)}`}
+                            >
+                              {v.key}:{experiment.stats.variations[v.key] || 0}
+                            </span>
+                          </span>
+                        ))}
+                      </div>
+                    ))}
                   </td>
                   <td
                     style={{
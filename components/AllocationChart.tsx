@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { variationColor, variationColorKey } from "@/lib/variation-colors";
+import type { AllocationSnapshot, VariationDefinition } from "@/lib/types";
+
+interface AllocationChartProps {
+  url: string;
+  variations: VariationDefinition[];
+  /** Changes whenever the bandit settings change, to reload the history */
+  version: string;
+  onError: (message: string) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 140;
+
+/**
+ * Stacked share of traffic per variation over a bandit's recomputations
+ */
+export default function AllocationChart({
+  url,
+  variations,
+  version,
+  onError,
+}: AllocationChartProps) {
+  const [history, setHistory] = useState<AllocationSnapshot[] | null>(null);
+  const [recomputing, setRecomputing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url)
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load allocation history");
+        const data = await res.json();
+        if (!cancelled) setHistory(data.history);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          onError(err instanceof Error ? err.message : "Failed to load");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, version, onError]);
+
+  async function recompute() {
+    setRecomputing(true);
+    try {
+      const res = await fetch(url, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to recompute allocation");
+      }
+      const snapshot: AllocationSnapshot = await res.json();
+      setHistory((current) => [...(current ?? []), snapshot]);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to recompute");
+    } finally {
+      setRecomputing(false);
+    }
+  }
+
+  if (!history) return null;
+
+  const latest = history[history.length - 1];
+
+  // Cumulative share boundaries per variation, placed by time; a single
+  // snapshot spans the whole width
+  const times = history.map((s) => new Date(s.computedAt).getTime());
+  const span = times[times.length - 1] - times[0];
+  const columns = history.map((snapshot, i) => {
+    const total = variations.reduce(
+      (sum, v) => sum + (snapshot.weights[v.key] ?? 0),
+      0,
+    );
+    let running = 0;
+    const bands = variations.map((v) => {
+      const low = running;
+      running += total > 0 ? (snapshot.weights[v.key] ?? 0) / total : 0;
+      return [low, running];
+    });
+    const x =
+      span > 0
+        ? ((times[i] - times[0]) / span) * WIDTH
+        : (i / Math.max(history.length - 1, 1)) * WIDTH;
+    return { x, bands };
+  });
+  if (columns.length === 1) columns.push({ ...columns[0], x: WIDTH });
+
+  return (
+    <div style={{ marginTop: "1rem" }}>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+          Allocation over {history.length} recomputation
+          {history.length === 1 ? "" : "s"}
+        </p>
+        <button
+          onClick={recompute}
+          className="btn btn-ghost"
+          style={{ fontSize: "0.8125rem" }}
+          disabled={recomputing}
+        >
+          {recomputing ? "Recomputing..." : "Recompute now"}
+        </button>
+      </div>
+      {history.length > 0 && (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label="Traffic share per variation over time"
+          style={{
+            width: "100%",
+            height: `${HEIGHT}px`,
+            background: "var(--muted)",
+            borderRadius: "0.375rem",
+          }}
+        >
+          {variations.map((v, index) => {
+            const top = columns.map(
+              (c) => `${c.x},${HEIGHT * (1 - c.bands[index][1])}`,
+            );
+            const bottom = columns
+              .map((c) => `${c.x},${HEIGHT * (1 - c.bands[index][0])}`)
+              .reverse();
+            return (
+              <polygon
+                key={v.key}
+                points={[...top, ...bottom].join(" ")}
+                fill={variationColor(index)}
+                fillOpacity={0.75}
+              />
+            );
+          })}
+        </svg>
+      )}
+      {latest && (
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "1rem",
+            marginTop: "0.5rem",
+            fontSize: "0.75rem",
+          }}
+        >
+          {variations.map((v, index) => {
+            const visitors = latest.visitors[v.key] ?? 0;
+            const conversions = latest.conversions[v.key] ?? 0;
+            return (
+              <span key={v.key}>
+                <span className={`variation-${variationColorKey(index)}`}>
+                  {v.label}
+                </span>{" "}
+                {conversions}/{visitors} converted
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
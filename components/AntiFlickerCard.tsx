@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_ANTI_FLICKER_TIMEOUT,
+  MIN_ANTI_FLICKER_TIMEOUT,
+} from "@/lib/anti-flicker";
+
+interface AntiFlickerCardProps {
+  projectId: string;
+  timeout: number;
+  selector: string | null;
+  snippet: string;
+  views: number;
+  timeouts: number;
+  /** Called after saving, to reload the regenerated snippet */
+  onChange: () => void;
+  onError: (message: string) => void;
+}
+
+interface AntiFlickerDraft {
+  timeout: string;
+  selector: string;
+}
+
+/**
+ * Anti-flicker snippet with its timeout and hidden elements, and how often
+ * the timeout showed the page before the script did
+ */
+export default function AntiFlickerCard({
+  projectId,
+  timeout,
+  selector,
+  snippet,
+  views,
+  timeouts,
+  onChange,
+  onError,
+}: AntiFlickerCardProps) {
+  const [draft, setDraft] = useState<AntiFlickerDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const current = draft ?? {
+    timeout: String(timeout),
+    selector: selector ?? "",
+  };
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          antiFlickerTimeout: Number(draft.timeout),
+          antiFlickerSelector: draft.selector.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update anti-flicker");
+      }
+      setDraft(null);
+      onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  }
+
+  const timeoutRate = views > 0 ? Math.round((timeouts / views) * 100) : 0;
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Anti-Flicker
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Paste this in the &lt;head&gt; right before the embed script. It
+            hides the page until the variation is applied or the timeout
+            expires. Copy it again after changing the settings.
+          </p>
+        </div>
+        <div style={{ display: "flex", gap: "0.375rem" }}>
+          {draft && (
+            <>
+              <button
+                onClick={() => setDraft(null)}
+                className="btn btn-ghost"
+                style={{ fontSize: "0.8125rem" }}
+              >
+                Reset
+              </button>
+              <button
+                onClick={save}
+                className="btn btn-primary"
+                style={{ fontSize: "0.8125rem" }}
+                disabled={saving}
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </>
+          )}
+          {!draft && (
+            <button
+              onClick={copy}
+              className="btn btn-secondary"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              {copied ? "Copied!" : "Copy"}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="card-content">
+        <div
+          style={{
+            display: "flex",
+            alignItems: "flex-end",
+            gap: "1rem",
+            flexWrap: "wrap",
+            marginBottom: "1rem",
+          }}
+        >
+          <label
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "0.25rem",
+              fontSize: "0.8125rem",
+            }}
+          >
+            <span className="stat-label">Timeout (ms)</span>
+            <input
+              type="number"
+              min={MIN_ANTI_FLICKER_TIMEOUT}
+              max={MAX_ANTI_FLICKER_TIMEOUT}
+              step={100}
+              className="input"
+              value={current.timeout}
+              onChange={(e) =>
+                setDraft({ ...current, timeout: e.target.value })
+              }
+              style={{ width: "120px" }}
+            />
+          </label>
+          <label
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "0.25rem",
+              fontSize: "0.8125rem",
+              flex: 1,
+            }}
+          >
+            <span className="stat-label">Hide</span>
+            <input
+              type="text"
+              className="input"
+              placeholder="Whole page, or selectors e.g. .hero, #pricing"
+              value={current.selector}
+              onChange={(e) =>
+                setDraft({ ...current, selector: e.target.value })
+              }
+              style={{ fontFamily: "monospace" }}
+            />
+          </label>
+          <div>
+            <div className="stat-label">Timed out</div>
+            <div className="stat-value">
+              {timeouts.toLocaleString()}{" "}
+              <span
+                style={{
+                  fontSize: "0.75rem",
+                  fontWeight: 400,
+                  color: "var(--muted-foreground)",
+                }}
+              >
+                of {views.toLocaleString()} page views ({timeoutRate}%)
+              </span>
+            </div>
+          </div>
+        </div>
+        <div className="code-block">
+          <code style={{ whiteSpace: "pre" }}>{snippet}</code>
+        </div>
+      </div>
+    </div>
+  );
+}
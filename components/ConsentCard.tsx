@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { CONSENT_MODE_LABELS, CONSENT_MODES } from "@/lib/consent";
+import type { ConsentMode } from "@/lib/types";
+
+interface ConsentCardProps {
+  projectId: string;
+  mode: ConsentMode;
+  tcf: boolean;
+  /** Called after saving, to reload the project */
+  onChange: () => void;
+  onError: (message: string) => void;
+}
+
+const MODE_DESCRIPTIONS: Record<ConsentMode, string> = {
+  off: "The script stores the visitor ID and tracks right away.",
+  wait: "The script does nothing until the visitor consents.",
+  assign:
+    "Variations apply right away with an ID kept in memory. Beacons are queued and sent once the visitor consents.",
+};
+
+/**
+ * Whether the script waits for the visitor's consent, and whether a TCF
+ * v2 consent banner can grant it
+ */
+export default function ConsentCard({
+  projectId,
+  mode,
+  tcf,
+  onChange,
+  onError,
+}: ConsentCardProps) {
+  const [saving, setSaving] = useState(false);
+
+  async function save(body: {
+    consentMode?: ConsentMode;
+    consentTcf?: boolean;
+  }) {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update consent");
+      }
+      onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Consent
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            {MODE_DESCRIPTIONS[mode]}
+          </p>
+        </div>
+        <select
+          className="input"
+          aria-label="Consent mode"
+          value={mode}
+          onChange={(e) => save({ consentMode: e.target.value as ConsentMode })}
+          disabled={saving}
+          style={{ width: "240px" }}
+        >
+          {CONSENT_MODES.map((value) => (
+            <option key={value} value={value}>
+              {CONSENT_MODE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {mode !== "off" && (
+        <div className="card-content">
+          <label
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "0.5rem",
+              fontSize: "0.8125rem",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={tcf}
+              onChange={(e) => save({ consentTcf: e.target.checked })}
+              disabled={saving}
+            />
+            Take consent from a TCF v2 consent banner (storage and measurement
+            purposes)
+          </label>
+          <p
+            style={{
+              marginTop: "0.375rem",
+              fontSize: "0.75rem",
+              color: "var(--muted-foreground)",
+            }}
+          >
+            Otherwise call window.__OPTIMELEON__.consent(true) when the visitor
+            consents, and consent(false) when they withdraw it.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
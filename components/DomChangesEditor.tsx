@@ -0,0 +1,286 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_CHANGES_PER_VARIATION, MOVE_POSITIONS } from "@/lib/dom-changes";
+import type {
+  DomChange,
+  DomChangeType,
+  MovePosition,
+  Variation,
+  VariationDefinition,
+} from "@/lib/types";
+
+interface DomChangesEditorProps {
+  variations: VariationDefinition[];
+  changes: Record<Variation, DomChange[]>;
+  saving: boolean;
+  onSave: (body: {
+    changes: Record<Variation, DomChange[]>;
+  }) => Promise<boolean>;
+}
+
+const TYPE_LABELS: Record<DomChangeType, string> = {
+  text: "Replace text",
+  html: "Replace HTML",
+  attribute: "Set attribute",
+  css: "Add CSS",
+  hide: "Hide",
+  move: "Move",
+};
+
+const VALUE_PLACEHOLDERS: Partial<Record<DomChangeType, string>> = {
+  text: "New text",
+  html: "<strong>New</strong> HTML",
+  attribute: "Value",
+  css: "color: red; font-size: 2rem",
+};
+
+// Fields of every change type, so switching type keeps what was typed
+interface ChangeDraft {
+  type: DomChangeType;
+  selector: string;
+  value: string;
+  name: string;
+  target: string;
+  position: MovePosition;
+}
+
+function toDraft(change: DomChange): ChangeDraft {
+  return {
+    value: "",
+    name: "",
+    target: "",
+    position: "before",
+    ...change,
+  };
+}
+
+function fromDraft(draft: ChangeDraft): DomChange {
+  const { type, selector, value, name, target, position } = draft;
+  switch (type) {
+    case "attribute":
+      return { type, selector, name, value };
+    case "hide":
+      return { type, selector };
+    case "move":
+      return { type, selector, target, position };
+    default:
+      return { type, selector, value };
+  }
+}
+
+/**
+ * Changes each variation makes to the page, keyed by CSS selector, so
+ * variations can be built without deploying the site
+ */
+export default function DomChangesEditor({
+  variations,
+  changes,
+  saving,
+  onSave,
+}: DomChangesEditorProps) {
+  const [selected, setSelected] = useState(variations[0].key);
+  const [draft, setDraft] = useState<Record<Variation, ChangeDraft[]> | null>(
+    null,
+  );
+
+  const current =
+    draft ??
+    Object.fromEntries(
+      variations.map((v) => [v.key, (changes[v.key] ?? []).map(toDraft)]),
+    );
+  const list = current[selected] ?? [];
+
+  function setList(next: ChangeDraft[]) {
+    setDraft({ ...current, [selected]: next });
+  }
+
+  function updateChange(index: number, fields: Partial<ChangeDraft>) {
+    setList(list.map((c, i) => (i === index ? { ...c, ...fields } : c)));
+  }
+
+  async function save() {
+    if (!draft) return;
+    const saved = await onSave({
+      changes: Object.fromEntries(
+        Object.entries(draft).map(([key, drafts]) => [
+          key,
+          drafts.map(fromDraft),
+        ]),
+      ),
+    });
+    if (saved) setDraft(null);
+  }
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "0.75rem",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <div style={{ flex: 1 }}>
+          <h3
+            style={{ fontSize: "0.875rem", fontWeight: 600, color: "#111827" }}
+          >
+            Page Changes
+          </h3>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Applied by the embed script to the elements matching each selector
+          </p>
+        </div>
+        <select
+          className="input"
+          aria-label="Variation to edit"
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          style={{ width: "160px" }}
+        >
+          {variations.map((v) => (
+            <option key={v.key} value={v.key}>
+              {v.label} ({(current[v.key] ?? []).length})
+            </option>
+          ))}
+        </select>
+        {draft && (
+          <div style={{ display: "flex", gap: "0.375rem" }}>
+            <button
+              onClick={() => setDraft(null)}
+              className="btn btn-ghost"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              className="btn btn-primary"
+              style={{ fontSize: "0.8125rem" }}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+        {list.map((change, index) => (
+          <div key={index} style={{ display: "flex", gap: "0.5rem" }}>
+            <select
+              className="input"
+              aria-label={`Change ${index + 1} type`}
+              value={change.type}
+              onChange={(e) =>
+                updateChange(index, {
+                  type: e.target.value as DomChangeType,
+                })
+              }
+              style={{ width: "140px" }}
+            >
+              {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              className="input"
+              placeholder="Selector, e.g. .hero h1"
+              aria-label={`Change ${index + 1} selector`}
+              value={change.selector}
+              onChange={(e) =>
+                updateChange(index, { selector: e.target.value })
+              }
+              style={{ flex: 1, fontFamily: "monospace" }}
+            />
+            {change.type === "attribute" && (
+              <input
+                type="text"
+                className="input"
+                placeholder="Attribute, e.g. href"
+                aria-label={`Change ${index + 1} attribute`}
+                value={change.name}
+                onChange={(e) => updateChange(index, { name: e.target.value })}
+                style={{ width: "120px" }}
+              />
+            )}
+            {change.type === "move" ? (
+              <>
+                <select
+                  className="input"
+                  aria-label={`Change ${index + 1} position`}
+                  value={change.position}
+                  onChange={(e) =>
+                    updateChange(index, {
+                      position: e.target.value as MovePosition,
+                    })
+                  }
+                  style={{ width: "100px" }}
+                >
+                  {MOVE_POSITIONS.map((position) => (
+                    <option key={position} value={position}>
+                      {position}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="Target selector"
+                  aria-label={`Change ${index + 1} target`}
+                  value={change.target}
+                  onChange={(e) =>
+                    updateChange(index, { target: e.target.value })
+                  }
+                  style={{ flex: 1, fontFamily: "monospace" }}
+                />
+              </>
+            ) : (
+              change.type !== "hide" && (
+                <input
+                  type="text"
+                  className="input"
+                  placeholder={VALUE_PLACEHOLDERS[change.type]}
+                  aria-label={`Change ${index + 1} value`}
+                  value={change.value}
+                  onChange={(e) =>
+                    updateChange(index, { value: e.target.value })
+                  }
+                  style={{
+                    flex: 2,
+                    fontFamily: change.type === "text" ? "" : "monospace",
+                  }}
+                />
+              )
+            )}
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() => setList(list.filter((_, i) => i !== index))}
+              aria-label={`Remove change ${index + 1}`}
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={() =>
+          setList([...list, toDraft({ type: "text", selector: "", value: "" })])
+        }
+        disabled={list.length >= MAX_CHANGES_PER_VARIATION}
+        style={{ marginTop: "0.5rem", fontSize: "0.8125rem" }}
+      >
+        Add Change
+      </button>
+    </div>
+  );
+}
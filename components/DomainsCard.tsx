@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_ALLOWED_DOMAINS } from "@/lib/domains";
+import type { RejectedOrigin } from "@/lib/types";
+
+interface DomainsCardProps {
+  projectId: string;
+  domain: string;
+  allowedDomains: string[];
+  rejectedOrigins: RejectedOrigin[];
+  /** Called after saving, to reload the normalized list */
+  onChange: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Sites the embed script and beacons are accepted from, and the origins
+ * hits were rejected from
+ */
+export default function DomainsCard({
+  projectId,
+  domain,
+  allowedDomains,
+  rejectedOrigins,
+  onChange,
+  onError,
+}: DomainsCardProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const current = draft ?? allowedDomains.join("\n");
+
+  async function save() {
+    if (draft === null) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          allowedDomains: draft
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update allowed domains");
+      }
+      setDraft(null);
+      onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Allowed Domains
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            The script only runs, and hits are only counted, on {domain} and
+            these domains
+          </p>
+        </div>
+        {draft !== null && (
+          <div style={{ display: "flex", gap: "0.375rem" }}>
+            <button
+              onClick={() => setDraft(null)}
+              className="btn btn-ghost"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              className="btn btn-primary"
+              style={{ fontSize: "0.8125rem" }}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="card-content">
+        <textarea
+          className="input"
+          rows={4}
+          aria-label="Allowed domains"
+          placeholder={"One per line, e.g.\n*.example.com\nlocalhost"}
+          value={current}
+          onChange={(e) => setDraft(e.target.value)}
+          style={{ width: "100%", fontFamily: "monospace", resize: "vertical" }}
+        />
+        <p
+          style={{
+            marginTop: "0.375rem",
+            fontSize: "0.75rem",
+            color: "var(--muted-foreground)",
+          }}
+        >
+          Up to {MAX_ALLOWED_DOMAINS}. example.com also allows www.example.com,
+          *.example.com allows its subdomains and localhost allows local
+          development.
+        </p>
+
+        {rejectedOrigins.length > 0 && (
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "0.8125rem",
+              marginTop: "1rem",
+            }}
+          >
+            <thead>
+              <tr style={{ textAlign: "left" }}>
+                <th className="stat-label" style={{ padding: "0.25rem 0" }}>
+                  Rejected from
+                </th>
+                <th className="stat-label" style={{ padding: "0.25rem 0" }}>
+                  Hits
+                </th>
+                <th className="stat-label" style={{ padding: "0.25rem 0" }}>
+                  Last seen
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rejectedOrigins.map((row) => (
+                <tr key={row.origin}>
+                  <td style={{ padding: "0.25rem 0", fontFamily: "monospace" }}>
+                    {row.origin}
+                  </td>
+                  <td style={{ padding: "0.25rem 0" }}>
+                    {row.hits.toLocaleString()}
+                  </td>
+                  <td
+                    style={{
+                      padding: "0.25rem 0",
+                      color: "var(--muted-foreground)",
+                    }}
+                  >
+                    {new Date(row.lastSeenAt).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,822 @@
+"use client";
+
+import { useState } from "react";
+import AllocationChart from "@/components/AllocationChart";
+import DomChangesEditor from "@/components/DomChangesEditor";
+import FunnelEditor from "@/components/FunnelEditor";
+import FunnelReport from "@/components/FunnelReport";
+import { variationColor, variationColorKey } from "@/lib/variation-colors";
+import type {
+  AllocationMode,
+  ExperimentStatus,
+  ExperimentWithStats,
+  Layer,
+} from "@/lib/types";
+
+interface ExperimentCardProps {
+  projectId: string;
+  experiment: ExperimentWithStats;
+  layers: Pick<Layer, "id" | "name">[];
+  onUpdate: (experiment: ExperimentWithStats) => void;
+  onDelete: (experimentId: string) => void;
+  onError: (message: string) => void;
+}
+
+const STATUS_LABELS: Record<ExperimentStatus, string> = {
+  draft: "Draft",
+  running: "Running",
+  paused: "Paused",
+  shipped: "Shipped",
+};
+
+/**
+ * An experiment on the project detail page: per-variation stats and
+ * funnel, status controls, traffic allocation, layer placement, pages and
+ * page changes, or the concluded result once a winner is shipped
+ */
+export default function ExperimentCard({
+  projectId,
+  experiment,
+  layers,
+  onUpdate,
+  onDelete,
+  onError,
+}: ExperimentCardProps) {
+  const [weightDraft, setWeightDraft] = useState<Record<string, string>>({});
+  const [layerDraft, setLayerDraft] = useState<{
+    layerId: string | null;
+    layerShare: string;
+  } | null>(null);
+  const [banditDraft, setBanditDraft] = useState<{
+    allocation: AllocationMode;
+    banditGoal: string;
+  } | null>(null);
+  const [shipDraft, setShipDraft] = useState<{
+    variation: string;
+    conclusion: string;
+  } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const url = `/api/projects/${projectId}/experiments/${experiment.id}`;
+
+  async function update(body: object) {
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update experiment");
+      }
+      const updated = await res.json();
+      onUpdate({ ...experiment, ...updated });
+      return true;
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveWeights() {
+    const weights = Object.fromEntries(
+      Object.entries(weightDraft).map(([key, value]) => [key, Number(value)]),
+    );
+    if (await update({ weights })) setWeightDraft({});
+  }
+
+  async function saveLayer() {
+    if (!layerDraft) return;
+    const body = layerDraft.layerId
+      ? {
+          layerId: layerDraft.layerId,
+          layerShare: Number(layerDraft.layerShare),
+        }
+      : { layerId: null };
+    if (await update(body)) setLayerDraft(null);
+  }
+
+  async function saveBandit() {
+    if (!banditDraft) return;
+    const body =
+      banditDraft.allocation === "bandit"
+        ? { allocation: "bandit", banditGoal: banditDraft.banditGoal.trim() }
+        : { allocation: "fixed" };
+    if (await update(body)) setBanditDraft(null);
+  }
+
+  async function ship() {
+    if (!shipDraft) return;
+    const winner = experiment.variations.find(
+      (v) => v.key === shipDraft.variation,
+    );
+    if (
+      !window.confirm(
+        `Ship "${winner?.label}" to every visitor? Results are frozen and the experiment can't be restarted.`,
+      )
+    ) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`${url}/ship`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variation: shipDraft.variation,
+          conclusion: shipDraft.conclusion.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to ship winner");
+      }
+      onUpdate(await res.json());
+      setShipDraft(null);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to ship");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (
+      !window.confirm(
+        `Delete "${experiment.name}" and all of its visitor data?`,
+      )
+    ) {
+      return;
+    }
+    try {
+      const res = await fetch(url, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete experiment");
+      onDelete(experiment.id);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to delete");
+    }
+  }
+
+  const { stats } = experiment;
+  const totalVisitors = stats.totalVisitors;
+  const maxVariation = Math.max(...Object.values(stats.variations), 1);
+  const draftWeights = experiment.variations.map((v) =>
+    weightDraft[v.key] !== undefined
+      ? Number(weightDraft[v.key]) || 0
+      : v.weight,
+  );
+  const totalWeight = draftWeights.reduce((sum, w) => sum + w, 0);
+  const weightsChanged = Object.keys(weightDraft).length > 0;
+  const isRunning = experiment.status === "running";
+  const isShipped = experiment.status === "shipped";
+  const winnerIndex = experiment.variations.findIndex(
+    (v) => v.key === experiment.winner,
+  );
+  const bandit = banditDraft ?? {
+    allocation: experiment.allocation,
+    banditGoal: experiment.banditGoal ?? "",
+  };
+  const banditWeights =
+    experiment.allocation === "bandit" ? experiment.banditWeights : null;
+  const banditTotal = banditWeights
+    ? Object.values(banditWeights).reduce((sum, w) => sum + w, 0)
+    : 0;
+  const layer = layerDraft ?? {
+    layerId: experiment.layerId,
+    layerShare: String(experiment.layerShare),
+  };
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "0.5rem",
+              marginBottom: "0.125rem",
+            }}
+          >
+            <h2 style={{ fontSize: "1rem", fontWeight: 600, color: "#111827" }}>
+              {experiment.name}
+            </h2>
+            <span
+              className={`badge ${isRunning ? "badge-success" : isShipped ? "badge-primary" : ""}`}
+            >
+              {STATUS_LABELS[experiment.status]}
+            </span>
+          </div>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            <code>data-optim-exp-{experiment.key}</code> • {experiment.id}
+          </p>
+        </div>
+        <div style={{ display: "flex", gap: "0.375rem" }}>
+          {!isShipped && (
+            <>
+              <button
+                onClick={() =>
+                  setShipDraft(
+                    shipDraft
+                      ? null
+                      : {
+                          variation: experiment.variations[0].key,
+                          conclusion: "",
+                        },
+                  )
+                }
+                className="btn btn-ghost"
+                style={{ fontSize: "0.8125rem" }}
+              >
+                Ship Winner
+              </button>
+              <button
+                onClick={() =>
+                  update({ status: isRunning ? "paused" : "running" })
+                }
+                className="btn btn-secondary"
+                style={{ fontSize: "0.8125rem" }}
+                disabled={saving}
+              >
+                {isRunning ? "Pause" : "Start"}
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleDelete}
+            className="btn btn-ghost"
+            style={{ color: "var(--destructive)", fontSize: "0.8125rem" }}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="card-content">
+        {/* Ship Winner */}
+        {shipDraft && (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "0.5rem",
+              marginBottom: "1.25rem",
+              paddingBottom: "1rem",
+              borderBottom: "1px solid var(--border)",
+            }}
+          >
+            <div
+              style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}
+            >
+              <span className="stat-label" style={{ flex: 1 }}>
+                Serve this variation to every visitor, untracked
+              </span>
+              <select
+                className="input"
+                aria-label="Winning variation"
+                value={shipDraft.variation}
+                onChange={(e) =>
+                  setShipDraft({ ...shipDraft, variation: e.target.value })
+                }
+                style={{ width: "160px" }}
+              >
+                {experiment.variations.map((v) => (
+                  <option key={v.key} value={v.key}>
+                    {v.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              className="input"
+              aria-label="Conclusion"
+              placeholder="Conclusion, e.g. B lifted signups 12% over four weeks"
+              value={shipDraft.conclusion}
+              onChange={(e) =>
+                setShipDraft({ ...shipDraft, conclusion: e.target.value })
+              }
+              rows={2}
+              style={{ resize: "vertical" }}
+            />
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "flex-end",
+                gap: "0.375rem",
+              }}
+            >
+              <button
+                onClick={() => setShipDraft(null)}
+                className="btn btn-ghost"
+                style={{ fontSize: "0.8125rem" }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={ship}
+                className="btn btn-primary"
+                style={{ fontSize: "0.8125rem" }}
+                disabled={saving}
+              >
+                {saving ? "Shipping..." : "Ship"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Concluded */}
+        {isShipped && (
+          <div
+            style={{
+              marginBottom: "1.25rem",
+              paddingBottom: "1rem",
+              borderBottom: "1px solid var(--border)",
+              fontSize: "0.875rem",
+            }}
+          >
+            <div
+              style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+            >
+              <span className="stat-label">Winner</span>
+              <span
+                className={`variation-${variationColorKey(winnerIndex)}`}
+                style={{ fontWeight: 600 }}
+              >
+                {experiment.variations[winnerIndex]?.label ?? experiment.winner}
+              </span>
+              {experiment.shippedAt && (
+                <span
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "var(--muted-foreground)",
+                  }}
+                >
+                  shipped {new Date(experiment.shippedAt).toLocaleString()}
+                </span>
+              )}
+            </div>
+            {experiment.conclusion && (
+              <p style={{ marginTop: "0.375rem", whiteSpace: "pre-wrap" }}>
+                {experiment.conclusion}
+              </p>
+            )}
+            <p
+              style={{
+                marginTop: "0.375rem",
+                fontSize: "0.75rem",
+                color: "var(--muted-foreground)",
+              }}
+            >
+              Every visitor gets the winner and nothing is tracked. The results
+              below are frozen as of shipping.
+            </p>
+          </div>
+        )}
+
+        {/* Stats */}
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(150px, 1fr))",
+            gap: "0.75rem",
+            marginBottom: "1.25rem",
+          }}
+        >
+          <div className="card" style={{ padding: "1rem" }}>
+            <div
+              style={{
+                fontSize: "0.6875rem",
+                color: "var(--muted-foreground)",
+                marginBottom: "0.25rem",
+                textTransform: "uppercase",
+                letterSpacing: "0.025em",
+              }}
+            >
+              Total
+            </div>
+            <div
+              style={{ fontSize: "1.5rem", fontWeight: 700, color: "#111827" }}
+            >
+              {totalVisitors.toLocaleString()}
+            </div>
+          </div>
+          {experiment.variations.map((v, index) => {
+            const count = stats.variations[v.key] || 0;
+            return (
+              <div key={v.key} className="card" style={{ padding: "1rem" }}>
+                <div
+                  title={v.key}
+                  style={{
+                    fontSize: "0.6875rem",
+                    color: "var(--muted-foreground)",
+                    marginBottom: "0.25rem",
+                    textTransform: "uppercase",
+                    letterSpacing: "0.025em",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {v.label}
+                </div>
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "baseline",
+                    gap: "0.375rem",
+                  }}
+                >
+                  <span
+                    className={`variation-${variationColorKey(index)}`}
+                    style={{ fontSize: "1.5rem", fontWeight: 700 }}
+                  >
+                    {count}
+                  </span>
+                  <span
+                    style={{
+                      fontSize: "0.75rem",
+                      color: "var(--muted-foreground)",
+                    }}
+                  >
+                    (
+                    {totalVisitors > 0
+                      ? Math.round((count / totalVisitors) * 100)
+                      : 0}
+                    %)
+                  </span>
+                </div>
+                <div
+                  style={{
+                    marginTop: "0.5rem",
+                    height: "3px",
+                    background: "var(--muted)",
+                    borderRadius: "2px",
+                    overflow: "hidden",
+                  }}
+                >
+                  <div
+                    style={{
+                      height: "100%",
+                      width: `${(count / maxVariation) * 100}%`,
+                      background: variationColor(index),
+                      transition: "width 0.3s ease",
+                    }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Funnel */}
+        {experiment.funnel.length > 0 && (
+          <FunnelReport
+            url={`${url}/funnel`}
+            variations={experiment.variations}
+            version={`${JSON.stringify(experiment.funnel)}:${totalVisitors}`}
+            onError={onError}
+          />
+        )}
+
+        {!isShipped && (
+          <>
+            {/* Traffic Allocation */}
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                marginBottom: "0.5rem",
+              }}
+            >
+              <div>
+                <h3
+                  style={{
+                    fontSize: "0.875rem",
+                    fontWeight: 600,
+                    color: "#111827",
+                  }}
+                >
+                  Traffic Allocation
+                </h3>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "var(--muted-foreground)",
+                  }}
+                >
+                  Relative weights, e.g. 90 and 10 for a 90/10 split
+                </p>
+              </div>
+              {weightsChanged && (
+                <div style={{ display: "flex", gap: "0.375rem" }}>
+                  <button
+                    onClick={() => setWeightDraft({})}
+                    className="btn btn-ghost"
+                    style={{ fontSize: "0.8125rem" }}
+                  >
+                    Reset
+                  </button>
+                  <button
+                    onClick={saveWeights}
+                    className="btn btn-primary"
+                    style={{ fontSize: "0.8125rem" }}
+                    disabled={saving || totalWeight === 0}
+                  >
+                    {saving ? "Saving..." : "Save"}
+                  </button>
+                </div>
+              )}
+            </div>
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: "0.5rem",
+              }}
+            >
+              {experiment.variations.map((v, index) => (
+                <div
+                  key={v.key}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.75rem",
+                  }}
+                >
+                  <span
+                    className={`variation-${variationColorKey(index)}`}
+                    style={{ flex: 1, fontSize: "0.875rem", fontWeight: 500 }}
+                  >
+                    {v.label}
+                    {v.url && (
+                      <span
+                        style={{
+                          marginLeft: "0.5rem",
+                          fontSize: "0.75rem",
+                          fontWeight: 400,
+                          color: "var(--muted-foreground)",
+                        }}
+                      >
+                        {v.url}
+                      </span>
+                    )}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    className="input"
+                    aria-label={`Weight for ${v.label}`}
+                    value={weightDraft[v.key] ?? String(v.weight)}
+                    onChange={(e) =>
+                      setWeightDraft({
+                        ...weightDraft,
+                        [v.key]: e.target.value,
+                      })
+                    }
+                    style={{ width: "96px" }}
+                  />
+                  <span
+                    style={{
+                      width: "48px",
+                      textAlign: "right",
+                      fontSize: "0.8125rem",
+                      color: "var(--muted-foreground)",
+                    }}
+                  >
+                    {totalWeight > 0
+                      ? Math.round((draftWeights[index] / totalWeight) * 100)
+                      : 0}
+                    %
+                  </span>
+                  {banditWeights && (
+                    <span
+                      title="Current bandit allocation"
+                      style={{
+                        width: "88px",
+                        textAlign: "right",
+                        fontSize: "0.8125rem",
+                        fontWeight: 500,
+                      }}
+                    >
+                      bandit{" "}
+                      {banditTotal > 0
+                        ? Math.round(
+                            ((banditWeights[v.key] ?? 0) / banditTotal) * 100,
+                          )
+                        : 0}
+                      %
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Bandit */}
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                marginTop: "1.25rem",
+                paddingTop: "1rem",
+                borderTop: "1px solid var(--border)",
+              }}
+            >
+              <div style={{ flex: 1 }}>
+                <h3
+                  style={{
+                    fontSize: "0.875rem",
+                    fontWeight: 600,
+                    color: "#111827",
+                  }}
+                >
+                  Allocation Mode
+                </h3>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "var(--muted-foreground)",
+                  }}
+                >
+                  A bandit shifts new visitors toward the variation converting
+                  best on a goal; the weights above apply again in fixed mode
+                </p>
+              </div>
+              <select
+                className="input"
+                aria-label="Allocation mode"
+                value={bandit.allocation}
+                onChange={(e) =>
+                  setBanditDraft({
+                    ...bandit,
+                    allocation: e.target.value as AllocationMode,
+                  })
+                }
+                style={{ width: "140px" }}
+              >
+                <option value="fixed">Fixed weights</option>
+                <option value="bandit">Bandit</option>
+              </select>
+              {bandit.allocation === "bandit" && (
+                <input
+                  type="text"
+                  className="input"
+                  aria-label="Conversion goal"
+                  placeholder="Goal, e.g. signup"
+                  value={bandit.banditGoal}
+                  onChange={(e) =>
+                    setBanditDraft({ ...bandit, banditGoal: e.target.value })
+                  }
+                  style={{ width: "140px" }}
+                />
+              )}
+              {banditDraft && (
+                <button
+                  onClick={saveBandit}
+                  className="btn btn-primary"
+                  style={{ fontSize: "0.8125rem" }}
+                  disabled={
+                    saving ||
+                    (bandit.allocation === "bandit" &&
+                      !bandit.banditGoal.trim())
+                  }
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              )}
+            </div>
+            {experiment.allocation === "bandit" && (
+              <AllocationChart
+                url={`${url}/allocation`}
+                variations={experiment.variations}
+                version={`${experiment.banditGoal}:${JSON.stringify(experiment.banditWeights)}`}
+                onError={onError}
+              />
+            )}
+
+            {/* Layer */}
+            {layers.length > 0 && (
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.75rem",
+                  marginTop: "1.25rem",
+                  paddingTop: "1rem",
+                  borderTop: "1px solid var(--border)",
+                }}
+              >
+                <div style={{ flex: 1 }}>
+                  <h3
+                    style={{
+                      fontSize: "0.875rem",
+                      fontWeight: 600,
+                      color: "#111827",
+                    }}
+                  >
+                    Layer
+                  </h3>
+                  <p
+                    style={{
+                      fontSize: "0.75rem",
+                      color: "var(--muted-foreground)",
+                    }}
+                  >
+                    Share of the layer&apos;s traffic this experiment owns
+                  </p>
+                </div>
+                <select
+                  className="input"
+                  aria-label="Layer"
+                  value={layer.layerId ?? ""}
+                  onChange={(e) =>
+                    setLayerDraft({ ...layer, layerId: e.target.value || null })
+                  }
+                  style={{ width: "160px" }}
+                >
+                  <option value="">No layer</option>
+                  {layers.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  step={1}
+                  className="input"
+                  aria-label="Layer share percentage"
+                  value={layer.layerShare}
+                  disabled={!layer.layerId}
+                  onChange={(e) =>
+                    setLayerDraft({ ...layer, layerShare: e.target.value })
+                  }
+                  style={{ width: "80px" }}
+                />
+                <span style={{ fontSize: "0.875rem" }}>%</span>
+                {layerDraft && (
+                  <button
+                    onClick={saveLayer}
+                    className="btn btn-primary"
+                    style={{ fontSize: "0.8125rem" }}
+                    disabled={saving}
+                  >
+                    {saving ? "Saving..." : "Save"}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Pages & Funnel */}
+            <div
+              style={{
+                marginTop: "1.25rem",
+                paddingTop: "1rem",
+                borderTop: "1px solid var(--border)",
+              }}
+            >
+              <FunnelEditor
+                pages={experiment.pages}
+                funnel={experiment.funnel}
+                saving={saving}
+                onSave={update}
+              />
+            </div>
+
+            {/* Page Changes */}
+            <div
+              style={{
+                marginTop: "1.25rem",
+                paddingTop: "1rem",
+                borderTop: "1px solid var(--border)",
+              }}
+            >
+              <DomChangesEditor
+                variations={experiment.variations}
+                changes={experiment.changes}
+                saving={saving}
+                onSave={update}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+
+interface ExposureCardProps {
+  projectId: string;
+  exposure: number;
+  eligibleVisitors: number;
+  enrolledVisitors: number;
+  onUpdate: (exposure: number) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Traffic exposure setting with eligible vs. enrolled visitor counts
+ */
+export default function ExposureCard({
+  projectId,
+  exposure,
+  eligibleVisitors,
+  enrolledVisitors,
+  onUpdate,
+  onError,
+}: ExposureCardProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function save() {
+    if (draft === null) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ exposure: Number(draft) }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update exposure");
+      }
+      const updated = await res.json();
+      onUpdate(updated.exposure);
+      setDraft(null);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const enrolledRate =
+    eligibleVisitors > 0
+      ? Math.round((enrolledVisitors / eligibleVisitors) * 100)
+      : 0;
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Traffic Exposure
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Share of eligible visitors enrolled in experiments. The rest see the
+            default experience and aren&apos;t tracked in results.
+          </p>
+        </div>
+        <div style={{ display: "flex", alignItems: "center", gap: "0.375rem" }}>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            className="input"
+            aria-label="Exposure percentage"
+            value={draft ?? String(exposure)}
+            onChange={(e) => setDraft(e.target.value)}
+            style={{ width: "80px" }}
+          />
+          <span style={{ fontSize: "0.875rem" }}>%</span>
+          {draft !== null && (
+            <button
+              onClick={save}
+              className="btn btn-primary"
+              style={{ fontSize: "0.8125rem" }}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          )}
+        </div>
+      </div>
+      <div
+        className="card-content"
+        style={{ display: "flex", gap: "2rem", fontSize: "0.875rem" }}
+      >
+        <div>
+          <div className="stat-label">Eligible</div>
+          <div className="stat-value">{eligibleVisitors.toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="stat-label">Enrolled</div>
+          <div className="stat-value">
+            {enrolledVisitors.toLocaleString()}{" "}
+            <span
+              style={{
+                fontSize: "0.75rem",
+                fontWeight: 400,
+                color: "var(--muted-foreground)",
+              }}
+            >
+              ({enrolledRate}%)
+            </span>
+          </div>
+        </div>
+        <div>
+          <div className="stat-label">Held out</div>
+          <div className="stat-value">
+            {(eligibleVisitors - enrolledVisitors).toLocaleString()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
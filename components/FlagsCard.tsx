@@ -0,0 +1,387 @@
+"use client";
+
+import { useState } from "react";
+import TargetingRulesEditor from "@/components/TargetingRulesEditor";
+import type {
+  FeatureFlag,
+  FlagType,
+  FlagValue,
+  TargetingRule,
+} from "@/lib/types";
+
+interface FlagsCardProps {
+  projectId: string;
+  flags: FeatureFlag[];
+  onChange: (flags: FeatureFlag[]) => void;
+  onError: (message: string) => void;
+}
+
+const TYPE_LABELS: Record<FlagType, string> = {
+  boolean: "Boolean",
+  string: "String",
+  json: "JSON",
+};
+
+interface FlagDraft {
+  rollout: string;
+  value: string;
+  defaultValue: string;
+  targeting: TargetingRule[];
+}
+
+// Values are edited as text; booleans as "true" / "false"
+function formatValue(type: FlagType, value: FlagValue): string {
+  return type === "string" ? String(value) : JSON.stringify(value);
+}
+
+function parseValue(type: FlagType, text: string): FlagValue {
+  return type === "string" ? text : JSON.parse(text);
+}
+
+/**
+ * Feature flags served by the embed script, each with an on/off switch,
+ * a rollout percentage and its own targeting rules
+ */
+export default function FlagsCard({
+  projectId,
+  flags,
+  onChange,
+  onError,
+}: FlagsCardProps) {
+  const [key, setKey] = useState("");
+  const [type, setType] = useState<FlagType>("boolean");
+  const [saving, setSaving] = useState(false);
+
+  async function createFlag(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/flags`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: key.trim(), type }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to create flag");
+      }
+      const flag: FeatureFlag = await res.json();
+      onChange([...flags, flag]);
+      setKey("");
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to create flag");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Feature Flags
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Read from window.__OPTIMELEON__.flags or POST /api/flags. Flags
+            ignore the project&apos;s exposure and targeting.
+          </p>
+        </div>
+        <form
+          onSubmit={createFlag}
+          style={{ display: "flex", gap: "0.375rem" }}
+        >
+          <input
+            type="text"
+            className="input"
+            placeholder="e.g., new-checkout"
+            aria-label="Flag key"
+            value={key}
+            onChange={(e) => setKey(e.target.value)}
+            style={{ width: "160px" }}
+          />
+          <select
+            className="input"
+            aria-label="Flag type"
+            value={type}
+            onChange={(e) => setType(e.target.value as FlagType)}
+            style={{ width: "100px" }}
+          >
+            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="btn btn-secondary"
+            style={{ fontSize: "0.8125rem" }}
+            disabled={saving || !key.trim()}
+          >
+            Add Flag
+          </button>
+        </form>
+      </div>
+
+      {flags.length > 0 && (
+        <div
+          className="card-content"
+          style={{ display: "flex", flexDirection: "column", gap: "1.25rem" }}
+        >
+          {flags.map((flag) => (
+            <FlagItem
+              key={flag.id}
+              projectId={projectId}
+              flag={flag}
+              onUpdate={(updated) =>
+                onChange(flags.map((f) => (f.id === updated.id ? updated : f)))
+              }
+              onDelete={() => onChange(flags.filter((f) => f.id !== flag.id))}
+              onError={onError}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FlagItem({
+  projectId,
+  flag,
+  onUpdate,
+  onDelete,
+  onError,
+}: {
+  projectId: string;
+  flag: FeatureFlag;
+  onUpdate: (flag: FeatureFlag) => void;
+  onDelete: () => void;
+  onError: (message: string) => void;
+}) {
+  const [draft, setDraft] = useState<FlagDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const url = `/api/projects/${projectId}/flags/${flag.id}`;
+  const current = draft ?? {
+    rollout: String(flag.rollout),
+    value: formatValue(flag.type, flag.value),
+    defaultValue: formatValue(flag.type, flag.defaultValue),
+    targeting: flag.targeting,
+  };
+
+  async function update(body: object) {
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update flag");
+      }
+      onUpdate(await res.json());
+      return true;
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function save() {
+    if (!draft) return;
+    let value: FlagValue;
+    let defaultValue: FlagValue;
+    try {
+      value = parseValue(flag.type, draft.value);
+      defaultValue = parseValue(flag.type, draft.defaultValue);
+    } catch {
+      onError("Flag values must be valid JSON");
+      return;
+    }
+    const saved = await update({
+      rollout: Number(draft.rollout),
+      value,
+      defaultValue,
+      targeting: draft.targeting,
+    });
+    if (saved) setDraft(null);
+  }
+
+  async function handleDelete() {
+    if (
+      !window.confirm(
+        `Delete flag "${flag.key}"? Pages reading it will get undefined.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      const res = await fetch(url, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete flag");
+      onDelete();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to delete");
+    }
+  }
+
+  function valueInput(field: "value" | "defaultValue", label: string) {
+    const text = current[field];
+    const onValueChange = (next: string) =>
+      setDraft({ ...current, [field]: next });
+    return (
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.375rem",
+          flex: 1,
+          fontSize: "0.8125rem",
+        }}
+      >
+        <span className="stat-label">{label}</span>
+        {flag.type === "boolean" ? (
+          <select
+            className="input"
+            value={text}
+            onChange={(e) => onValueChange(e.target.value)}
+          >
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        ) : (
+          <input
+            type="text"
+            className="input"
+            value={text}
+            placeholder={flag.type === "json" ? '{"limit": 3}' : ""}
+            onChange={(e) => onValueChange(e.target.value)}
+            style={{ fontFamily: flag.type === "json" ? "monospace" : "" }}
+          />
+        )}
+      </label>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "0.5rem",
+            fontSize: "0.875rem",
+          }}
+        >
+          <code style={{ fontWeight: 600, color: "#111827" }}>{flag.key}</code>
+          <span className="badge">{TYPE_LABELS[flag.type]}</span>
+          <span className={`badge ${flag.enabled ? "badge-success" : ""}`}>
+            {flag.enabled ? "On" : "Off"}
+          </span>
+        </div>
+        <div style={{ display: "flex", gap: "0.375rem" }}>
+          {draft && (
+            <>
+              <button
+                onClick={() => setDraft(null)}
+                className="btn btn-ghost"
+                style={{ fontSize: "0.8125rem" }}
+              >
+                Reset
+              </button>
+              <button
+                onClick={save}
+                className="btn btn-primary"
+                style={{ fontSize: "0.8125rem" }}
+                disabled={saving}
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => update({ enabled: !flag.enabled })}
+            className="btn btn-secondary"
+            style={{ fontSize: "0.8125rem" }}
+            disabled={saving}
+          >
+            {flag.enabled ? "Turn off" : "Turn on"}
+          </button>
+          <button
+            onClick={handleDelete}
+            className="btn btn-ghost"
+            style={{ color: "var(--destructive)", fontSize: "0.8125rem" }}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.75rem",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "0.375rem",
+            fontSize: "0.8125rem",
+          }}
+        >
+          <span className="stat-label">Rollout</span>
+          <input
+            type="number"
+            className="input"
+            min={0}
+            max={100}
+            value={current.rollout}
+            onChange={(e) => setDraft({ ...current, rollout: e.target.value })}
+            style={{ width: "72px" }}
+          />
+          %
+        </label>
+        {valueInput("value", "Value")}
+        {valueInput("defaultValue", "Otherwise")}
+      </div>
+
+      <TargetingRulesEditor
+        rules={current.targeting}
+        onChange={(targeting) => setDraft({ ...current, targeting })}
+        emptyText="No rules: the rollout applies to every visitor."
+      />
+    </div>
+  );
+}
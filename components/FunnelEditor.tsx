@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_FUNNEL_STEPS, MIN_FUNNEL_STEPS } from "@/lib/funnels";
+import type { FunnelStep } from "@/lib/types";
+
+interface FunnelEditorProps {
+  pages: string[];
+  funnel: FunnelStep[];
+  saving: boolean;
+  onSave: (changes: {
+    pages: string[];
+    funnel: FunnelStep[];
+  }) => Promise<boolean>;
+}
+
+interface Draft {
+  /** One page pattern per line */
+  pages: string;
+  funnel: FunnelStep[];
+}
+
+/**
+ * Pages an experiment runs on and the steps of its funnel
+ */
+export default function FunnelEditor({
+  pages,
+  funnel,
+  saving,
+  onSave,
+}: FunnelEditorProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const current = draft ?? { pages: pages.join("\n"), funnel };
+
+  function updateStep(index: number, field: keyof FunnelStep, value: string) {
+    setDraft({
+      ...current,
+      funnel: current.funnel.map((step, i) =>
+        i === index ? { ...step, [field]: value } : step,
+      ),
+    });
+  }
+
+  async function save() {
+    if (!draft) return;
+    const saved = await onSave({
+      pages: draft.pages
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean),
+      funnel: draft.funnel,
+    });
+    if (saved) setDraft(null);
+  }
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <div>
+          <h3
+            style={{ fontSize: "0.875rem", fontWeight: 600, color: "#111827" }}
+          >
+            Pages &amp; Funnel
+          </h3>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Paths the experiment runs on, one per line with * as a wildcard
+            (empty runs it everywhere), and the steps to report drop-off for
+          </p>
+        </div>
+        {draft && (
+          <div style={{ display: "flex", gap: "0.375rem" }}>
+            <button
+              onClick={() => setDraft(null)}
+              className="btn btn-ghost"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              className="btn btn-primary"
+              style={{ fontSize: "0.8125rem" }}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <textarea
+        className="input"
+        aria-label="Pages"
+        placeholder={"/cart\n/checkout/*"}
+        rows={2}
+        value={current.pages}
+        onChange={(e) => setDraft({ ...current, pages: e.target.value })}
+        style={{ fontFamily: "monospace", marginBottom: "0.5rem" }}
+      />
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+        {current.funnel.map((step, index) => (
+          <div key={index} style={{ display: "flex", gap: "0.5rem" }}>
+            <span
+              className="stat-label"
+              style={{ width: "1.5rem", alignSelf: "center" }}
+            >
+              {index + 1}.
+            </span>
+            <input
+              type="text"
+              className="input"
+              placeholder="Step, e.g. Shipping"
+              aria-label={`Step ${index + 1} name`}
+              value={step.name}
+              onChange={(e) => updateStep(index, "name", e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <input
+              type="text"
+              className="input"
+              placeholder="/checkout/shipping"
+              aria-label={`Step ${index + 1} path`}
+              value={step.path}
+              onChange={(e) => updateStep(index, "path", e.target.value)}
+              style={{ flex: 2, fontFamily: "monospace" }}
+            />
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() =>
+                setDraft({
+                  ...current,
+                  funnel: current.funnel.filter((_, i) => i !== index),
+                })
+              }
+              aria-label={`Remove step ${index + 1}`}
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={() =>
+          setDraft({
+            ...current,
+            funnel: [...current.funnel, { name: "", path: "" }],
+          })
+        }
+        disabled={current.funnel.length >= MAX_FUNNEL_STEPS}
+        style={{ marginTop: "0.5rem", fontSize: "0.8125rem" }}
+      >
+        Add Step
+      </button>
+      {current.funnel.length > 0 &&
+        current.funnel.length < MIN_FUNNEL_STEPS && (
+          <span
+            style={{
+              marginLeft: "0.5rem",
+              fontSize: "0.75rem",
+              color: "var(--muted-foreground)",
+            }}
+          >
+            A funnel needs at least {MIN_FUNNEL_STEPS} steps
+          </span>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { variationColorKey } from "@/lib/variation-colors";
+import type { FunnelReport as Report, VariationDefinition } from "@/lib/types";
+
+interface FunnelReportProps {
+  url: string;
+  variations: VariationDefinition[];
+  /** Changes whenever the funnel or the stats change, to reload the report */
+  version: string;
+  onError: (message: string) => void;
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : "–";
+}
+
+/**
+ * Visitors per variation reaching each funnel step, with the share of the
+ * exposed visitors and the drop-off from the step before
+ */
+export default function FunnelReport({
+  url,
+  variations,
+  version,
+  onError,
+}: FunnelReportProps) {
+  const [report, setReport] = useState<Report | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url)
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load funnel report");
+        const data = await res.json();
+        if (!cancelled) setReport(data);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          onError(err instanceof Error ? err.message : "Failed to load");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, version, onError]);
+
+  if (!report || report.steps.length === 0) return null;
+
+  return (
+    <div style={{ marginBottom: "1.25rem", overflowX: "auto" }}>
+      <table
+        style={{
+          width: "100%",
+          borderCollapse: "collapse",
+          fontSize: "0.8125rem",
+        }}
+      >
+        <thead>
+          <tr style={{ textAlign: "left" }}>
+            <th className="stat-label" style={{ padding: "0.25rem 0" }}>
+              Variation
+            </th>
+            <th className="stat-label" style={{ padding: "0.25rem 0" }}>
+              Exposed
+            </th>
+            {report.steps.map((step) => (
+              <th
+                key={step.name}
+                className="stat-label"
+                title={step.path}
+                style={{ padding: "0.25rem 0" }}
+              >
+                {step.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {variations.map((v, index) => {
+            const row = report.variations[v.key];
+            if (!row) return null;
+            return (
+              <tr key={v.key}>
+                <td
+                  className={`variation-${variationColorKey(index)}`}
+                  style={{ padding: "0.25rem 0", fontWeight: 500 }}
+                >
+                  {v.label}
+                </td>
+                <td style={{ padding: "0.25rem 0" }}>
+                  {row.entered.toLocaleString()}
+                </td>
+                {row.reached.map((count, step) => {
+                  const previous =
+                    step === 0 ? row.entered : row.reached[step - 1];
+                  return (
+                    <td key={step} style={{ padding: "0.25rem 0" }}>
+                      {count.toLocaleString()}{" "}
+                      <span style={{ color: "var(--muted-foreground)" }}>
+                        ({percent(count, row.entered)}
+                        {previous > count &&
+                          `, −${percent(previous - count, previous)}`}
+                        )
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p
+        style={{
+          marginTop: "0.375rem",
+          fontSize: "0.75rem",
+          color: "var(--muted-foreground)",
+        }}
+      >
+        Share of exposed visitors reaching each step, and the drop-off from the
+        step before.
+      </p>
+    </div>
+  );
+}
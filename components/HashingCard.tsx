@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { HASH_VERSION_LABELS, HASH_VERSIONS } from "@/lib/hash";
+import type { DistributionReport, HashFit, HashVersion } from "@/lib/types";
+
+interface HashingCardProps {
+  projectId: string;
+  hashVersion: HashVersion;
+  /** Whether an experiment is running, which locks the hash */
+  locked: boolean;
+  onUpdate: (hashVersion: HashVersion) => void;
+  onError: (message: string) => void;
+}
+
+// Fits less likely than this by chance are flagged as uneven
+const UNEVEN_P_VALUE = 0.01;
+
+/**
+ * Bucketing hash setting with a chi-square distribution check over the
+ * project's stored visitor IDs
+ */
+export default function HashingCard({
+  projectId,
+  hashVersion,
+  locked,
+  onUpdate,
+  onError,
+}: HashingCardProps) {
+  const [saving, setSaving] = useState(false);
+  const [report, setReport] = useState<DistributionReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function changeVersion(next: HashVersion) {
+    if (
+      !window.confirm(
+        `Switch to ${HASH_VERSION_LABELS[next]}? Every visitor will be bucketed again.`,
+      )
+    ) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ hashVersion: next }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update hash");
+      }
+      const updated = await res.json();
+      onUpdate(updated.hashVersion);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function checkDistribution() {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/distribution`);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to check distribution");
+      }
+      setReport(await res.json());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to check");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const rows: Array<{ label: string; fits: HashFit[] }> = report
+    ? [
+        { label: "Exposure slots", fits: report.slots },
+        ...report.experiments.map((e) => ({ label: e.key, fits: e.fits })),
+      ]
+    : [];
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Bucketing Hash
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Hash that maps visitors to variations, exposure and layer slots.
+            {locked &&
+              " It can't be switched while an experiment is running, since that would move its visitors."}
+          </p>
+        </div>
+        <div style={{ display: "flex", gap: "0.375rem" }}>
+          <select
+            className="input"
+            aria-label="Hash version"
+            value={hashVersion}
+            onChange={(e) =>
+              changeVersion(Number(e.target.value) as HashVersion)
+            }
+            disabled={saving || locked}
+            style={{ width: "160px" }}
+          >
+            {HASH_VERSIONS.map((version) => (
+              <option key={version} value={version}>
+                {HASH_VERSION_LABELS[version]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={checkDistribution}
+            className="btn btn-secondary"
+            style={{ fontSize: "0.8125rem" }}
+            disabled={loading}
+          >
+            {loading ? "Checking..." : "Check distribution"}
+          </button>
+        </div>
+      </div>
+      {report && (
+        <div className="card-content" style={{ fontSize: "0.8125rem" }}>
+          <p
+            style={{
+              color: "var(--muted-foreground)",
+              marginBottom: "0.75rem",
+            }}
+          >
+            Chi-square fit of {report.sampleSize.toLocaleString()} stored
+            visitor IDs against the expected split.{" "}
+            {report.reliable
+              ? `p below ${UNEVEN_P_VALUE} means uneven buckets.`
+              : "Too few visitors for a reliable result."}
+          </p>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left" }}>
+                <th className="stat-label" style={{ padding: "0.25rem 0" }}>
+                  Buckets
+                </th>
+                {HASH_VERSIONS.map((version) => (
+                  <th
+                    key={version}
+                    className="stat-label"
+                    style={{ padding: "0.25rem 0" }}
+                  >
+                    {HASH_VERSION_LABELS[version]}
+                    {version === report.hashVersion && " (current)"}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label}>
+                  <td style={{ padding: "0.25rem 0" }}>{row.label}</td>
+                  {row.fits.map((fit) => (
+                    <td
+                      key={fit.hashVersion}
+                      style={{
+                        padding: "0.25rem 0",
+                        color:
+                          report.reliable && fit.pValue < UNEVEN_P_VALUE
+                            ? "var(--destructive)"
+                            : undefined,
+                      }}
+                    >
+                      {`χ² ${fit.chiSquare.toFixed(1)} (df ${fit.degreesOfFreedom}), p ${fit.pValue.toFixed(3)}`}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
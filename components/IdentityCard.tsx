@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import {
+  IDENTITY_STRATEGIES,
+  IDENTITY_STRATEGY_LABELS,
+  MAX_COOKIE_DAYS,
+  MIN_COOKIE_DAYS,
+} from "@/lib/identity";
+import type { IdentityStrategy } from "@/lib/types";
+
+interface IdentityCardProps {
+  projectId: string;
+  strategy: IdentityStrategy;
+  cookieDomain: string | null;
+  cookieDays: number;
+  /** Called after saving, to reload the project */
+  onChange: () => void;
+  onError: (message: string) => void;
+}
+
+interface IdentityDraft {
+  strategy: IdentityStrategy;
+  cookieDomain: string;
+  cookieDays: string;
+}
+
+/**
+ * Where the script keeps the visitor ID, and the cookie's domain and
+ * lifetime when it's a cookie
+ */
+export default function IdentityCard({
+  projectId,
+  strategy,
+  cookieDomain,
+  cookieDays,
+  onChange,
+  onError,
+}: IdentityCardProps) {
+  const [draft, setDraft] = useState<IdentityDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const current = draft ?? {
+    strategy,
+    cookieDomain: cookieDomain ?? "",
+    cookieDays: String(cookieDays),
+  };
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          identityStrategy: draft.strategy,
+          cookieDomain: draft.cookieDomain.trim() || null,
+          cookieDays: Number(draft.cookieDays),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update visitor identity");
+      }
+      setDraft(null);
+      onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Visitor Identity
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Where the script keeps the visitor ID. A cookie on a parent domain
+            gives a visitor the same ID and variations on all its subdomains.
+          </p>
+        </div>
+        {draft && (
+          <div style={{ display: "flex", gap: "0.375rem" }}>
+            <button
+              onClick={() => setDraft(null)}
+              className="btn btn-ghost"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              className="btn btn-primary"
+              style={{ fontSize: "0.8125rem" }}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="card-content">
+        <div
+          style={{
+            display: "flex",
+            alignItems: "flex-end",
+            gap: "1rem",
+            flexWrap: "wrap",
+          }}
+        >
+          <label
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "0.25rem",
+              fontSize: "0.8125rem",
+            }}
+          >
+            <span className="stat-label">Stored in</span>
+            <select
+              className="input"
+              value={current.strategy}
+              onChange={(e) =>
+                setDraft({
+                  ...current,
+                  strategy: e.target.value as IdentityStrategy,
+                })
+              }
+              style={{ width: "240px" }}
+            >
+              {IDENTITY_STRATEGIES.map((value) => (
+                <option key={value} value={value}>
+                  {IDENTITY_STRATEGY_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {current.strategy === "cookie" && (
+            <>
+              <label
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "0.25rem",
+                  fontSize: "0.8125rem",
+                  flex: 1,
+                }}
+              >
+                <span className="stat-label">Cookie domain</span>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="Each host, or a parent e.g. shop.com"
+                  value={current.cookieDomain}
+                  onChange={(e) =>
+                    setDraft({ ...current, cookieDomain: e.target.value })
+                  }
+                  style={{ fontFamily: "monospace" }}
+                />
+              </label>
+              <label
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "0.25rem",
+                  fontSize: "0.8125rem",
+                }}
+              >
+                <span className="stat-label">Lifetime (days)</span>
+                <input
+                  type="number"
+                  min={MIN_COOKIE_DAYS}
+                  max={MAX_COOKIE_DAYS}
+                  className="input"
+                  value={current.cookieDays}
+                  onChange={(e) =>
+                    setDraft({ ...current, cookieDays: e.target.value })
+                  }
+                  style={{ width: "120px" }}
+                />
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import { variationColor } from "@/lib/variation-colors";
+import type { LayerWithOccupancy } from "@/lib/types";
+
+interface LayersCardProps {
+  projectId: string;
+  layers: LayerWithOccupancy[];
+  onChange: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Layers of mutually exclusive experiments, with how each layer's
+ * traffic is split between its experiments and what remains unallocated
+ */
+export default function LayersCard({
+  projectId,
+  layers,
+  onChange,
+  onError,
+}: LayersCardProps) {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  async function createLayer(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/layers`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to create layer");
+      }
+      setName("");
+      onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to create layer");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteLayer(layer: LayerWithOccupancy) {
+    if (
+      !window.confirm(
+        `Delete layer "${layer.name}"? Its experiments will run on all enrolled traffic.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/projects/${projectId}/layers/${layer.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error("Failed to delete layer");
+      onChange();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to delete");
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Layers
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Experiments in the same layer never share a visitor. Assign an
+            experiment to a layer from its card.
+          </p>
+        </div>
+        <form
+          onSubmit={createLayer}
+          style={{ display: "flex", gap: "0.375rem" }}
+        >
+          <input
+            type="text"
+            className="input"
+            placeholder="e.g., Checkout"
+            aria-label="Layer name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            style={{ width: "160px" }}
+          />
+          <button
+            type="submit"
+            className="btn btn-secondary"
+            style={{ fontSize: "0.8125rem" }}
+            disabled={saving || !name.trim()}
+          >
+            Add Layer
+          </button>
+        </form>
+      </div>
+
+      {layers.length > 0 && (
+        <div
+          className="card-content"
+          style={{ display: "flex", flexDirection: "column", gap: "1.25rem" }}
+        >
+          {layers.map((layer) => (
+            <div key={layer.id}>
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  marginBottom: "0.5rem",
+                }}
+              >
+                <div style={{ fontSize: "0.875rem" }}>
+                  <span style={{ fontWeight: 600, color: "#111827" }}>
+                    {layer.name}
+                  </span>{" "}
+                  <span style={{ color: "var(--muted-foreground)" }}>
+                    • {layer.allocated}% allocated, {layer.unallocated}%
+                    unallocated
+                  </span>
+                </div>
+                <button
+                  onClick={() => deleteLayer(layer)}
+                  className="btn btn-ghost"
+                  style={{ color: "var(--destructive)", fontSize: "0.8125rem" }}
+                >
+                  Delete
+                </button>
+              </div>
+
+              {/* Occupancy: one segment per experiment at its slot range */}
+              <div
+                style={{
+                  position: "relative",
+                  height: "10px",
+                  background: "var(--muted)",
+                  borderRadius: "5px",
+                  overflow: "hidden",
+                }}
+              >
+                {layer.experiments.map((e, index) => (
+                  <div
+                    key={e.id}
+                    title={`${e.name}: ${e.layerShare}%`}
+                    style={{
+                      position: "absolute",
+                      top: 0,
+                      bottom: 0,
+                      left: `${e.layerStart}%`,
+                      width: `${e.layerShare}%`,
+                      background: variationColor(index),
+                      opacity: e.status === "running" ? 1 : 0.4,
+                      borderRight: "1px solid white",
+                    }}
+                  />
+                ))}
+              </div>
+
+              {layer.experiments.length > 0 ? (
+                <div
+                  style={{
+                    display: "flex",
+                    flexWrap: "wrap",
+                    gap: "0.75rem",
+                    marginTop: "0.5rem",
+                    fontSize: "0.75rem",
+                    color: "var(--muted-foreground)",
+                  }}
+                >
+                  {layer.experiments.map((e, index) => (
+                    <span
+                      key={e.id}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.25rem",
+                      }}
+                    >
+                      <span
+                        style={{
+                          width: "8px",
+                          height: "8px",
+                          borderRadius: "2px",
+                          background: variationColor(index),
+                        }}
+                      />
+                      {e.name} ({e.layerShare}%)
+                      {e.status !== "running" && ` • ${e.status}`}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p
+                  style={{
+                    marginTop: "0.5rem",
+                    fontSize: "0.75rem",
+                    color: "var(--muted-foreground)",
+                  }}
+                >
+                  No experiments in this layer yet
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import VariationsEditor from "@/components/VariationsEditor";
+import { DEFAULT_VARIATIONS } from "@/lib/variation";
+import type { ExperimentWithStats } from "@/lib/types";
+
+interface NewExperimentFormProps {
+  projectId: string;
+  onCreated: (experiment: ExperimentWithStats) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline form for adding an experiment to a project
+ * New experiments start as drafts so they can be reviewed before running
+ */
+export default function NewExperimentForm({
+  projectId,
+  onCreated,
+  onCancel,
+}: NewExperimentFormProps) {
+  const [name, setName] = useState("");
+  const [key, setKey] = useState("");
+  const [variations, setVariations] = useState(DEFAULT_VARIATIONS);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/experiments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, key, variations }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to create experiment");
+      }
+
+      const experiment = await res.json();
+      onCreated({
+        ...experiment,
+        stats: {
+          totalVisitors: 0,
+          variations: Object.fromEntries(
+            experiment.variations.map((v: { key: string }) => [v.key, 0]),
+          ),
+        },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <form onSubmit={handleSubmit}>
+        <div className="card-header">
+          <h2 style={{ fontSize: "1rem", fontWeight: 600, color: "#111827" }}>
+            New Experiment
+          </h2>
+        </div>
+        <div
+          className="card-content"
+          style={{ display: "flex", flexDirection: "column", gap: "1.25rem" }}
+        >
+          <div style={{ display: "flex", gap: "0.75rem" }}>
+            <div style={{ flex: 2 }}>
+              <label htmlFor="experiment-name" className="label">
+                Name
+              </label>
+              <input
+                id="experiment-name"
+                type="text"
+                className="input"
+                placeholder="e.g., Pricing Table"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="experiment-key" className="label">
+                Key
+              </label>
+              <input
+                id="experiment-key"
+                type="text"
+                className="input"
+                placeholder="e.g., pricing"
+                value={key}
+                onChange={(e) => setKey(e.target.value.toLowerCase())}
+                required
+              />
+            </div>
+          </div>
+
+          <VariationsEditor variations={variations} onChange={setVariations} />
+
+          {error && (
+            <div
+              style={{
+                padding: "0.625rem 0.875rem",
+                background: "var(--destructive-light)",
+                border: "1px solid rgba(239, 68, 68, 0.2)",
+                borderRadius: "0.375rem",
+                color: "var(--destructive)",
+                fontSize: "0.8125rem",
+              }}
+            >
+              {error}
+            </div>
+          )}
+        </div>
+        <div
+          style={{
+            padding: "1rem 1.25rem",
+            borderTop: "1px solid var(--border)",
+            display: "flex",
+            justifyContent: "flex-end",
+            gap: "0.5rem",
+          }}
+        >
+          <button
+            type="button"
+            onClick={onCancel}
+            className="btn btn-secondary"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={loading || !name || !key}
+          >
+            {loading ? "Creating..." : "Create Experiment"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
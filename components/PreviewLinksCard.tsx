@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { variationColorKey } from "@/lib/variation-colors";
+
+interface PreviewExperiment {
+  id: string;
+  key: string;
+  name: string;
+  links: Array<{ variation: string; label: string; url: string }>;
+}
+
+interface PreviewLinksCardProps {
+  projectId: string;
+  onError: (message: string) => void;
+}
+
+/**
+ * Signed links that open the site with a variation forced, for reviewers
+ * who shouldn't need to know the optim_force syntax
+ */
+export default function PreviewLinksCard({
+  projectId,
+  onError,
+}: PreviewLinksCardProps) {
+  const [experiments, setExperiments] = useState<PreviewExperiment[] | null>(
+    null,
+  );
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  async function createLinks() {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/preview`);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to create preview links");
+      }
+      const data = await res.json();
+      setExperiments(data.experiments);
+      setExpiresAt(data.expiresAt);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to create links");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function copyLink(url: string) {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(url);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Preview Links
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Share a link to review a variation on the live site. Preview visits
+            aren&apos;t counted in results.
+          </p>
+        </div>
+        <button
+          onClick={createLinks}
+          className="btn btn-secondary"
+          style={{ fontSize: "0.8125rem" }}
+          disabled={loading}
+        >
+          {loading ? "Creating..." : experiments ? "Refresh" : "Create Links"}
+        </button>
+      </div>
+
+      {experiments && (
+        <div
+          className="card-content"
+          style={{ display: "flex", flexDirection: "column", gap: "1rem" }}
+        >
+          {experiments.length === 0 && (
+            <p
+              style={{ fontSize: "0.875rem", color: "var(--muted-foreground)" }}
+            >
+              Start an experiment to preview its variations.
+            </p>
+          )}
+          {experiments.map((experiment) => (
+            <div key={experiment.id}>
+              <h3
+                style={{
+                  fontSize: "0.875rem",
+                  fontWeight: 600,
+                  color: "#111827",
+                  marginBottom: "0.375rem",
+                }}
+              >
+                {experiment.name}
+              </h3>
+              <div
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "0.25rem",
+                }}
+              >
+                {experiment.links.map((link, index) => (
+                  <div
+                    key={link.variation}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.75rem",
+                      fontSize: "0.875rem",
+                    }}
+                  >
+                    <span
+                      className={`variation-${variationColorKey(index)}`}
+                      style={{ flex: 1, fontWeight: 500 }}
+                    >
+                      {link.label}
+                    </span>
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="btn btn-ghost"
+                      style={{ fontSize: "0.8125rem" }}
+                    >
+                      Open
+                    </a>
+                    <button
+                      onClick={() => copyLink(link.url)}
+                      className="btn btn-ghost"
+                      style={{ fontSize: "0.8125rem" }}
+                    >
+                      {copied === link.url ? "Copied!" : "Copy"}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {expiresAt && experiments.length > 0 && (
+            <p
+              style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}
+            >
+              Links expire {new Date(expiresAt).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
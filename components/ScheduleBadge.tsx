@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  formatCountdown,
+  getScheduleState,
+  msUntilNextChange,
+  SCHEDULE_STATE_LABELS,
+  type ScheduleFields,
+} from "@/lib/schedule";
+import type { ScheduleState } from "@/lib/types";
+
+interface ScheduleBadgeProps {
+  project: ScheduleFields;
+  enrolledVisitors: number;
+}
+
+const BADGE_CLASSES: Record<ScheduleState, string> = {
+  inactive: "",
+  scheduled: "badge-primary",
+  live: "badge-success",
+  ended: "badge-warning",
+  capped: "badge-warning",
+};
+
+/**
+ * Schedule state with a live countdown to the start or end, ticking every
+ * second while one is pending
+ */
+export default function ScheduleBadge({
+  project,
+  enrolledVisitors,
+}: ScheduleBadgeProps) {
+  const [now, setNow] = useState(() => new Date());
+  const untilChange = msUntilNextChange(project, now);
+  const ticking = untilChange !== null;
+
+  useEffect(() => {
+    if (!ticking) return;
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [ticking]);
+
+  const state = getScheduleState(project, enrolledVisitors, now);
+  const countdown =
+    untilChange === null
+      ? null
+      : state === "scheduled"
+        ? `starts in ${formatCountdown(untilChange)}`
+        : state === "live"
+          ? `ends in ${formatCountdown(untilChange)}`
+          : null;
+
+  return (
+    <span
+      style={{ display: "inline-flex", alignItems: "center", gap: "0.375rem" }}
+    >
+      <span className={`badge ${BADGE_CLASSES[state]}`}>
+        {SCHEDULE_STATE_LABELS[state]}
+      </span>
+      {countdown && (
+        <span
+          style={{
+            fontSize: "0.75rem",
+            color: "var(--muted-foreground)",
+            fontVariantNumeric: "tabular-nums",
+          }}
+        >
+          {countdown}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import type { Project } from "@/lib/types";
+
+type Schedule = Pick<Project, "startsAt" | "endsAt" | "maxVisitors">;
+
+interface ScheduleCardProps {
+  projectId: string;
+  schedule: Schedule;
+  enrolledVisitors: number;
+  onUpdate: (schedule: Schedule) => void;
+  onError: (message: string) => void;
+}
+
+interface ScheduleDraft {
+  startsAt: string;
+  endsAt: string;
+  maxVisitors: string;
+}
+
+// datetime-local inputs take local time without a zone, e.g. 2025-03-01T09:30
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Start time, end time and visitor cap; outside the time window the project
+ * serves an empty script and ignores tracking, and past the cap it only
+ * follows the visitors it already enrolled
+ */
+export default function ScheduleCard({
+  projectId,
+  schedule,
+  enrolledVisitors,
+  onUpdate,
+  onError,
+}: ScheduleCardProps) {
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const current = draft ?? {
+    startsAt: toLocalInput(schedule.startsAt),
+    endsAt: toLocalInput(schedule.endsAt),
+    maxVisitors:
+      schedule.maxVisitors === null ? "" : String(schedule.maxVisitors),
+  };
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startsAt: fromLocalInput(draft.startsAt),
+          endsAt: fromLocalInput(draft.endsAt),
+          maxVisitors: draft.maxVisitors ? Number(draft.maxVisitors) : null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update schedule");
+      }
+      const updated = await res.json();
+      onUpdate({
+        startsAt: updated.startsAt,
+        endsAt: updated.endsAt,
+        maxVisitors: updated.maxVisitors,
+      });
+      setDraft(null);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function field(
+    name: keyof ScheduleDraft,
+    label: string,
+    input: React.InputHTMLAttributes<HTMLInputElement>,
+  ) {
+    return (
+      <label
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.25rem",
+          fontSize: "0.8125rem",
+        }}
+      >
+        <span className="stat-label">{label}</span>
+        <input
+          className="input"
+          value={current[name]}
+          onChange={(e) => setDraft({ ...current, [name]: e.target.value })}
+          {...input}
+        />
+      </label>
+    );
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Schedule
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            The project only runs between its start and end, and stops enrolling
+            new visitors at the visitor cap. Leave a field empty for no limit.
+          </p>
+        </div>
+        {draft && (
+          <div style={{ display: "flex", gap: "0.375rem" }}>
+            <button
+              onClick={() => setDraft(null)}
+              className="btn btn-ghost"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              className="btn btn-primary"
+              style={{ fontSize: "0.8125rem" }}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+      <div
+        className="card-content"
+        style={{
+          display: "flex",
+          alignItems: "flex-end",
+          gap: "1rem",
+          flexWrap: "wrap",
+        }}
+      >
+        {field("startsAt", "Starts", { type: "datetime-local" })}
+        {field("endsAt", "Ends", { type: "datetime-local" })}
+        {field("maxVisitors", "Visitor cap", {
+          type: "number",
+          min: 1,
+          step: 1,
+          placeholder: "No cap",
+          style: { width: "120px" },
+        })}
+        {schedule.maxVisitors !== null && (
+          <div style={{ fontSize: "0.8125rem", paddingBottom: "0.5rem" }}>
+            {enrolledVisitors.toLocaleString()} of{" "}
+            {schedule.maxVisitors.toLocaleString()} enrolled
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import TargetingRulesEditor from "@/components/TargetingRulesEditor";
+import type { TargetingRule } from "@/lib/types";
+
+interface TargetingCardProps {
+  projectId: string;
+  targeting: TargetingRule[];
+  ineligibleVisitors: number;
+  onUpdate: (targeting: TargetingRule[]) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Audience targeting rules for a project; visitors must match all of them
+ */
+export default function TargetingCard({
+  projectId,
+  targeting,
+  ineligibleVisitors,
+  onUpdate,
+  onError,
+}: TargetingCardProps) {
+  const [draft, setDraft] = useState<TargetingRule[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const rules = draft ?? targeting;
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targeting: draft }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update targeting");
+      }
+      const updated = await res.json();
+      onUpdate(updated.targeting);
+      setDraft(null);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: "1.5rem" }}>
+      <div
+        className="card-header"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "1rem",
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: "1rem",
+              fontWeight: 600,
+              color: "#111827",
+              marginBottom: "0.125rem",
+            }}
+          >
+            Targeting
+          </h2>
+          <p style={{ fontSize: "0.75rem", color: "var(--muted-foreground)" }}>
+            Only visitors matching all rules take part. Everyone else is counted
+            as ineligible.
+          </p>
+        </div>
+        {draft && (
+          <div style={{ display: "flex", gap: "0.375rem" }}>
+            <button
+              onClick={() => setDraft(null)}
+              className="btn btn-ghost"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              className="btn btn-primary"
+              style={{ fontSize: "0.8125rem" }}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="card-content">
+        <TargetingRulesEditor
+          rules={rules}
+          onChange={setDraft}
+          emptyText="No rules: every visitor is eligible."
+          footer={
+            <span style={{ fontSize: "0.8125rem" }}>
+              <span className="stat-label">Ineligible</span>{" "}
+              <strong>{ineligibleVisitors.toLocaleString()}</strong>
+            </span>
+          }
+        />
+      </div>
+    </div>
+  );
+}
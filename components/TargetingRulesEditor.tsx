@@ -0,0 +1,196 @@
+"use client";
+
+import type {
+  TargetingAttribute,
+  TargetingOperator,
+  TargetingRule,
+} from "@/lib/types";
+
+interface TargetingRulesEditorProps {
+  rules: TargetingRule[];
+  onChange: (rules: TargetingRule[]) => void;
+  /** Shown instead of the list when there are no rules */
+  emptyText: string;
+  /** Rendered next to the "Add rule" button */
+  footer?: React.ReactNode;
+}
+
+const ATTRIBUTE_LABELS: Record<TargetingAttribute, string> = {
+  path: "URL path",
+  query: "Query param",
+  utm: "UTM",
+  referrer: "Referrer",
+  device: "Device",
+  language: "Language",
+  visitor: "Visitor",
+  custom: "Custom attribute",
+};
+
+const OPERATOR_LABELS: Record<TargetingOperator, string> = {
+  equals: "is",
+  not_equals: "is not",
+  prefix: "starts with",
+  contains: "contains",
+  regex: "matches regex",
+};
+
+// Attributes with a fixed set of values, shown as a select
+const ATTRIBUTE_VALUES: Partial<Record<TargetingAttribute, string[]>> = {
+  device: ["mobile", "tablet", "desktop"],
+  visitor: ["new", "returning"],
+};
+
+const NAME_PLACEHOLDERS: Partial<Record<TargetingAttribute, string>> = {
+  query: "e.g., ref",
+  utm: "e.g., source",
+  custom: "e.g., plan",
+};
+
+/**
+ * Editable list of targeting rules, used for project targeting and
+ * feature flags
+ */
+export default function TargetingRulesEditor({
+  rules,
+  onChange,
+  emptyText,
+  footer,
+}: TargetingRulesEditorProps) {
+  function updateRule(index: number, patch: Partial<TargetingRule>) {
+    onChange(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  function changeAttribute(index: number, attribute: TargetingAttribute) {
+    const values = ATTRIBUTE_VALUES[attribute];
+    updateRule(index, {
+      attribute,
+      name: NAME_PLACEHOLDERS[attribute] ? "" : undefined,
+      operator: values ? "equals" : rules[index].operator,
+      value: values ? values[0] : "",
+    });
+  }
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+      {rules.length === 0 && (
+        <p style={{ fontSize: "0.875rem", color: "var(--muted-foreground)" }}>
+          {emptyText}
+        </p>
+      )}
+      {rules.map((rule, index) => {
+        const values = ATTRIBUTE_VALUES[rule.attribute];
+        const namePlaceholder = NAME_PLACEHOLDERS[rule.attribute];
+        return (
+          <div
+            key={index}
+            style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+          >
+            <select
+              className="input"
+              aria-label="Attribute"
+              value={rule.attribute}
+              onChange={(e) =>
+                changeAttribute(index, e.target.value as TargetingAttribute)
+              }
+              style={{ width: "150px" }}
+            >
+              {Object.entries(ATTRIBUTE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {namePlaceholder && (
+              <input
+                type="text"
+                className="input"
+                aria-label="Name"
+                placeholder={namePlaceholder}
+                value={rule.name ?? ""}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+                style={{ width: "110px" }}
+              />
+            )}
+            <select
+              className="input"
+              aria-label="Operator"
+              value={rule.operator}
+              onChange={(e) =>
+                updateRule(index, {
+                  operator: e.target.value as TargetingOperator,
+                })
+              }
+              style={{ width: "130px" }}
+            >
+              {Object.entries(OPERATOR_LABELS)
+                .filter(
+                  ([value]) =>
+                    !values || value === "equals" || value === "not_equals",
+                )
+                .map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+            </select>
+            {values ? (
+              <select
+                className="input"
+                aria-label="Value"
+                value={rule.value}
+                onChange={(e) => updateRule(index, { value: e.target.value })}
+                style={{ flex: 1 }}
+              >
+                {values.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                className="input"
+                aria-label="Value"
+                placeholder={rule.attribute === "path" ? "/pricing" : ""}
+                value={rule.value}
+                onChange={(e) => updateRule(index, { value: e.target.value })}
+                style={{ flex: 1 }}
+              />
+            )}
+            <button
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              className="btn btn-ghost"
+              aria-label="Remove rule"
+              style={{ fontSize: "0.8125rem" }}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginTop: "0.25rem",
+        }}
+      >
+        <button
+          onClick={() =>
+            onChange([
+              ...rules,
+              { attribute: "path", operator: "prefix", value: "/" },
+            ])
+          }
+          className="btn btn-ghost"
+          style={{ fontSize: "0.8125rem", marginLeft: "-0.75rem" }}
+        >
+          + Add rule
+        </button>
+        {footer}
+      </div>
+    </div>
+  );
+}
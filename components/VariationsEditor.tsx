@@ -0,0 +1,138 @@
+"use client";
+
+import { MAX_VARIATIONS, MIN_VARIATIONS } from "@/lib/variation";
+import type { VariationDefinition } from "@/lib/types";
+
+interface VariationsEditorProps {
+  variations: VariationDefinition[];
+  onChange: (variations: VariationDefinition[]) => void;
+}
+
+/**
+ * Editable list of variation keys and labels, used when creating
+ * projects and experiments. A split-URL test adds a page URL to each.
+ */
+export default function VariationsEditor({
+  variations,
+  onChange,
+}: VariationsEditorProps) {
+  const splitUrl = variations.some((v) => v.url !== undefined);
+
+  function updateVariation(
+    index: number,
+    field: "key" | "label" | "url",
+    value: string,
+  ) {
+    onChange(
+      variations.map((v, i) => (i === index ? { ...v, [field]: value } : v)),
+    );
+  }
+
+  function addVariation() {
+    onChange([
+      ...variations,
+      { key: "", label: "", weight: 1, ...(splitUrl && { url: "" }) },
+    ]);
+  }
+
+  function toggleSplitUrl(enabled: boolean) {
+    onChange(
+      variations.map((v) => ({ ...v, url: enabled ? "" : undefined })),
+    );
+  }
+
+  function removeVariation(index: number) {
+    onChange(variations.filter((_, i) => i !== index));
+  }
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+        }}
+      >
+        <label className="label">Variations</label>
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "0.375rem",
+            fontSize: "0.8125rem",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={splitUrl}
+            onChange={(e) => toggleSplitUrl(e.target.checked)}
+          />
+          Split-URL test
+        </label>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.5rem",
+        }}
+      >
+        {variations.map((v, index) => (
+          <div key={index} style={{ display: "flex", gap: "0.5rem" }}>
+            <input
+              type="text"
+              className="input"
+              placeholder="key, e.g. control"
+              aria-label={`Variation ${index + 1} key`}
+              value={v.key}
+              onChange={(e) => updateVariation(index, "key", e.target.value)}
+              style={{ flex: 1 }}
+              required
+            />
+            <input
+              type="text"
+              className="input"
+              placeholder="Label (optional)"
+              aria-label={`Variation ${index + 1} label`}
+              value={v.label}
+              onChange={(e) => updateVariation(index, "label", e.target.value)}
+              style={{ flex: 2 }}
+            />
+            {splitUrl && (
+              <input
+                type="text"
+                className="input"
+                placeholder="/pricing or https://..."
+                aria-label={`Variation ${index + 1} URL`}
+                value={v.url ?? ""}
+                onChange={(e) => updateVariation(index, "url", e.target.value)}
+                style={{ flex: 2 }}
+                required
+              />
+            )}
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() => removeVariation(index)}
+              disabled={variations.length <= MIN_VARIATIONS}
+              aria-label={`Remove variation ${index + 1}`}
+              style={{ fontSize: "0.8125rem" }}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={addVariation}
+        disabled={variations.length >= MAX_VARIATIONS}
+        style={{ marginTop: "0.5rem", fontSize: "0.8125rem" }}
+      >
+        Add Variation
+      </button>
+    </div>
+  );
+}
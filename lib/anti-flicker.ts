@@ -0,0 +1,90 @@
+/**
+ * Anti-Flicker
+ * Settings of the snippet that hides the page until the embed script has
+ * applied the variations, and the outcomes it reports
+ */
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import { isValidSelector, MAX_SELECTOR_LENGTH } from "./dom-changes";
+import type { Project } from "./types";
+
+export const DEFAULT_ANTI_FLICKER_TIMEOUT = 3000;
+export const MIN_ANTI_FLICKER_TIMEOUT = 100;
+export const MAX_ANTI_FLICKER_TIMEOUT = 10000;
+
+// How the hidden page was shown again: by the script, or by the timeout
+export type AntiFlickerOutcome = "shown" | "timeout";
+
+export const ANTI_FLICKER_OUTCOMES: AntiFlickerOutcome[] = ["shown", "timeout"];
+
+export function isAntiFlickerOutcome(
+  value: unknown,
+): value is AntiFlickerOutcome {
+  return ANTI_FLICKER_OUTCOMES.includes(value as AntiFlickerOutcome);
+}
+
+type AntiFlickerFields = Pick<
+  Project,
+  "antiFlickerTimeout" | "antiFlickerSelector"
+>;
+
+/**
+ * Validate anti-flicker settings from user input
+ * `antiFlickerTimeout` is a whole number of milliseconds;
+ * `antiFlickerSelector` is a CSS selector list, with null or an empty
+ * string hiding the whole page.
+ */
+export function parseAntiFlicker(input: {
+  antiFlickerTimeout?: unknown;
+  antiFlickerSelector?: unknown;
+}): Partial<AntiFlickerFields> | { error: string } {
+  const result: Partial<AntiFlickerFields> = {};
+
+  const timeout = input.antiFlickerTimeout;
+  if (timeout !== undefined) {
+    if (
+      typeof timeout !== "number" ||
+      !Number.isInteger(timeout) ||
+      timeout < MIN_ANTI_FLICKER_TIMEOUT ||
+      timeout > MAX_ANTI_FLICKER_TIMEOUT
+    ) {
+      return {
+        error: `antiFlickerTimeout must be a whole number of milliseconds from ${MIN_ANTI_FLICKER_TIMEOUT} to ${MAX_ANTI_FLICKER_TIMEOUT}`,
+      };
+    }
+    result.antiFlickerTimeout = timeout;
+  }
+
+  const selector = input.antiFlickerSelector;
+  if (selector !== undefined) {
+    if (selector !== null && typeof selector !== "string") {
+      return { error: "antiFlickerSelector must be a string or null" };
+    }
+    const trimmed = selector?.trim() ?? "";
+    if (trimmed && !isValidSelector(trimmed)) {
+      return {
+        error: `antiFlickerSelector must be at most ${MAX_SELECTOR_LENGTH} characters without "{", "}" or "<"`,
+      };
+    }
+    result.antiFlickerSelector = trimmed || null;
+  }
+
+  return result;
+}
+
+/**
+ * Record how the anti-flicker snippet showed a page view
+ */
+export function recordAntiFlickerEvent(
+  db: Database.Database,
+  projectId: string,
+  outcome: AntiFlickerOutcome,
+): void {
+  db.prepare(
+    `
+    INSERT INTO anti_flicker_events (id, project_id, outcome, timestamp)
+    VALUES (?, ?, ?, ?)
+  `,
+  ).run(`afl_${nanoid(12)}`, projectId, outcome, new Date().toISOString());
+}
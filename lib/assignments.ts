@@ -0,0 +1,76 @@
+/**
+ * Sticky Assignments
+ * Each visitor's first variation per experiment, honored after weight or
+ * variation changes so returning visitors don't switch buckets
+ */
+
+import type Database from "better-sqlite3";
+import type { Variation } from "./types";
+
+/**
+ * Remember a visitor's variation unless one is already remembered
+ */
+export function rememberAssignment(
+  db: Database.Database,
+  projectId: string,
+  experimentId: string,
+  visitorId: string,
+  variation: Variation,
+): void {
+  db.prepare(
+    `
+    INSERT OR IGNORE INTO assignments (project_id, experiment_id, visitor_id, variation, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `,
+  ).run(
+    projectId,
+    experimentId,
+    visitorId,
+    variation,
+    new Date().toISOString(),
+  );
+}
+
+/**
+ * A visitor's remembered variations in a project, by experiment ID
+ */
+export function getStickyAssignments(
+  db: Database.Database,
+  projectId: string,
+  visitorId: string,
+): Record<string, Variation> {
+  const rows = db
+    .prepare(
+      "SELECT experiment_id, variation FROM assignments WHERE project_id = ? AND visitor_id = ?",
+    )
+    .all(projectId, visitorId) as Array<{
+    experiment_id: string;
+    variation: string;
+  }>;
+
+  const sticky: Record<string, Variation> = {};
+  rows.forEach((row) => {
+    sticky[row.experiment_id] = row.variation;
+  });
+  return sticky;
+}
+
+/**
+ * Forget every remembered variation in a project and start a new epoch,
+ * so browsers drop the variations they stored too
+ */
+export function rebucketProject(
+  db: Database.Database,
+  projectId: string,
+): void {
+  db.transaction(() => {
+    db.prepare("DELETE FROM assignments WHERE project_id = ?").run(projectId);
+    db.prepare(
+      `
+      UPDATE projects
+      SET bucket_epoch = bucket_epoch + 1, updated_at = ?
+      WHERE id = ?
+    `,
+    ).run(new Date().toISOString(), projectId);
+  })();
+}
@@ -0,0 +1,290 @@
+/**
+ * Bandit Allocation
+ * Thompson sampling over conversion rates: each variation's weight is the
+ * chance it has the best rate given the outcomes recorded so far
+ *
+ * Weights are recomputed at most once per interval, in the background
+ * after the script, config or a decision is served, and published in place
+ * of the fixed weights. Visitors with a remembered variation keep it; only
+ * new visitors follow the shift.
+ */
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import { getExperiment } from "./experiments";
+import { sampleBeta } from "./stats";
+import type { AllocationSnapshot, Experiment } from "./types";
+
+export const BANDIT_INTERVAL_MS = 60 * 60 * 1000;
+
+// Integer weights keep the script's `hash % totalWeight` bucketing
+const BANDIT_WEIGHT_TOTAL = 1000;
+
+// Every variation keeps at least 1% so a slow start can still recover
+const MIN_BANDIT_WEIGHT = 10;
+
+const THOMPSON_DRAWS = 10000;
+
+// Snapshots returned for the dashboard chart
+const MAX_HISTORY = 500;
+
+// Bandits with a recomputation scheduled in this process
+const scheduled = new Set<string>();
+
+/**
+ * The experiment with its bandit weights in place of the fixed ones
+ * Fixed experiments, and bandits not computed yet, are returned as is
+ */
+export function withAllocatedWeights<
+  T extends Pick<Experiment, "variations" | "allocation" | "banditWeights">,
+>(experiment: T): T {
+  const { banditWeights } = experiment;
+  if (experiment.allocation !== "bandit" || !banditWeights) return experiment;
+  return {
+    ...experiment,
+    variations: experiment.variations.map((v) => ({
+      ...v,
+      weight: Object.hasOwn(banditWeights, v.key)
+        ? banditWeights[v.key]
+        : MIN_BANDIT_WEIGHT,
+    })),
+  };
+}
+
+/**
+ * Thompson sampling weights from visitors and conversions per variation
+ * Each draw samples a Beta(1 + conversions, 1 + non-conversions) rate per
+ * variation and credits the highest; weights are the share of draws won
+ */
+export function computeBanditWeights(
+  keys: string[],
+  visitors: Record<string, number>,
+  conversions: Record<string, number>,
+): Record<string, number> {
+  const wins = keys.map(() => 0);
+  for (let draw = 0; draw < THOMPSON_DRAWS; draw++) {
+    let best = 0;
+    let bestRate = -1;
+    keys.forEach((key, i) => {
+      const converted = conversions[key] ?? 0;
+      const rate = sampleBeta(
+        1 + converted,
+        1 + Math.max((visitors[key] ?? 0) - converted, 0),
+      );
+      if (rate > bestRate) {
+        best = i;
+        bestRate = rate;
+      }
+    });
+    wins[best]++;
+  }
+
+  const spread = BANDIT_WEIGHT_TOTAL - MIN_BANDIT_WEIGHT * keys.length;
+  return Object.fromEntries(
+    keys.map((key, i) => [
+      key,
+      MIN_BANDIT_WEIGHT + Math.round((wins[i] / THOMPSON_DRAWS) * spread),
+    ]),
+  );
+}
+
+/**
+ * Distinct visitors per variation, and how many of them reached the goal
+ * after they were first exposed
+ * A visitor exposed to several variations (e.g. across a re-bucket) counts
+ * once, for the first.
+ */
+export function getBanditOutcomes(
+  db: Database.Database,
+  experiment: Pick<Experiment, "id" | "projectId">,
+  goal: string,
+): { visitors: Record<string, number>; conversions: Record<string, number> } {
+  const rows = db
+    .prepare(
+      `
+      SELECT
+        exposed.variation,
+        COUNT(*) AS visitors,
+        SUM(EXISTS (
+          SELECT 1 FROM conversion_events c
+          WHERE c.project_id = ? AND c.visitor_id = exposed.visitor_id
+            AND c.goal = ? AND c.timestamp >= exposed.first_seen
+        )) AS conversions
+      FROM (
+        SELECT visitor_id, variation, timestamp AS first_seen
+        FROM (
+          SELECT visitor_id, variation, timestamp,
+            ROW_NUMBER() OVER (
+              PARTITION BY visitor_id ORDER BY timestamp, rowid
+            ) AS n
+          FROM visitor_events
+          WHERE experiment_id = ?
+        )
+        WHERE n = 1
+      ) AS exposed
+      GROUP BY exposed.variation
+    `,
+    )
+    .all(experiment.projectId, goal, experiment.id) as Array<{
+    variation: string;
+    visitors: number;
+    conversions: number;
+  }>;
+
+  const visitors: Record<string, number> = {};
+  const conversions: Record<string, number> = {};
+  rows.forEach((row) => {
+    visitors[row.variation] = row.visitors;
+    conversions[row.variation] = row.conversions;
+  });
+  return { visitors, conversions };
+}
+
+/**
+ * Recompute a bandit's weights from its outcomes, store them on the
+ * experiment and append them to its history
+ */
+export function recomputeAllocation(
+  db: Database.Database,
+  experiment: Experiment,
+): AllocationSnapshot {
+  const keys = experiment.variations.map((v) => v.key);
+  const outcomes = getBanditOutcomes(
+    db,
+    experiment,
+    experiment.banditGoal ?? "",
+  );
+  const snapshot: AllocationSnapshot = {
+    computedAt: new Date().toISOString(),
+    weights: computeBanditWeights(
+      keys,
+      outcomes.visitors,
+      outcomes.conversions,
+    ),
+    visitors: pickKeys(outcomes.visitors, keys),
+    conversions: pickKeys(outcomes.conversions, keys),
+  };
+
+  db.transaction(() => {
+    db.prepare("UPDATE experiments SET bandit_weights = ? WHERE id = ?").run(
+      JSON.stringify(snapshot.weights),
+      experiment.id,
+    );
+    db.prepare(
+      `
+      INSERT INTO allocation_history (id, experiment_id, weights, visitors, conversions, computed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `,
+    ).run(
+      `alc_${nanoid(12)}`,
+      experiment.id,
+      JSON.stringify(snapshot.weights),
+      JSON.stringify(snapshot.visitors),
+      JSON.stringify(snapshot.conversions),
+      snapshot.computedAt,
+    );
+  })();
+
+  return snapshot;
+}
+
+/**
+ * Whether a running bandit's weights are older than the interval
+ */
+function isAllocationDue(
+  db: Database.Database,
+  experiment: Experiment,
+): boolean {
+  if (
+    experiment.allocation !== "bandit" ||
+    experiment.status !== "running" ||
+    !experiment.banditGoal
+  ) {
+    return false;
+  }
+  const row = db
+    .prepare(
+      "SELECT MAX(computed_at) AS computed_at FROM allocation_history WHERE experiment_id = ?",
+    )
+    .get(experiment.id) as { computed_at: string | null };
+  const cutoff = new Date(Date.now() - BANDIT_INTERVAL_MS).toISOString();
+  return !row.computed_at || row.computed_at <= cutoff;
+}
+
+/**
+ * Schedule a recomputation of every running bandit whose weights are older
+ * than the interval, and return the experiments as they are
+ * The recomputation runs after the current request rather than on its
+ * path, once per experiment however many requests see it due, and is
+ * skipped if another process did it meanwhile. Later requests get the new
+ * weights.
+ */
+export function refreshBanditAllocations(
+  db: Database.Database,
+  experiments: Experiment[],
+): Experiment[] {
+  for (const experiment of experiments) {
+    if (scheduled.has(experiment.id) || !isAllocationDue(db, experiment)) {
+      continue;
+    }
+    scheduled.add(experiment.id);
+    setImmediate(() => {
+      try {
+        const current = getExperiment(db, experiment.projectId, experiment.id);
+        if (current && isAllocationDue(db, current)) {
+          recomputeAllocation(db, current);
+        }
+      } catch (error) {
+        console.error("Error recomputing bandit allocation:", error);
+      } finally {
+        scheduled.delete(experiment.id);
+      }
+    });
+  }
+  return experiments;
+}
+
+/**
+ * A bandit's recomputations, oldest first
+ */
+export function getAllocationHistory(
+  db: Database.Database,
+  experimentId: string,
+): AllocationSnapshot[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT weights, visitors, conversions, computed_at FROM (
+        SELECT weights, visitors, conversions, computed_at
+        FROM allocation_history
+        WHERE experiment_id = ?
+        ORDER BY computed_at DESC
+        LIMIT ?
+      )
+      ORDER BY computed_at ASC
+    `,
+    )
+    .all(experimentId, MAX_HISTORY) as Array<{
+    weights: string;
+    visitors: string;
+    conversions: string;
+    computed_at: string;
+  }>;
+
+  return rows.map((row) => ({
+    computedAt: row.computed_at,
+    weights: JSON.parse(row.weights),
+    visitors: JSON.parse(row.visitors),
+    conversions: JSON.parse(row.conversions),
+  }));
+}
+
+// Counts for the experiment's current variations, zero when unseen
+function pickKeys(
+  counts: Record<string, number>,
+  keys: string[],
+): Record<string, number> {
+  return Object.fromEntries(
+    keys.map((key) => [key, Object.hasOwn(counts, key) ? counts[key] : 0]),
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Consent
+ * Whether the embed script waits for the visitor's consent before storing
+ * their ID and sending beacons, and where that consent comes from
+ */
+
+import type { ConsentMode, Project } from "./types";
+
+export const CONSENT_MODES: ConsentMode[] = ["off", "wait", "assign"];
+
+export const DEFAULT_CONSENT_MODE: ConsentMode = "off";
+
+export const CONSENT_MODE_LABELS: Record<ConsentMode, string> = {
+  off: "Not required",
+  wait: "Wait for consent",
+  assign: "Apply now, track after consent",
+};
+
+// TCF v2 purposes a CMP must report consent for: storing information on
+// the device (1) and measuring content performance (8)
+export const TCF_PURPOSES = [1, 8];
+
+export function isConsentMode(value: unknown): value is ConsentMode {
+  return CONSENT_MODES.includes(value as ConsentMode);
+}
+
+type ConsentFields = Pick<Project, "consentMode" | "consentTcf">;
+
+/**
+ * Validate consent settings from user input
+ */
+export function parseConsent(input: {
+  consentMode?: unknown;
+  consentTcf?: unknown;
+}): Partial<ConsentFields> | { error: string } {
+  const result: Partial<ConsentFields> = {};
+
+  if (input.consentMode !== undefined) {
+    if (!isConsentMode(input.consentMode)) {
+      return {
+        error: `consentMode must be one of ${CONSENT_MODES.join(", ")}`,
+      };
+    }
+    result.consentMode = input.consentMode;
+  }
+
+  if (input.consentTcf !== undefined) {
+    if (typeof input.consentTcf !== "boolean") {
+      return { error: "consentTcf must be a boolean" };
+    }
+    result.consentTcf = input.consentTcf;
+  }
+
+  return result;
+}
@@ -5,6 +5,7 @@
 
 import Database from "better-sqlite3";
 import path from "path";
+import { DEFAULT_VARIATIONS } from "./variation";
 
 // Database file path - use environment variable or default
 const DB_PATH =
@@ -41,20 +42,97 @@ function initializeTables(database: Database.Database): void {
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
       domain TEXT NOT NULL,
+      allowed_domains TEXT, -- JSON array of extra allowed domains
       description TEXT,
+      variations TEXT, -- legacy, superseded by experiments.variations
+      exposure INTEGER NOT NULL DEFAULT 100,
+      targeting TEXT, -- JSON array of targeting rules
+      bucket_epoch INTEGER NOT NULL DEFAULT 0,
+      hash_version INTEGER NOT NULL DEFAULT 1, -- new projects set 2
+      starts_at TEXT,
+      ends_at TEXT,
+      max_visitors INTEGER,
+      anti_flicker_timeout INTEGER NOT NULL DEFAULT 3000, -- milliseconds
+      anti_flicker_selector TEXT, -- null hides the whole page
+      consent_mode TEXT NOT NULL DEFAULT 'off', -- 'off' | 'wait' | 'assign'
+      consent_tcf INTEGER NOT NULL DEFAULT 0,
+      identity_strategy TEXT NOT NULL DEFAULT 'localStorage', -- or 'cookie'
+      cookie_domain TEXT, -- null keeps the ID cookie on the page's host
+      cookie_days INTEGER NOT NULL DEFAULT 365,
       is_active INTEGER DEFAULT 1,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now'))
     )
   `);
 
+  // Experiments table - a project runs one or more experiments
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS experiments (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      name TEXT NOT NULL,
+      variations TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'draft',
+      layer_id TEXT,
+      layer_start INTEGER NOT NULL DEFAULT 0,
+      layer_share INTEGER NOT NULL DEFAULT 100,
+      allocation TEXT NOT NULL DEFAULT 'fixed',
+      bandit_goal TEXT,
+      bandit_weights TEXT, -- JSON map of variation key to weight
+      winner TEXT,
+      conclusion TEXT,
+      shipped_at TEXT,
+      final_stats TEXT, -- JSON ExperimentStats frozen when shipped
+      pages TEXT, -- JSON array of page patterns
+      funnel TEXT, -- JSON array of { name, path } steps
+      changes TEXT, -- JSON map of variation key to DOM changes
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE (project_id, key),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Layers group experiments that must not share visitors
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS layers (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Feature flags served by the embed script next to experiments
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS feature_flags (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      type TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 0,
+      rollout INTEGER NOT NULL DEFAULT 100,
+      value TEXT NOT NULL, -- JSON
+      default_value TEXT NOT NULL, -- JSON
+      targeting TEXT, -- JSON array of targeting rules
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE (project_id, key),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
   // Visitor events table for tracking
   database.exec(`
     CREATE TABLE IF NOT EXISTS visitor_events (
       id TEXT PRIMARY KEY,
       project_id TEXT NOT NULL,
+      experiment_id TEXT,
       visitor_id TEXT NOT NULL,
-      variation TEXT NOT NULL CHECK(variation IN ('A', 'B', 'C', 'D')),
+      variation TEXT NOT NULL,
       timestamp TEXT DEFAULT (datetime('now')),
       user_agent TEXT,
       referrer TEXT,
@@ -62,16 +140,319 @@ function initializeTables(database: Database.Database): void {
     )
   `);
 
+  // Visitors who loaded the script but weren't enrolled in experiments
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS traffic_events (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      visitor_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      timestamp TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Goals reached by visitors, reported by the SDK
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS conversion_events (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      visitor_id TEXT NOT NULL,
+      goal TEXT NOT NULL,
+      value REAL,
+      timestamp TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Bandit weights over time, for the allocation chart
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS allocation_history (
+      id TEXT PRIMARY KEY,
+      experiment_id TEXT NOT NULL,
+      weights TEXT NOT NULL,
+      visitors TEXT NOT NULL,
+      conversions TEXT NOT NULL,
+      computed_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (experiment_id) REFERENCES experiments(id) ON DELETE CASCADE
+    )
+  `);
+
+  // First variation each visitor was assigned, kept across config changes
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS assignments (
+      project_id TEXT NOT NULL,
+      experiment_id TEXT NOT NULL,
+      visitor_id TEXT NOT NULL,
+      variation TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (experiment_id, visitor_id),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Funnel steps each visitor reached, once per step
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS funnel_steps (
+      project_id TEXT NOT NULL,
+      experiment_id TEXT NOT NULL,
+      visitor_id TEXT NOT NULL,
+      step INTEGER NOT NULL,
+      reached_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (experiment_id, visitor_id, step),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // How the anti-flicker snippet showed each page view
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS anti_flicker_events (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      timestamp TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Hits rejected because they came from outside the project's domains
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS rejected_hits (
+      project_id TEXT NOT NULL,
+      origin TEXT NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0,
+      last_seen_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (project_id, origin),
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  migrateTables(database);
+
   // Create indexes for faster queries
+  // Serves per-project queries, enrolled visitor counts and lookups
   database.exec(`
-    CREATE INDEX IF NOT EXISTS idx_visitor_events_project_id 
-    ON visitor_events(project_id)
+    CREATE INDEX IF NOT EXISTS idx_visitor_events_visitor
+    ON visitor_events(project_id, visitor_id)
   `);
 
   database.exec(`
     CREATE INDEX IF NOT EXISTS idx_visitor_events_variation 
     ON visitor_events(project_id, variation)
   `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_visitor_events_experiment
+    ON visitor_events(experiment_id, variation)
+  `);
+
+  // Serves per-goal reports and the bandit's per-visitor conversion lookup
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_conversion_events_visitor
+    ON conversion_events(project_id, goal, visitor_id, timestamp)
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_experiments_project_id
+    ON experiments(project_id)
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_layers_project_id
+    ON layers(project_id)
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_allocation_history_experiment
+    ON allocation_history(experiment_id, computed_at)
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_assignments_visitor
+    ON assignments(project_id, visitor_id)
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_traffic_events_project
+    ON traffic_events(project_id, status)
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_anti_flicker_events_project
+    ON anti_flicker_events(project_id, outcome)
+  `);
+}
+
+/**
+ * Bring databases created by older versions up to the current schema
+ */
+function migrateTables(database: Database.Database): void {
+  addColumnIfMissing(database, "projects", "variations", "TEXT");
+  addColumnIfMissing(
+    database,
+    "projects",
+    "exposure",
+    "INTEGER NOT NULL DEFAULT 100",
+  );
+  addColumnIfMissing(database, "projects", "targeting", "TEXT");
+  addColumnIfMissing(
+    database,
+    "projects",
+    "bucket_epoch",
+    "INTEGER NOT NULL DEFAULT 0",
+  );
+  // Existing projects keep djb2 so their visitors aren't reshuffled
+  addColumnIfMissing(
+    database,
+    "projects",
+    "hash_version",
+    "INTEGER NOT NULL DEFAULT 1",
+  );
+  addColumnIfMissing(database, "projects", "starts_at", "TEXT");
+  addColumnIfMissing(database, "projects", "ends_at", "TEXT");
+  addColumnIfMissing(database, "projects", "max_visitors", "INTEGER");
+  addColumnIfMissing(
+    database,
+    "projects",
+    "anti_flicker_timeout",
+    "INTEGER NOT NULL DEFAULT 3000",
+  );
+  addColumnIfMissing(database, "projects", "anti_flicker_selector", "TEXT");
+  addColumnIfMissing(database, "projects", "allowed_domains", "TEXT");
+  addColumnIfMissing(
+    database,
+    "projects",
+    "consent_mode",
+    "TEXT NOT NULL DEFAULT 'off'",
+  );
+  addColumnIfMissing(
+    database,
+    "projects",
+    "consent_tcf",
+    "INTEGER NOT NULL DEFAULT 0",
+  );
+  addColumnIfMissing(
+    database,
+    "projects",
+    "identity_strategy",
+    "TEXT NOT NULL DEFAULT 'localStorage'",
+  );
+  addColumnIfMissing(database, "projects", "cookie_domain", "TEXT");
+  addColumnIfMissing(
+    database,
+    "projects",
+    "cookie_days",
+    "INTEGER NOT NULL DEFAULT 365",
+  );
+
+  // Variations used to be hard-wired to A-D with a CHECK constraint.
+  // SQLite can't drop a constraint, so rebuild the table without it.
+  const eventsTable = database
+    .prepare(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'visitor_events'",
+    )
+    .get() as { sql: string } | undefined;
+
+  if (eventsTable?.sql.includes("CHECK(variation IN")) {
+    database.transaction(() => {
+      database.exec(`
+        CREATE TABLE visitor_events_new (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          visitor_id TEXT NOT NULL,
+          variation TEXT NOT NULL,
+          timestamp TEXT DEFAULT (datetime('now')),
+          user_agent TEXT,
+          referrer TEXT,
+          FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        )
+      `);
+      database.exec(`
+        INSERT INTO visitor_events_new
+        SELECT id, project_id, visitor_id, variation, timestamp, user_agent, referrer
+        FROM visitor_events
+      `);
+      database.exec("DROP TABLE visitor_events");
+      database.exec("ALTER TABLE visitor_events_new RENAME TO visitor_events");
+    })();
+  }
+
+  // Projects used to be a single implicit experiment. Give each existing
+  // project an experiment that reuses the project ID: assignment hashes
+  // `visitorId:experimentId`, so existing visitors keep their variation.
+  if (addColumnIfMissing(database, "visitor_events", "experiment_id", "TEXT")) {
+    database.transaction(() => {
+      database
+        .prepare(
+          `
+        INSERT INTO experiments (id, project_id, key, name, variations, status, created_at, updated_at)
+        SELECT id, id, 'main', 'Main', COALESCE(variations, ?), 'running', created_at, updated_at
+        FROM projects
+      `,
+        )
+        .run(JSON.stringify(DEFAULT_VARIATIONS));
+      database.exec(
+        "UPDATE visitor_events SET experiment_id = project_id WHERE experiment_id IS NULL",
+      );
+    })();
+  }
+
+  addColumnIfMissing(database, "experiments", "layer_id", "TEXT");
+  addColumnIfMissing(
+    database,
+    "experiments",
+    "layer_start",
+    "INTEGER NOT NULL DEFAULT 0",
+  );
+  addColumnIfMissing(
+    database,
+    "experiments",
+    "layer_share",
+    "INTEGER NOT NULL DEFAULT 100",
+  );
+  addColumnIfMissing(
+    database,
+    "experiments",
+    "allocation",
+    "TEXT NOT NULL DEFAULT 'fixed'",
+  );
+  addColumnIfMissing(database, "experiments", "bandit_goal", "TEXT");
+  addColumnIfMissing(database, "experiments", "bandit_weights", "TEXT");
+  addColumnIfMissing(database, "experiments", "winner", "TEXT");
+  addColumnIfMissing(database, "experiments", "conclusion", "TEXT");
+  addColumnIfMissing(database, "experiments", "shipped_at", "TEXT");
+  addColumnIfMissing(database, "experiments", "final_stats", "TEXT");
+  addColumnIfMissing(database, "experiments", "pages", "TEXT");
+  addColumnIfMissing(database, "experiments", "funnel", "TEXT");
+  addColumnIfMissing(database, "experiments", "changes", "TEXT");
+
+  // Conversions were indexed by (project_id, goal) only, which left the
+  // bandit's per-visitor lookup scanning a goal's conversions; the wider
+  // idx_conversion_events_visitor replaces it
+  database.exec("DROP INDEX IF EXISTS idx_conversion_events_project");
+
+  // Likewise idx_visitor_events_visitor replaces the project_id-only index
+  database.exec("DROP INDEX IF EXISTS idx_visitor_events_project_id");
+}
+
+/**
+ * Add a column to an existing table unless it's already there
+ * Returns true if the column was added
+ */
+function addColumnIfMissing(
+  database: Database.Database,
+  table: string,
+  column: string,
+  definition: string,
+): boolean {
+  const columns = database
+    .prepare(`PRAGMA table_info(${table})`)
+    .all() as Array<{ name: string }>;
+
+  if (columns.some((c) => c.name === column)) return false;
+
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
 }
 
 /**
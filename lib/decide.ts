@@ -0,0 +1,212 @@
+/**
+ * Server-Side Decisions
+ * Assignment for server rendering and backend tests, with the same
+ * targeting, exposure, layer and bucketing rules as the embed script, and
+ * feature flag evaluation matching its getFlags
+ */
+
+import { detectDevice, matchesTargeting } from "./targeting";
+import type { TargetingContext } from "./targeting";
+import type {
+  AssignableExperiment,
+  ClientConfig,
+  ClientFlag,
+  FlagValue,
+  HashVersion,
+  Project,
+  Variation,
+} from "./types";
+import { assignExperiments, isInRollout, isOnTestPage } from "./variation";
+
+/**
+ * Outcome for one visitor
+ * Rendered into `window.__OPTIMELEON_BOOTSTRAP__`, it makes the embed
+ * script reuse the decision instead of assigning again
+ */
+export interface Decision {
+  projectId: string;
+  visitorId: string;
+  eligible: boolean;
+  enrolled: boolean;
+  /** Variation of the primary experiment, if the visitor is in it */
+  variation: Variation | null;
+  /** Variation per experiment ID */
+  experiments: Record<string, Variation>;
+  /** Variation per experiment key, for rendering code */
+  byKey: Record<string, Variation>;
+  /** Feature flag values by flag key */
+  flags: Record<string, FlagValue>;
+  /** Whether the decision was recorded, so the script doesn't track again */
+  tracked: boolean;
+}
+
+/**
+ * Build a targeting context from decision request fields
+ * `url` may be absolute or a path with a query string; missing fields
+ * evaluate like an empty value in the browser
+ */
+export function parseDecisionContext(
+  context: unknown,
+  attributes: unknown,
+): TargetingContext | { error: string } {
+  if (context !== undefined && !isPlainObject(context)) {
+    return { error: "Context must be an object" };
+  }
+  if (attributes !== undefined && !isPlainObject(attributes)) {
+    return { error: "Attributes must be an object" };
+  }
+
+  const input = (context ?? {}) as Record<string, unknown>;
+  for (const field of ["url", "referrer", "userAgent", "language"]) {
+    if (input[field] !== undefined && typeof input[field] !== "string") {
+      return { error: `Context ${field} must be a string` };
+    }
+  }
+
+  let url: URL;
+  try {
+    url = new URL((input.url as string | undefined) ?? "/", "http://localhost");
+  } catch {
+    return { error: "Context url is invalid" };
+  }
+
+  // First value wins, like the embed script
+  const query: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    if (!Object.hasOwn(query, key)) query[key] = value;
+  });
+
+  return {
+    path: url.pathname,
+    query,
+    referrer: (input.referrer as string | undefined) ?? "",
+    device: detectDevice((input.userAgent as string | undefined) ?? ""),
+    language: (input.language as string | undefined) ?? "",
+    returning: input.returning === true,
+    attributes: (attributes ?? {}) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Decide a visitor's variations across a project's running experiments
+ * Ineligible visitors fail the targeting; held-out visitors fall outside
+ * the exposure. Neither gets any assignment, except the winners of shipped
+ * experiments, which every visitor gets. Split-URL tests are skipped
+ * unless `context.path` is one of their pages. `sticky` holds the
+ * visitor's remembered variations by experiment ID.
+ */
+export function decide(
+  project: Pick<Project, "id" | "exposure" | "targeting" | "hashVersion">,
+  experiments: AssignableExperiment[],
+  visitorId: string,
+  context: TargetingContext,
+  sticky: Record<string, Variation> = {},
+): Omit<Decision, "tracked" | "flags"> {
+  const eligible = matchesTargeting(project.targeting, context);
+  const onPage = experiments.filter((e) => isOnTestPage(e, context.path));
+  const { enrolled, assignments } = eligible
+    ? assignExperiments(visitorId, project, onPage, sticky)
+    : { enrolled: false, assignments: {} };
+  onPage.forEach((e) => {
+    if (e.status === "shipped" && e.winner) assignments[e.id] = e.winner;
+  });
+
+  const primary = experiments.find(
+    (e) => e.status === "running" || e.status === "shipped",
+  );
+  const byKey: Record<string, Variation> = {};
+  experiments.forEach((e) => {
+    if (Object.hasOwn(assignments, e.id)) byKey[e.key] = assignments[e.id];
+  });
+
+  return {
+    projectId: project.id,
+    visitorId,
+    eligible,
+    enrolled,
+    variation:
+      primary && Object.hasOwn(assignments, primary.id)
+        ? assignments[primary.id]
+        : null,
+    experiments: assignments,
+    byKey,
+  };
+}
+
+/**
+ * A feature flag's value for one visitor
+ * Enabled flags serve `value` inside the rollout to visitors matching the
+ * flag's own targeting, and `defaultValue` otherwise. The project's
+ * targeting and exposure only apply to experiments.
+ */
+export function evaluateFlag(
+  flag: ClientFlag,
+  visitorId: string,
+  context: TargetingContext,
+  hashVersion: HashVersion,
+): FlagValue {
+  const on =
+    flag.enabled &&
+    isInRollout(visitorId, flag.id, flag.rollout, hashVersion) &&
+    matchesTargeting(flag.targeting, context);
+  return on ? flag.value : flag.defaultValue;
+}
+
+/**
+ * Every flag's value for one visitor, by flag key
+ */
+export function evaluateFlags(
+  flags: ClientFlag[],
+  visitorId: string,
+  context: TargetingContext,
+  hashVersion: HashVersion,
+): Record<string, FlagValue> {
+  return Object.fromEntries(
+    flags.map((flag) => [
+      flag.key,
+      evaluateFlag(flag, visitorId, context, hashVersion),
+    ]),
+  );
+}
+
+/**
+ * Decide from a client config instead of database rows, flags included
+ * Used by the SDK, which only has the config served by /api/config
+ */
+export function decideFromConfig(
+  config: ClientConfig,
+  visitorId: string,
+  context: TargetingContext,
+  sticky: Record<string, Variation> = {},
+): Omit<Decision, "tracked"> {
+  const decision = decide(
+    {
+      id: config.projectId,
+      exposure: config.exposure,
+      targeting: config.targeting,
+      hashVersion: config.hashVersion,
+    },
+    config.experiments.map((e) => ({
+      id: e.id,
+      key: e.key,
+      status: e.winner ? "shipped" : "running",
+      winner: e.winner,
+      pages: e.pages ?? [],
+      variations: e.variations,
+      layerId: e.layer?.id ?? null,
+      layerStart: e.layer?.start ?? 0,
+      layerShare: e.layer?.share ?? 100,
+    })),
+    visitorId,
+    context,
+    sticky,
+  );
+  return {
+    ...decision,
+    flags: evaluateFlags(config.flags, visitorId, context, config.hashVersion),
+  };
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,136 @@
+/**
+ * Hash Distribution Report
+ * How evenly each hash version spreads a project's stored visitor IDs
+ * over variation buckets and exposure slots, as chi-square fits
+ */
+
+import type Database from "better-sqlite3";
+import { HASH_VERSIONS, hashWith } from "./hash";
+import { chiSquarePValue, chiSquareStatistic } from "./stats";
+import type {
+  DistributionReport,
+  Experiment,
+  HashFit,
+  HashVersion,
+  Project,
+} from "./types";
+import { pickWeighted } from "./variation";
+
+// Most recent visitors checked, to keep the report quick on big projects
+export const MAX_REPORT_VISITORS = 100000;
+
+// Chi-square is unreliable when a bucket expects fewer visitors than this
+export const MIN_EXPECTED_COUNT = 5;
+
+const SLOTS = 100;
+
+/**
+ * Bucket the project's stored visitor IDs with every hash version
+ * Buckets are recomputed from the hash alone, without sticky variations,
+ * exposure or layers, so the report measures the hash itself
+ */
+export function getDistributionReport(
+  db: Database.Database,
+  project: Pick<Project, "id" | "hashVersion">,
+  experiments: Experiment[],
+): DistributionReport {
+  const visitorIds = getStoredVisitorIds(db, project.id);
+  const n = visitorIds.length;
+
+  const slots = HASH_VERSIONS.map((hashVersion) => {
+    const observed = new Array<number>(SLOTS).fill(0);
+    visitorIds.forEach((visitorId) => {
+      observed[
+        hashWith(hashVersion, `${visitorId}:${project.id}:exposure`) % SLOTS
+      ]++;
+    });
+    return fit(hashVersion, observed, new Array<number>(SLOTS).fill(n / SLOTS));
+  });
+
+  let reliable = n / SLOTS >= MIN_EXPECTED_COUNT;
+
+  const experimentReports = experiments.map((experiment) => {
+    const totalWeight = experiment.variations.reduce(
+      (sum, v) => sum + v.weight,
+      0,
+    );
+    const expectedCounts = experiment.variations.map(
+      (v) => (n * v.weight) / totalWeight,
+    );
+    if (expectedCounts.some((count) => count < MIN_EXPECTED_COUNT)) {
+      reliable = false;
+    }
+
+    const fits = HASH_VERSIONS.map((hashVersion) => {
+      const counts: Record<string, number> = {};
+      experiment.variations.forEach((v) => {
+        counts[v.key] = 0;
+      });
+      visitorIds.forEach((visitorId) => {
+        const hash = hashWith(hashVersion, `${visitorId}:${experiment.id}`);
+        counts[pickWeighted(hash, experiment.variations).key]++;
+      });
+      const observed = experiment.variations.map((v) => counts[v.key]);
+      return { ...fit(hashVersion, observed, expectedCounts), counts };
+    });
+
+    return {
+      experimentId: experiment.id,
+      key: experiment.key,
+      expected: Object.fromEntries(
+        experiment.variations.map((v, i) => [v.key, expectedCounts[i]]),
+      ),
+      fits,
+    };
+  });
+
+  return {
+    sampleSize: n,
+    hashVersion: project.hashVersion,
+    reliable,
+    slots,
+    experiments: experimentReports,
+  };
+}
+
+function fit(
+  hashVersion: HashVersion,
+  observed: number[],
+  expected: number[],
+): HashFit {
+  const chiSquare = chiSquareStatistic(observed, expected);
+  const degreesOfFreedom = observed.length - 1;
+  return {
+    hashVersion,
+    chiSquare,
+    degreesOfFreedom,
+    pValue: chiSquarePValue(chiSquare, degreesOfFreedom),
+  };
+}
+
+// Distinct visitors seen by the project, enrolled or not
+function getStoredVisitorIds(
+  db: Database.Database,
+  projectId: string,
+): string[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT visitor_id FROM (
+        SELECT visitor_id, MAX(timestamp) AS last_seen FROM (
+          SELECT visitor_id, timestamp FROM visitor_events WHERE project_id = ?
+          UNION ALL
+          SELECT visitor_id, timestamp FROM traffic_events WHERE project_id = ?
+        )
+        GROUP BY visitor_id
+      )
+      ORDER BY last_seen DESC
+      LIMIT ?
+    `,
+    )
+    .all(projectId, projectId, MAX_REPORT_VISITORS) as Array<{
+    visitor_id: string;
+  }>;
+
+  return rows.map((row) => row.visitor_id);
+}
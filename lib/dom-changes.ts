@@ -0,0 +1,356 @@
+/**
+ * DOM Changes
+ * Validation of the page changes a variation makes, which the embed script
+ * applies from its JSON config
+ */
+
+import type {
+  DomChange,
+  DomChangeType,
+  MovePosition,
+  Variation,
+  VariationDefinition,
+} from "./types";
+
+export const DOM_CHANGE_TYPES: DomChangeType[] = [
+  "text",
+  "html",
+  "attribute",
+  "css",
+  "hide",
+  "move",
+];
+
+export const MOVE_POSITIONS: MovePosition[] = [
+  "before",
+  "after",
+  "prepend",
+  "append",
+];
+
+export const MAX_CHANGES_PER_VARIATION = 50;
+export const MAX_SELECTOR_LENGTH = 500;
+const MAX_VALUE_LENGTH = 10000;
+
+// Attribute names as HTML allows them, minus event handlers and srcdoc so
+// a change can't run script
+const ATTRIBUTE_NAME_PATTERN = /^[A-Za-z_:][A-Za-z0-9_.:-]{0,99}$/;
+const SCRIPT_ATTRIBUTE_PATTERN = /^(on|srcdoc$)/i;
+
+// Attributes holding a URL, which must use one of URL_SCHEMES.
+// Emitted into the embed script, which checks the same.
+export const URL_ATTRIBUTES = [
+  "href",
+  "src",
+  "srcset",
+  "action",
+  "formaction",
+  "xlink:href",
+  "data",
+  "poster",
+];
+export const URL_SCHEMES = ["http", "https", "mailto", "tel"];
+
+// What `html` changes may contain; anything else is rejected on save and
+// removed by the embed script. Attributes named data-* and aria-* are
+// allowed too.
+export const HTML_TAGS = [
+  "a",
+  "abbr",
+  "article",
+  "aside",
+  "b",
+  "blockquote",
+  "br",
+  "caption",
+  "code",
+  "dd",
+  "del",
+  "div",
+  "dl",
+  "dt",
+  "em",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "i",
+  "img",
+  "ins",
+  "kbd",
+  "li",
+  "main",
+  "mark",
+  "nav",
+  "ol",
+  "p",
+  "picture",
+  "pre",
+  "q",
+  "s",
+  "section",
+  "small",
+  "source",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "time",
+  "tr",
+  "u",
+  "ul",
+];
+export const HTML_ATTRIBUTES = [
+  "alt",
+  "class",
+  "colspan",
+  "datetime",
+  "dir",
+  "height",
+  "hidden",
+  "href",
+  "id",
+  "lang",
+  "loading",
+  "media",
+  "rel",
+  "role",
+  "rowspan",
+  "sizes",
+  "src",
+  "srcset",
+  "target",
+  "title",
+  "type",
+  "width",
+];
+
+// One start or end tag with its attributes, quoted or not. Markup that
+// doesn't read as one, such as comments, is rejected rather than guessed at.
+const TAG_PATTERN =
+  /^<(\/?)([A-Za-z][A-Za-z0-9]*)((?:\s+[A-Za-z_:][A-Za-z0-9_.:-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/;
+const TAG_ATTRIBUTE_PATTERN =
+  /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+// Selectors and CSS end up inside a style element, so they can't close a
+// rule or the element
+const CSS_UNSAFE_PATTERN = /[{}<]/;
+
+/**
+ * Whether a URL is relative or uses one of URL_SCHEMES. Browsers ignore
+ * whitespace and control characters in the scheme and decode entities in
+ * attributes, so those are dropped first and an entity before the path is
+ * refused. A srcset's candidates are checked one by one.
+ * Must match isSafeUrl in the embed script (lib/script-generator.ts)
+ */
+export function isSafeUrl(value: string, name = "href"): boolean {
+  if (name.toLowerCase() === "srcset") {
+    return value
+      .split(",")
+      .every((candidate) => isSafeUrl(candidate.trim().split(/\s+/)[0]));
+  }
+  const head = value.replace(/[\u0000-\u0020]/g, "").split(/[/?#]/)[0];
+  if (head.includes("&")) return false;
+  const colon = head.indexOf(":");
+  return (
+    colon === -1 || URL_SCHEMES.includes(head.slice(0, colon).toLowerCase())
+  );
+}
+
+/**
+ * Why an HTML value isn't allowed, or null if it's fine: only the tags and
+ * attributes of HTML_TAGS and HTML_ATTRIBUTES, with safe URLs, and no other
+ * markup. A literal "<" has to be written as &lt;.
+ */
+export function htmlError(html: string): string | null {
+  let i = html.indexOf("<");
+  while (i !== -1) {
+    const tag = TAG_PATTERN.exec(html.slice(i));
+    if (!tag) {
+      return 'HTML may only contain tags; write a literal "<" as &lt;';
+    }
+    const name = tag[2].toLowerCase();
+    if (!HTML_TAGS.includes(name)) {
+      return `<${name}> isn't allowed in HTML`;
+    }
+    for (const attr of tag[3].matchAll(TAG_ATTRIBUTE_PATTERN)) {
+      const attrName = attr[1].toLowerCase();
+      const value = attr[2] ?? attr[3] ?? attr[4] ?? "";
+      if (!isAllowedHtmlAttribute(attrName)) {
+        return `The ${attrName} attribute isn't allowed in HTML`;
+      }
+      if (URL_ATTRIBUTES.includes(attrName) && !isSafeUrl(value, attrName)) {
+        return `${attrName} must be a relative, http(s), mailto or tel URL`;
+      }
+    }
+    i = html.indexOf("<", i + tag[0].length);
+  }
+  return null;
+}
+
+function isAllowedHtmlAttribute(name: string): boolean {
+  return HTML_ATTRIBUTES.includes(name) || /^(data|aria)-/.test(name);
+}
+
+export function isDomChangeType(value: unknown): value is DomChangeType {
+  return DOM_CHANGE_TYPES.includes(value as DomChangeType);
+}
+
+/**
+ * Whether a selector can be written into a style element as is
+ */
+export function isValidSelector(selector: string): boolean {
+  return (
+    selector.length > 0 &&
+    selector.length <= MAX_SELECTOR_LENGTH &&
+    !CSS_UNSAFE_PATTERN.test(selector)
+  );
+}
+
+/**
+ * Validate one change
+ */
+function parseDomChange(input: unknown): DomChange | { error: string } {
+  const item = (input ?? {}) as Record<string, unknown>;
+  if (!isDomChangeType(item.type)) {
+    return {
+      error: `Change type must be one of ${DOM_CHANGE_TYPES.join(", ")}`,
+    };
+  }
+
+  const selector =
+    typeof item.selector === "string" ? item.selector.trim() : "";
+  if (!isValidSelector(selector)) {
+    return {
+      error: `Selector must be 1-${MAX_SELECTOR_LENGTH} characters without "{", "}" or "<"`,
+    };
+  }
+
+  const value = item.value ?? "";
+  if (typeof value !== "string" || value.length > MAX_VALUE_LENGTH) {
+    return {
+      error: `Value must be a string of at most ${MAX_VALUE_LENGTH} characters`,
+    };
+  }
+
+  switch (item.type) {
+    case "text":
+      return { type: "text", selector, value };
+    case "html": {
+      const error = htmlError(value);
+      if (error) return { error };
+      return { type: "html", selector, value };
+    }
+    case "attribute": {
+      const name = typeof item.name === "string" ? item.name.trim() : "";
+      if (
+        !ATTRIBUTE_NAME_PATTERN.test(name) ||
+        SCRIPT_ATTRIBUTE_PATTERN.test(name)
+      ) {
+        return {
+          error:
+            "Attribute name must be valid and not an event handler or srcdoc",
+        };
+      }
+      if (
+        URL_ATTRIBUTES.includes(name.toLowerCase()) &&
+        !isSafeUrl(value, name)
+      ) {
+        return {
+          error: `${name} must be a relative, http(s), mailto or tel URL`,
+        };
+      }
+      return { type: "attribute", selector, name, value };
+    }
+    case "css":
+      if (CSS_UNSAFE_PATTERN.test(value)) {
+        return { error: 'CSS declarations can\'t contain "{", "}" or "<"' };
+      }
+      return { type: "css", selector, value };
+    case "hide":
+      return { type: "hide", selector };
+    case "move": {
+      const target = typeof item.target === "string" ? item.target.trim() : "";
+      if (target.length === 0 || target.length > MAX_SELECTOR_LENGTH) {
+        return {
+          error: `Move target must be a selector of 1-${MAX_SELECTOR_LENGTH} characters`,
+        };
+      }
+      if (!MOVE_POSITIONS.includes(item.position as MovePosition)) {
+        return {
+          error: `Move position must be one of ${MOVE_POSITIONS.join(", ")}`,
+        };
+      }
+      return {
+        type: "move",
+        selector,
+        target,
+        position: item.position as MovePosition,
+      };
+    }
+  }
+}
+
+/**
+ * Validate an experiment's changes from user input: a map of variation
+ * key to the list of changes that variation makes, applied in order.
+ * Variations left out make no changes.
+ */
+export function parseDomChanges(
+  input: unknown,
+  variations: Pick<VariationDefinition, "key">[],
+): { changes: Record<Variation, DomChange[]> } | { error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: "Changes must be an object of variation key to changes" };
+  }
+
+  const changes: Record<Variation, DomChange[]> = {};
+  for (const [key, list] of Object.entries(input)) {
+    if (!variations.some((v) => v.key === key)) {
+      return { error: `Unknown variation "${key}"` };
+    }
+    if (!Array.isArray(list) || list.length > MAX_CHANGES_PER_VARIATION) {
+      return {
+        error: `Changes for "${key}" must be a list of at most ${MAX_CHANGES_PER_VARIATION}`,
+      };
+    }
+    const parsed: DomChange[] = [];
+    for (const item of list) {
+      const change = parseDomChange(item);
+      if ("error" in change) {
+        return { error: `${key}: ${change.error}` };
+      }
+      parsed.push(change);
+    }
+    if (parsed.length > 0) changes[key] = parsed;
+  }
+
+  return { changes };
+}
+
+/**
+ * Drop the changes of variations that no longer exist
+ */
+export function pruneDomChanges(
+  changes: Record<Variation, DomChange[]>,
+  variations: Pick<VariationDefinition, "key">[],
+): Record<Variation, DomChange[]> {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([key]) =>
+      variations.some((v) => v.key === key),
+    ),
+  );
+}
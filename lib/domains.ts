@@ -0,0 +1,206 @@
+/**
+ * Domain Allowlist
+ * Which sites may run a project's script and send its beacons, and the
+ * hits rejected from everywhere else
+ */
+
+import type Database from "better-sqlite3";
+import type { Project, RejectedOrigin } from "./types";
+
+export const MAX_ALLOWED_DOMAINS = 20;
+const MAX_ORIGIN_LENGTH = 255;
+const REJECTED_ORIGINS_SHOWN = 20;
+// Origins counted per project; hits from further new ones are dropped so
+// made-up origins can't grow the table without bound
+const MAX_REJECTED_ORIGINS = 100;
+
+// A hostname or IP address, optionally "*." for any subdomain
+const DOMAIN_PATTERN =
+  /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+
+const LOCALHOST_NAMES = ["localhost", "127.0.0.1", "[::1]", "::1"];
+
+/**
+ * Reduce a domain or URL as typed to its lowercase hostname, e.g.
+ * "https://Shop.example.com:8080/" to "shop.example.com"
+ * Returns null if what's left isn't a hostname or wildcard.
+ */
+export function normalizeDomain(value: string): string | null {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, "")
+    .replace(/\.$/, "");
+  return DOMAIN_PATTERN.test(host) ? host : null;
+}
+
+/**
+ * Validate extra allowed domains from user input
+ * Entries are normalized with normalizeDomain and deduplicated.
+ */
+export function parseAllowedDomains(
+  input: unknown,
+): { domains: string[] } | { error: string } {
+  if (!Array.isArray(input) || input.length > MAX_ALLOWED_DOMAINS) {
+    return {
+      error: `Allowed domains must be a list of at most ${MAX_ALLOWED_DOMAINS}`,
+    };
+  }
+  const domains: string[] = [];
+  for (const value of input) {
+    const domain = typeof value === "string" ? normalizeDomain(value) : null;
+    if (!domain) {
+      return {
+        error: `"${value}" isn't a domain; use e.g. example.com, *.example.com or localhost`,
+      };
+    }
+    if (!domains.includes(domain)) domains.push(domain);
+  }
+  return { domains };
+}
+
+/**
+ * Parse stored allowed domains JSON; anything unreadable adds none
+ */
+export function parseStoredDomains(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A project's allowlist: its domain plus the extra allowed domains
+ * Empty when none of them is a valid domain, which allows everywhere.
+ */
+export function getAllowedDomains(
+  project: Pick<Project, "domain" | "allowedDomains">,
+): string[] {
+  const primary = normalizeDomain(project.domain);
+  const domains = primary ? [primary] : [];
+  for (const domain of project.allowedDomains) {
+    if (!domains.includes(domain)) domains.push(domain);
+  }
+  return domains;
+}
+
+/**
+ * Whether a hostname is on the allowlist
+ * "example.com" allows it and www.example.com, "*.example.com" any
+ * subdomain (but not example.com itself) and "localhost" the loopback
+ * hosts. Must match hostAllowed in the embed script.
+ */
+export function isAllowedHost(host: string, domains: string[]): boolean {
+  if (domains.length === 0) return true;
+  const h = host.toLowerCase().replace(/\.$/, "");
+  return domains.some((domain) => {
+    if (domain === "localhost") return LOCALHOST_NAMES.includes(h);
+    if (domain.startsWith("*.")) {
+      const suffix = domain.slice(1);
+      return h.length > suffix.length && h.endsWith(suffix);
+    }
+    return h === domain || h === `www.${domain}`;
+  });
+}
+
+/**
+ * Whether a project's domain is a single site, as its preview links need
+ */
+export function isValidProjectDomain(value: string): boolean {
+  const domain = normalizeDomain(value);
+  return domain !== null && !domain.startsWith("*.");
+}
+
+/**
+ * Whether an origin such as "https://shop.example.com" is on the allowlist
+ */
+export function isAllowedOrigin(origin: string, domains: string[]): boolean {
+  try {
+    return isAllowedHost(new URL(origin).hostname, domains);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Origin of the page a request came from: the Origin header, or the
+ * Referer's origin since image beacons don't send Origin. Null when the
+ * browser sent neither, e.g. under a no-referrer policy.
+ */
+export function requestOrigin(headers: Headers): string | null {
+  for (const name of ["origin", "referer"]) {
+    const value = headers.get(name);
+    if (!value || value === "null") continue;
+    try {
+      return new URL(value).origin;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Count a hit rejected because it came from outside the allowlist
+ * A project counts at most MAX_REJECTED_ORIGINS origins; hits from new
+ * origins past that are dropped.
+ */
+export function recordRejectedHit(
+  db: Database.Database,
+  projectId: string,
+  origin: string,
+): void {
+  const key = origin.slice(0, MAX_ORIGIN_LENGTH);
+  const now = new Date().toISOString();
+  const updated = db
+    .prepare(
+      `
+      UPDATE rejected_hits SET hits = hits + 1, last_seen_at = ?
+      WHERE project_id = ? AND origin = ?
+    `,
+    )
+    .run(now, projectId, key);
+  if (updated.changes > 0) return;
+
+  db.prepare(
+    `
+    INSERT OR IGNORE INTO rejected_hits (project_id, origin, hits, last_seen_at)
+    SELECT ?, ?, 1, ?
+    WHERE (SELECT COUNT(*) FROM rejected_hits WHERE project_id = ?) < ?
+  `,
+  ).run(projectId, key, now, projectId, MAX_REJECTED_ORIGINS);
+}
+
+/**
+ * Origins with the most rejected hits
+ */
+export function getRejectedOrigins(
+  db: Database.Database,
+  projectId: string,
+): RejectedOrigin[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT origin, hits, last_seen_at
+      FROM rejected_hits
+      WHERE project_id = ?
+      ORDER BY hits DESC, last_seen_at DESC
+      LIMIT ?
+    `,
+    )
+    .all(projectId, REJECTED_ORIGINS_SHOWN) as Array<{
+    origin: string;
+    hits: number;
+    last_seen_at: string;
+  }>;
+  return rows.map((row) => ({
+    origin: row.origin,
+    hits: row.hits,
+    lastSeenAt: row.last_seen_at,
+  }));
+}
@@ -0,0 +1,116 @@
+/**
+ * Event Recording
+ * Inserts shared by the tracking beacon, the server-side decision API and
+ * the SDK's batched events
+ */
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import { rememberAssignment } from "./assignments";
+
+// Statuses recorded for visitors who aren't enrolled
+export type TrafficStatus = "holdout" | "ineligible";
+
+export const TRAFFIC_STATUSES: TrafficStatus[] = ["holdout", "ineligible"];
+
+export function isTrafficStatus(value: unknown): value is TrafficStatus {
+  return TRAFFIC_STATUSES.includes(value as TrafficStatus);
+}
+
+// Goal names are chosen by the site, e.g. "signup" or "checkout:paid"
+const GOAL_PATTERN = /^[A-Za-z0-9_.:-]{1,100}$/;
+
+export function isValidGoal(value: unknown): value is string {
+  return typeof value === "string" && GOAL_PATTERN.test(value);
+}
+
+/**
+ * Record a visitor's assignment to an experiment variation
+ * The first one per experiment is remembered as the visitor's sticky
+ * variation. Callers validate the experiment and variation first.
+ */
+export function recordVisitorEvent(
+  db: Database.Database,
+  event: {
+    projectId: string;
+    experimentId: string;
+    visitorId: string;
+    variation: string;
+    userAgent: string | null;
+    referrer: string | null;
+  },
+): void {
+  db.prepare(
+    `
+    INSERT INTO visitor_events (id, project_id, experiment_id, visitor_id, variation, timestamp, user_agent, referrer)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+  ).run(
+    `evt_${nanoid(12)}`,
+    event.projectId,
+    event.experimentId,
+    event.visitorId,
+    event.variation,
+    new Date().toISOString(),
+    event.userAgent,
+    event.referrer,
+  );
+  rememberAssignment(
+    db,
+    event.projectId,
+    event.experimentId,
+    event.visitorId,
+    event.variation,
+  );
+}
+
+/**
+ * Record a visitor who loaded the script without being enrolled
+ * Kept out of visitor_events so experiment results only count participants
+ */
+export function recordTrafficEvent(
+  db: Database.Database,
+  projectId: string,
+  visitorId: string,
+  status: TrafficStatus,
+): void {
+  db.prepare(
+    `
+    INSERT INTO traffic_events (id, project_id, visitor_id, status, timestamp)
+    VALUES (?, ?, ?, ?, ?)
+  `,
+  ).run(
+    `trf_${nanoid(12)}`,
+    projectId,
+    visitorId,
+    status,
+    new Date().toISOString(),
+  );
+}
+
+/**
+ * Record a visitor reaching a goal, with an optional numeric value
+ */
+export function recordConversionEvent(
+  db: Database.Database,
+  event: {
+    projectId: string;
+    visitorId: string;
+    goal: string;
+    value: number | null;
+  },
+): void {
+  db.prepare(
+    `
+    INSERT INTO conversion_events (id, project_id, visitor_id, goal, value, timestamp)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `,
+  ).run(
+    `cnv_${nanoid(12)}`,
+    event.projectId,
+    event.visitorId,
+    event.goal,
+    event.value,
+    new Date().toISOString(),
+  );
+}
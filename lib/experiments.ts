@@ -0,0 +1,340 @@
+/**
+ * Experiment Data Access Helpers
+ * Row mapping, lookups and stats aggregation for experiments
+ */
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import type {
+  AllocationMode,
+  DomChange,
+  Experiment,
+  ExperimentStats,
+  ExperimentStatus,
+  ExperimentWithStats,
+  FunnelStep,
+  Variation,
+  VariationDefinition,
+} from "./types";
+import { DEFAULT_VARIATIONS } from "./variation";
+
+export const ALLOCATION_MODES: AllocationMode[] = ["fixed", "bandit"];
+
+// Statuses that can be set directly; "shipped" is only reached by shipping
+export const EXPERIMENT_STATUSES: ExperimentStatus[] = [
+  "draft",
+  "running",
+  "paused",
+];
+
+// Keys end up in attribute names (data-optim-exp-<key>), which HTML lowercases
+const EXPERIMENT_KEY_PATTERN = /^[a-z0-9-]{1,40}$/;
+
+/**
+ * Columns selected for an experiment row
+ */
+export const EXPERIMENT_COLUMNS =
+  "id, project_id, key, name, variations, status, layer_id, layer_start, layer_share, allocation, bandit_goal, bandit_weights, winner, conclusion, shipped_at, final_stats, pages, funnel, changes, created_at, updated_at";
+
+/**
+ * Raw experiment row as stored in SQLite
+ */
+export interface ExperimentRow {
+  id: string;
+  project_id: string;
+  key: string;
+  name: string;
+  variations: string | null;
+  status: ExperimentStatus;
+  layer_id: string | null;
+  layer_start: number;
+  layer_share: number;
+  allocation: AllocationMode;
+  bandit_goal: string | null;
+  bandit_weights: string | null;
+  winner: string | null;
+  conclusion: string | null;
+  shipped_at: string | null;
+  final_stats: string | null;
+  pages: string | null;
+  funnel: string | null;
+  changes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Generate experiment ID with prefix
+export function generateExperimentId(): string {
+  return `exp_${nanoid(12)}`;
+}
+
+export function isValidExperimentKey(key: string): boolean {
+  return EXPERIMENT_KEY_PATTERN.test(key);
+}
+
+export function isAllocationMode(value: unknown): value is AllocationMode {
+  return ALLOCATION_MODES.includes(value as AllocationMode);
+}
+
+export function isValidExperimentStatus(
+  status: unknown,
+): status is ExperimentStatus {
+  return EXPERIMENT_STATUSES.includes(status as ExperimentStatus);
+}
+
+/**
+ * Parse the stored variations JSON, falling back to the A-D defaults
+ * for experiments migrated from projects that never configured variations
+ */
+export function parseStoredVariations(
+  value: string | null,
+): VariationDefinition[] {
+  if (!value) return DEFAULT_VARIATIONS;
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      return DEFAULT_VARIATIONS;
+    }
+    // Variations stored before weights existed split traffic evenly
+    return parsed.map((v) => ({ ...v, weight: v.weight ?? 1 }));
+  } catch {
+    return DEFAULT_VARIATIONS;
+  }
+}
+
+/**
+ * Convert a database row into an Experiment
+ */
+export function mapExperimentRow(row: ExperimentRow): Experiment {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    key: row.key,
+    name: row.name,
+    variations: parseStoredVariations(row.variations),
+    status: row.status,
+    layerId: row.layer_id,
+    layerStart: row.layer_start,
+    layerShare: row.layer_share,
+    allocation: row.allocation === "bandit" ? "bandit" : "fixed",
+    banditGoal: row.bandit_goal,
+    banditWeights: row.bandit_weights ? JSON.parse(row.bandit_weights) : null,
+    winner: row.winner,
+    conclusion: row.conclusion,
+    shippedAt: row.shipped_at,
+    finalStats: row.final_stats ? JSON.parse(row.final_stats) : null,
+    pages: row.pages ? JSON.parse(row.pages) : [],
+    funnel: row.funnel ? JSON.parse(row.funnel) : [],
+    changes: row.changes ? JSON.parse(row.changes) : {},
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Load all experiments of a project, oldest first
+ * The first running or shipped experiment is the project's primary experiment
+ */
+export function getExperiments(
+  db: Database.Database,
+  projectId: string,
+): Experiment[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT ${EXPERIMENT_COLUMNS}
+      FROM experiments
+      WHERE project_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `,
+    )
+    .all(projectId) as ExperimentRow[];
+
+  return rows.map(mapExperimentRow);
+}
+
+/**
+ * Load a single experiment, scoped to its project
+ */
+export function getExperiment(
+  db: Database.Database,
+  projectId: string,
+  experimentId: string,
+): Experiment | undefined {
+  const row = db
+    .prepare(
+      `SELECT ${EXPERIMENT_COLUMNS} FROM experiments WHERE id = ? AND project_id = ?`,
+    )
+    .get(experimentId, projectId) as ExperimentRow | undefined;
+
+  return row ? mapExperimentRow(row) : undefined;
+}
+
+/**
+ * Insert a new experiment and return it
+ */
+export function insertExperiment(
+  db: Database.Database,
+  projectId: string,
+  input: {
+    key: string;
+    name: string;
+    variations: VariationDefinition[];
+    status: ExperimentStatus;
+    layerId?: string | null;
+    layerStart?: number;
+    layerShare?: number;
+    pages?: string[];
+    funnel?: FunnelStep[];
+    changes?: Record<Variation, DomChange[]>;
+  },
+): Experiment {
+  const id = generateExperimentId();
+  const now = new Date().toISOString();
+  const layerId = input.layerId ?? null;
+  const layerStart = input.layerStart ?? 0;
+  const layerShare = input.layerShare ?? 100;
+  const pages = input.pages ?? [];
+  const funnel = input.funnel ?? [];
+  const changes = input.changes ?? {};
+
+  db.prepare(
+    `
+    INSERT INTO experiments (id, project_id, key, name, variations, status, layer_id, layer_start, layer_share, pages, funnel, changes, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+  ).run(
+    id,
+    projectId,
+    input.key,
+    input.name,
+    JSON.stringify(input.variations),
+    input.status,
+    layerId,
+    layerStart,
+    layerShare,
+    JSON.stringify(pages),
+    JSON.stringify(funnel),
+    JSON.stringify(changes),
+    now,
+    now,
+  );
+
+  return {
+    id,
+    projectId,
+    key: input.key,
+    name: input.name,
+    variations: input.variations,
+    status: input.status,
+    layerId,
+    layerStart,
+    layerShare,
+    allocation: "fixed",
+    banditGoal: null,
+    banditWeights: null,
+    winner: null,
+    conclusion: null,
+    shippedAt: null,
+    finalStats: null,
+    pages,
+    funnel,
+    changes,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Count visitor events per variation for an experiment
+ * Events for variations no longer defined on the experiment are ignored.
+ * Shipped experiments report the results frozen when they were shipped.
+ */
+export function getExperimentStats(
+  db: Database.Database,
+  experiment: Experiment,
+): ExperimentStats {
+  if (experiment.finalStats) return experiment.finalStats;
+
+  const rows = db
+    .prepare(
+      `
+      SELECT variation, COUNT(*) as count
+      FROM visitor_events
+      WHERE experiment_id = ?
+      GROUP BY variation
+    `,
+    )
+    .all(experiment.id) as Array<{ variation: string; count: number }>;
+
+  const variationCounts: Record<Variation, number> = Object.fromEntries(
+    experiment.variations.map((v) => [v.key, 0]),
+  );
+  let totalVisitors = 0;
+
+  rows.forEach((r) => {
+    if (Object.hasOwn(variationCounts, r.variation)) {
+      variationCounts[r.variation] = r.count;
+      totalVisitors += r.count;
+    }
+  });
+
+  return { totalVisitors, variations: variationCounts };
+}
+
+/**
+ * Load all experiments of a project together with their stats
+ */
+export function getExperimentsWithStats(
+  db: Database.Database,
+  projectId: string,
+): ExperimentWithStats[] {
+  return getExperiments(db, projectId).map((experiment) => ({
+    ...experiment,
+    stats: getExperimentStats(db, experiment),
+  }));
+}
+
+/**
+ * Ship an experiment's winner: freeze its results, record the winner and
+ * conclusion, and take it out of its layer since every visitor now gets
+ * the winner
+ */
+export function shipExperiment(
+  db: Database.Database,
+  experiment: Experiment,
+  winner: Variation,
+  conclusion: string | null,
+): Experiment {
+  const now = new Date().toISOString();
+  const finalStats = getExperimentStats(db, experiment);
+
+  db.prepare(
+    `
+    UPDATE experiments
+    SET status = 'shipped', winner = ?, conclusion = ?, shipped_at = ?, final_stats = ?,
+        layer_id = NULL, layer_start = 0, layer_share = 100, updated_at = ?
+    WHERE id = ?
+  `,
+  ).run(
+    winner,
+    conclusion,
+    now,
+    JSON.stringify(finalStats),
+    now,
+    experiment.id,
+  );
+
+  return {
+    ...experiment,
+    status: "shipped",
+    winner,
+    conclusion,
+    shippedAt: now,
+    finalStats,
+    layerId: null,
+    layerStart: 0,
+    layerShare: 100,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Feature Flag Data Access Helpers
+ * Row mapping, lookups and validation for feature flags; evaluation lives
+ * in lib/decide.ts so the SDK can share it
+ */
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import { parseStoredTargeting } from "./targeting";
+import type { ClientFlag, FeatureFlag, FlagType, FlagValue } from "./types";
+
+export const FLAG_TYPES: FlagType[] = ["boolean", "string", "json"];
+
+// Values a new flag starts with when none are given
+export const DEFAULT_FLAG_VALUES: Record<
+  FlagType,
+  { value: FlagValue; defaultValue: FlagValue }
+> = {
+  boolean: { value: true, defaultValue: false },
+  string: { value: "", defaultValue: "" },
+  json: { value: null, defaultValue: null },
+};
+
+const MAX_STRING_LENGTH = 1000;
+const MAX_JSON_LENGTH = 10000;
+
+// Keys are read from code, e.g. flags["new-checkout"] or flags.new_checkout
+const FLAG_KEY_PATTERN = /^[A-Za-z0-9_.-]{1,60}$/;
+
+/**
+ * Columns selected for a flag row
+ */
+export const FLAG_COLUMNS =
+  "id, project_id, key, type, enabled, rollout, value, default_value, targeting, created_at, updated_at";
+
+/**
+ * Raw flag row as stored in SQLite
+ */
+export interface FlagRow {
+  id: string;
+  project_id: string;
+  key: string;
+  type: FlagType;
+  enabled: number;
+  rollout: number;
+  value: string;
+  default_value: string;
+  targeting: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Generate flag ID with prefix
+export function generateFlagId(): string {
+  return `flg_${nanoid(12)}`;
+}
+
+export function isValidFlagKey(key: string): boolean {
+  return FLAG_KEY_PATTERN.test(key);
+}
+
+export function isFlagType(value: unknown): value is FlagType {
+  return FLAG_TYPES.includes(value as FlagType);
+}
+
+/**
+ * Validate a rollout percentage (whole number from 0 to 100)
+ */
+export function isValidRollout(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= 100
+  );
+}
+
+/**
+ * Validate a flag value against the flag's type
+ */
+export function parseFlagValue(
+  type: FlagType,
+  input: unknown,
+): { value: FlagValue } | { error: string } {
+  switch (type) {
+    case "boolean":
+      return typeof input === "boolean"
+        ? { value: input }
+        : { error: "Boolean flags take true or false" };
+    case "string":
+      return typeof input === "string" && input.length <= MAX_STRING_LENGTH
+        ? { value: input }
+        : {
+            error: `String flags take a string of up to ${MAX_STRING_LENGTH} characters`,
+          };
+    case "json":
+      // Request bodies are parsed JSON, so anything but undefined is valid
+      if (input === undefined) return { error: "JSON flags need a value" };
+      if (JSON.stringify(input).length > MAX_JSON_LENGTH) {
+        return {
+          error: `JSON flag values must be at most ${MAX_JSON_LENGTH} characters`,
+        };
+      }
+      return { value: input as FlagValue };
+  }
+}
+
+/**
+ * Convert a database row into a FeatureFlag
+ */
+export function mapFlagRow(row: FlagRow): FeatureFlag {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    key: row.key,
+    type: row.type,
+    enabled: row.enabled === 1,
+    rollout: row.rollout,
+    value: JSON.parse(row.value),
+    defaultValue: JSON.parse(row.default_value),
+    targeting: parseStoredTargeting(row.targeting),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Load all flags of a project, oldest first
+ */
+export function getFlags(
+  db: Database.Database,
+  projectId: string,
+): FeatureFlag[] {
+  const rows = db
+    .prepare(
+      `SELECT ${FLAG_COLUMNS} FROM feature_flags WHERE project_id = ? ORDER BY created_at ASC, rowid ASC`,
+    )
+    .all(projectId) as FlagRow[];
+
+  return rows.map(mapFlagRow);
+}
+
+/**
+ * Load a single flag, scoped to its project
+ */
+export function getFlag(
+  db: Database.Database,
+  projectId: string,
+  flagId: string,
+): FeatureFlag | undefined {
+  const row = db
+    .prepare(
+      `SELECT ${FLAG_COLUMNS} FROM feature_flags WHERE id = ? AND project_id = ?`,
+    )
+    .get(flagId, projectId) as FlagRow | undefined;
+
+  return row ? mapFlagRow(row) : undefined;
+}
+
+/**
+ * The fields of a flag the embed script and SDK need
+ */
+export function toClientFlag(flag: ClientFlag): ClientFlag {
+  return {
+    id: flag.id,
+    key: flag.key,
+    enabled: flag.enabled,
+    rollout: flag.rollout,
+    value: flag.value,
+    defaultValue: flag.defaultValue,
+    targeting: flag.targeting,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Funnels
+ * Ordered step pages of an experiment, the steps each visitor reached and
+ * the per-variation drop-off report
+ */
+
+import type Database from "better-sqlite3";
+import type { Experiment, FunnelReport, FunnelStep } from "./types";
+import { isValidPagePattern } from "./variation";
+
+export const MIN_FUNNEL_STEPS = 2;
+export const MAX_FUNNEL_STEPS = 10;
+const MAX_STEP_NAME_LENGTH = 60;
+
+/**
+ * Validate a funnel from user input
+ * An empty list removes the funnel; otherwise it needs 2-10 uniquely
+ * named steps, each with a page pattern.
+ */
+export function parseFunnel(
+  input: unknown,
+): { funnel: FunnelStep[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "Funnel must be a list of steps" };
+  }
+  if (
+    input.length > 0 &&
+    (input.length < MIN_FUNNEL_STEPS || input.length > MAX_FUNNEL_STEPS)
+  ) {
+    return {
+      error: `A funnel needs ${MIN_FUNNEL_STEPS} to ${MAX_FUNNEL_STEPS} steps`,
+    };
+  }
+
+  const funnel: FunnelStep[] = [];
+  for (const item of input) {
+    const name = typeof item?.name === "string" ? item.name.trim() : "";
+    if (name.length === 0 || name.length > MAX_STEP_NAME_LENGTH) {
+      return {
+        error: `Each step needs a name of up to ${MAX_STEP_NAME_LENGTH} characters`,
+      };
+    }
+    if (funnel.some((step) => step.name === name)) {
+      return { error: `Duplicate step name "${name}"` };
+    }
+    const path = typeof item?.path === "string" ? item.path.trim() : null;
+    if (!isValidPagePattern(path)) {
+      return {
+        error: `Path for "${name}" must start with "/", with "*" as a wildcard`,
+      };
+    }
+    funnel.push({ name, path });
+  }
+
+  return { funnel };
+}
+
+/**
+ * The step index named by a beacon's `st` parameter, or null if the
+ * experiment has no such step
+ */
+export function parseFunnelStep(
+  experiment: Pick<Experiment, "funnel">,
+  value: string,
+): number | null {
+  if (!/^\d{1,2}$/.test(value)) return null;
+  const step = Number(value);
+  return step < experiment.funnel.length ? step : null;
+}
+
+/**
+ * Record that a visitor reached a funnel step; repeat visits are ignored
+ */
+export function recordFunnelStep(
+  db: Database.Database,
+  event: {
+    projectId: string;
+    experimentId: string;
+    visitorId: string;
+    step: number;
+  },
+): void {
+  db.prepare(
+    `
+    INSERT OR IGNORE INTO funnel_steps (project_id, experiment_id, visitor_id, step, reached_at)
+    VALUES (?, ?, ?, ?, ?)
+  `,
+  ).run(
+    event.projectId,
+    event.experimentId,
+    event.visitorId,
+    event.step,
+    new Date().toISOString(),
+  );
+}
+
+/**
+ * Forget the steps visitors reached, after the steps themselves changed
+ */
+export function clearFunnelSteps(
+  db: Database.Database,
+  experimentId: string,
+): void {
+  db.prepare("DELETE FROM funnel_steps WHERE experiment_id = ?").run(
+    experimentId,
+  );
+}
+
+/**
+ * Distinct visitors per variation who were exposed and who reached each
+ * step. Steps are counted on their own, so a visitor can reach a later
+ * step without the earlier ones; visitors never exposed aren't counted.
+ */
+export function getFunnelReport(
+  db: Database.Database,
+  experiment: Pick<Experiment, "id" | "variations" | "funnel">,
+): FunnelReport {
+  const variations: FunnelReport["variations"] = Object.fromEntries(
+    experiment.variations.map((v) => [
+      v.key,
+      { entered: 0, reached: experiment.funnel.map(() => 0) },
+    ]),
+  );
+
+  const entered = db
+    .prepare(
+      `
+      SELECT variation, COUNT(DISTINCT visitor_id) as count
+      FROM visitor_events
+      WHERE experiment_id = ?
+      GROUP BY variation
+    `,
+    )
+    .all(experiment.id) as Array<{ variation: string; count: number }>;
+  entered.forEach((row) => {
+    if (Object.hasOwn(variations, row.variation)) {
+      variations[row.variation].entered = row.count;
+    }
+  });
+
+  const reached = db
+    .prepare(
+      `
+      SELECT e.variation, f.step, COUNT(DISTINCT f.visitor_id) as count
+      FROM funnel_steps f
+      JOIN (
+        SELECT DISTINCT visitor_id, variation
+        FROM visitor_events
+        WHERE experiment_id = ?
+      ) e ON e.visitor_id = f.visitor_id
+      WHERE f.experiment_id = ?
+      GROUP BY e.variation, f.step
+    `,
+    )
+    .all(experiment.id, experiment.id) as Array<{
+    variation: string;
+    step: number;
+    count: number;
+  }>;
+  reached.forEach((row) => {
+    if (
+      Object.hasOwn(variations, row.variation) &&
+      row.step < experiment.funnel.length
+    ) {
+      variations[row.variation].reached[row.step] = row.count;
+    }
+  });
+
+  return { steps: experiment.funnel, variations };
+}
@@ -0,0 +1,128 @@
+/**
+ * Bucketing Hashes
+ * Versioned string hashes behind assignment, exposure and layer slots
+ *
+ * The embed script can't use the compiled functions, whose output depends
+ * on the compiler target, so each version also has a hand-written ES5 copy
+ * in HASH_SOURCES. The two must return the same for every string.
+ */
+
+import type { HashVersion } from "./types";
+
+export const HASH_VERSIONS: HashVersion[] = [1, 2];
+
+// Projects created before versioning keep djb2 so visitors stay put
+export const LEGACY_HASH_VERSION: HashVersion = 1;
+export const DEFAULT_HASH_VERSION: HashVersion = 2;
+
+export const HASH_VERSION_LABELS: Record<HashVersion, string> = {
+  1: "djb2 (legacy)",
+  2: "MurmurHash3",
+};
+
+/**
+ * Version 1: djb2 with XOR
+ * Fast, but IDs sharing a long prefix (like `v_<timestamp>...`) mix poorly
+ */
+export function djb2(str: string): number {
+  let hash = 5381;
+  for (let i = 0; i < str.length; i++) {
+    // hash * 33 + charCode (using XOR for better distribution)
+    hash = (hash * 33) ^ str.charCodeAt(i);
+  }
+  // Convert to unsigned 32-bit integer
+  return hash >>> 0;
+}
+
+/**
+ * Version 2: MurmurHash3 (x86, 32-bit, seed 0) over the string's UTF-16LE
+ * code units, two per block
+ */
+export function murmur3(str: string): number {
+  let h = 0;
+  let k = 0;
+  let i = 0;
+  for (; i + 1 < str.length; i += 2) {
+    k = str.charCodeAt(i) | (str.charCodeAt(i + 1) << 16);
+    k = Math.imul(k, 0xcc9e2d51);
+    k = (k << 15) | (k >>> 17);
+    h ^= Math.imul(k, 0x1b873593);
+    h = (h << 13) | (h >>> 19);
+    h = (Math.imul(h, 5) + 0xe6546b64) | 0;
+  }
+  if (i < str.length) {
+    k = Math.imul(str.charCodeAt(i), 0xcc9e2d51);
+    k = (k << 15) | (k >>> 17);
+    h ^= Math.imul(k, 0x1b873593);
+  }
+  h ^= str.length * 2;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const HASH_FUNCTIONS: Record<HashVersion, (str: string) => number> = {
+  1: djb2,
+  2: murmur3,
+};
+
+// ES5 copies of the functions above for the embed script, self-contained
+// and without Math.imul, which older browsers lack
+const HASH_SOURCES: Record<HashVersion, string> = {
+  1: `function(str){
+      var hash=5381;
+      for(var i=0;i<str.length;i++){
+        hash=(hash*33)^str.charCodeAt(i);
+      }
+      return hash>>>0;
+    }`,
+  2: `function(str){
+      // 32-bit multiply, as Math.imul
+      function imul(a,b){
+        var al=a&0xffff,bl=b&0xffff;
+        return (al*bl+((((a>>>16)*bl+al*(b>>>16))<<16)>>>0))|0;
+      }
+      var h=0,k=0,i=0;
+      for(;i+1<str.length;i+=2){
+        k=str.charCodeAt(i)|(str.charCodeAt(i+1)<<16);
+        k=imul(k,0xcc9e2d51);
+        k=(k<<15)|(k>>>17);
+        h^=imul(k,0x1b873593);
+        h=(h<<13)|(h>>>19);
+        h=(imul(h,5)+0xe6546b64)|0;
+      }
+      if(i<str.length){
+        k=imul(str.charCodeAt(i),0xcc9e2d51);
+        k=(k<<15)|(k>>>17);
+        h^=imul(k,0x1b873593);
+      }
+      h^=str.length*2;
+      h^=h>>>16;
+      h=imul(h,0x85ebca6b);
+      h^=h>>>13;
+      h=imul(h,0xc2b2ae35);
+      h^=h>>>16;
+      return h>>>0;
+    }`,
+};
+
+/**
+ * Hash a string with the given version's function
+ */
+export function hashWith(version: HashVersion, str: string): number {
+  return HASH_FUNCTIONS[version](str);
+}
+
+/**
+ * ES5 source of a version's function, for the embed script
+ */
+export function hashFunctionSource(version: HashVersion): string {
+  return HASH_SOURCES[version];
+}
+
+export function isHashVersion(value: unknown): value is HashVersion {
+  return HASH_VERSIONS.includes(value as HashVersion);
+}
@@ -0,0 +1,89 @@
+/**
+ * Visitor Identity
+ * Where the embed script keeps the visitor ID: localStorage, which is per
+ * origin, or a first-party cookie that subdomains of a parent domain share
+ */
+
+import { normalizeDomain } from "./domains";
+import type { IdentityStrategy, Project } from "./types";
+
+export const IDENTITY_STRATEGIES: IdentityStrategy[] = [
+  "localStorage",
+  "cookie",
+];
+
+export const DEFAULT_IDENTITY_STRATEGY: IdentityStrategy = "localStorage";
+
+export const IDENTITY_STRATEGY_LABELS: Record<IdentityStrategy, string> = {
+  localStorage: "localStorage (this site only)",
+  cookie: "Cookie (shared by subdomains)",
+};
+
+export const DEFAULT_COOKIE_DAYS = 365;
+export const MIN_COOKIE_DAYS = 1;
+export const MAX_COOKIE_DAYS = 730;
+
+export function isIdentityStrategy(value: unknown): value is IdentityStrategy {
+  return IDENTITY_STRATEGIES.includes(value as IdentityStrategy);
+}
+
+type IdentityFields = Pick<
+  Project,
+  "identityStrategy" | "cookieDomain" | "cookieDays"
+>;
+
+/**
+ * Validate identity settings from user input
+ * `cookieDomain` is the parent domain the cookie is set on, e.g.
+ * "shop.com" for www.shop.com and checkout.shop.com; null or an empty
+ * string keeps it on the page's own host.
+ */
+export function parseIdentity(input: {
+  identityStrategy?: unknown;
+  cookieDomain?: unknown;
+  cookieDays?: unknown;
+}): Partial<IdentityFields> | { error: string } {
+  const result: Partial<IdentityFields> = {};
+
+  if (input.identityStrategy !== undefined) {
+    if (!isIdentityStrategy(input.identityStrategy)) {
+      return {
+        error: `identityStrategy must be one of ${IDENTITY_STRATEGIES.join(", ")}`,
+      };
+    }
+    result.identityStrategy = input.identityStrategy;
+  }
+
+  const cookieDomain = input.cookieDomain;
+  if (cookieDomain !== undefined) {
+    if (cookieDomain !== null && typeof cookieDomain !== "string") {
+      return { error: "cookieDomain must be a string or null" };
+    }
+    if (!cookieDomain?.trim()) {
+      result.cookieDomain = null;
+    } else {
+      const domain = normalizeDomain(cookieDomain.replace(/^\./, ""));
+      if (!domain || domain.startsWith("*.")) {
+        return { error: "cookieDomain must be a domain like shop.com" };
+      }
+      result.cookieDomain = domain;
+    }
+  }
+
+  const days = input.cookieDays;
+  if (days !== undefined) {
+    if (
+      typeof days !== "number" ||
+      !Number.isInteger(days) ||
+      days < MIN_COOKIE_DAYS ||
+      days > MAX_COOKIE_DAYS
+    ) {
+      return {
+        error: `cookieDays must be a whole number from ${MIN_COOKIE_DAYS} to ${MAX_COOKIE_DAYS}`,
+      };
+    }
+    result.cookieDays = days;
+  }
+
+  return result;
+}
@@ -0,0 +1,221 @@
+/**
+ * Layer Data Access Helpers
+ * Layers make experiments mutually exclusive: each owns a fixed range of
+ * the layer's 100 slots, and a visitor's slot decides which one (if any)
+ * they can be enrolled in.
+ */
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import { getExperiments } from "./experiments";
+import type { Experiment, Layer, LayerWithOccupancy } from "./types";
+
+export const LAYER_SLOTS = 100;
+
+/**
+ * Columns selected for a layer row
+ */
+export const LAYER_COLUMNS = "id, project_id, name, created_at, updated_at";
+
+/**
+ * Raw layer row as stored in SQLite
+ */
+export interface LayerRow {
+  id: string;
+  project_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Generate layer ID with prefix
+export function generateLayerId(): string {
+  return `lyr_${nanoid(12)}`;
+}
+
+/**
+ * Convert a database row into a Layer
+ */
+export function mapLayerRow(row: LayerRow): Layer {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Load all layers of a project, oldest first
+ */
+export function getLayers(db: Database.Database, projectId: string): Layer[] {
+  const rows = db
+    .prepare(
+      `SELECT ${LAYER_COLUMNS} FROM layers WHERE project_id = ? ORDER BY created_at ASC`,
+    )
+    .all(projectId) as LayerRow[];
+
+  return rows.map(mapLayerRow);
+}
+
+/**
+ * Load a single layer, scoped to its project
+ */
+export function getLayer(
+  db: Database.Database,
+  projectId: string,
+  layerId: string,
+): Layer | undefined {
+  const row = db
+    .prepare(
+      `SELECT ${LAYER_COLUMNS} FROM layers WHERE id = ? AND project_id = ?`,
+    )
+    .get(layerId, projectId) as LayerRow | undefined;
+
+  return row ? mapLayerRow(row) : undefined;
+}
+
+/**
+ * Validate a layer share (whole percentage from 1 to 100)
+ */
+export function isValidLayerShare(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= LAYER_SLOTS
+  );
+}
+
+/**
+ * Find the first free contiguous range of `share` slots
+ * Keeps `preferredStart` when it still fits, so resizing an experiment
+ * doesn't move its existing visitors. Returns null if nothing fits.
+ */
+export function findLayerRange(
+  taken: Array<{ start: number; share: number }>,
+  share: number,
+  preferredStart?: number,
+): number | null {
+  const fits = (start: number) =>
+    start >= 0 &&
+    start + share <= LAYER_SLOTS &&
+    taken.every((t) => start + share <= t.start || t.start + t.share <= start);
+
+  if (preferredStart !== undefined && fits(preferredStart)) {
+    return preferredStart;
+  }
+
+  // Candidate starts are 0 and the end of every taken range
+  const candidates = [0, ...taken.map((t) => t.start + t.share)].sort(
+    (a, b) => a - b,
+  );
+  for (const start of candidates) {
+    if (fits(start)) return start;
+  }
+  return null;
+}
+
+/**
+ * Place an experiment in a layer, returning the start slot it should use
+ * Ranges of the layer's other experiments (in any status) are left alone.
+ */
+export function placeInLayer(
+  experiments: Experiment[],
+  experimentId: string | null,
+  layerId: string,
+  share: number,
+): { start: number } | { error: string } {
+  if (!isValidLayerShare(share)) {
+    return { error: "Layer share must be a whole number from 1 to 100" };
+  }
+
+  const current = experiments.find((e) => e.id === experimentId);
+  const taken = experiments
+    .filter((e) => e.layerId === layerId && e.id !== experimentId)
+    .map((e) => ({ start: e.layerStart, share: e.layerShare }));
+
+  const start = findLayerRange(
+    taken,
+    share,
+    current?.layerId === layerId ? current.layerStart : undefined,
+  );
+  if (start === null) {
+    return {
+      error: `Not enough unallocated traffic in this layer for ${share}%`,
+    };
+  }
+  return { start };
+}
+
+/**
+ * Validate a requested layer placement for an experiment
+ * `layerId` null takes the experiment out of its layer. Returns the
+ * columns to store, or an error with the HTTP status to respond with.
+ */
+export function resolveLayerPlacement(
+  db: Database.Database,
+  projectId: string,
+  experimentId: string | null,
+  layerId: unknown,
+  share: unknown,
+):
+  | { layerId: string | null; layerStart: number; layerShare: number }
+  | { error: string; status: number } {
+  if (layerId === null) {
+    return { layerId: null, layerStart: 0, layerShare: LAYER_SLOTS };
+  }
+  if (typeof layerId !== "string" || !getLayer(db, projectId, layerId)) {
+    return { error: "Layer not found", status: 400 };
+  }
+  if (!isValidLayerShare(share)) {
+    return {
+      error: "Layer share must be a whole number from 1 to 100",
+      status: 400,
+    };
+  }
+
+  const placed = placeInLayer(
+    getExperiments(db, projectId),
+    experimentId,
+    layerId,
+    share,
+  );
+  if ("error" in placed) {
+    return { error: placed.error, status: 409 };
+  }
+
+  return { layerId, layerStart: placed.start, layerShare: share };
+}
+
+/**
+ * Load a project's layers with how much of each is allocated
+ */
+export function getLayersWithOccupancy(
+  db: Database.Database,
+  projectId: string,
+  experiments: Experiment[],
+): LayerWithOccupancy[] {
+  return getLayers(db, projectId).map((layer) => {
+    const members = experiments
+      .filter((e) => e.layerId === layer.id)
+      .sort((a, b) => a.layerStart - b.layerStart)
+      .map((e) => ({
+        id: e.id,
+        key: e.key,
+        name: e.name,
+        status: e.status,
+        layerStart: e.layerStart,
+        layerShare: e.layerShare,
+      }));
+    const allocated = members.reduce((sum, e) => sum + e.layerShare, 0);
+
+    return {
+      ...layer,
+      allocated,
+      unallocated: LAYER_SLOTS - allocated,
+      experiments: members,
+    };
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * Preview Links
+ * Signed, expiring links that open a project's site with a variation
+ * forced, so reviewers can see each variation without touching devtools
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Experiment } from "./types";
+
+export const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * URL parameter (and session cookie) the embed script reads overrides from
+ */
+export const FORCE_PARAM = "optim_force";
+
+export interface PreviewPayload {
+  projectId: string;
+  experimentId: string;
+  variation: string;
+  /** Expiry as a Unix timestamp in milliseconds */
+  expiresAt: number;
+}
+
+let fallbackSecret: string | null = null;
+
+/**
+ * Signing secret from PREVIEW_SECRET
+ * Without it a per-process secret is used, so links stop working on restart
+ */
+function getSecret(): string {
+  if (process.env.PREVIEW_SECRET) return process.env.PREVIEW_SECRET;
+  if (!fallbackSecret) {
+    console.warn(
+      "PREVIEW_SECRET is not set; preview links will expire on restart",
+    );
+    fallbackSecret = randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+/**
+ * Create a token of the form `<payload>.<signature>`
+ */
+export function createPreviewToken(payload: PreviewPayload): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verify a token's signature and decode it
+ * Returns null for malformed or tampered tokens; expiry is left to the
+ * caller so it can report it separately
+ */
+export function verifyPreviewToken(token: string): PreviewPayload | null {
+  const [data, signature, ...rest] = token.split(".");
+  if (!data || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString());
+    if (
+      typeof payload?.projectId !== "string" ||
+      typeof payload.experimentId !== "string" ||
+      typeof payload.variation !== "string" ||
+      typeof payload.expiresAt !== "number"
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Page an experiment runs on, for opening its preview: the control's URL
+ * of a split-URL test, or its first page with the wildcards dropped, so
+ * "/checkout/*" opens "/checkout/"; the home page for experiments that
+ * run everywhere
+ */
+export function previewPage(
+  experiment: Pick<Experiment, "variations" | "pages">,
+): string {
+  const control = experiment.variations[0]?.url;
+  if (control) return control;
+  const page =
+    experiment.pages.find((p) => !p.includes("*")) ?? experiment.pages[0];
+  return page ? page.replace(/\*/g, "") : "/";
+}
+
+/**
+ * URL of a page of the project's site with an experiment's variation
+ * forced; an absolute page URL is used as is
+ * Domains are stored without a scheme unless the user typed one
+ */
+export function buildForceUrl(
+  domain: string,
+  page: string,
+  experimentKey: string,
+  variation: string,
+): string {
+  const base = /^https?:\/\//i.test(domain) ? domain : `https://${domain}`;
+  const url = new URL(page, base);
+  url.searchParams.set(FORCE_PARAM, `${experimentKey}:${variation}`);
+  return url.toString();
+}
@@ -0,0 +1,216 @@
+/**
+ * Project Data Access Helpers
+ * Shared row mapping and stats aggregation for the project API routes
+ */
+
+import type Database from "better-sqlite3";
+import { DEFAULT_CONSENT_MODE, isConsentMode } from "./consent";
+import { parseStoredDomains } from "./domains";
+import { DEFAULT_IDENTITY_STRATEGY, isIdentityStrategy } from "./identity";
+import { isHashVersion, LEGACY_HASH_VERSION } from "./hash";
+import { getScheduleState } from "./schedule";
+import { parseStoredTargeting } from "./targeting";
+import type { Project, ProjectStats, ScheduleState } from "./types";
+
+/**
+ * Columns selected for a project row
+ */
+export const PROJECT_COLUMNS =
+  "id, name, domain, allowed_domains, description, exposure, targeting, bucket_epoch, hash_version, starts_at, ends_at, max_visitors, anti_flicker_timeout, anti_flicker_selector, consent_mode, consent_tcf, identity_strategy, cookie_domain, cookie_days, is_active, created_at, updated_at";
+
+/**
+ * Raw project row as stored in SQLite
+ */
+export interface ProjectRow {
+  id: string;
+  name: string;
+  domain: string;
+  allowed_domains: string | null;
+  description: string | null;
+  exposure: number;
+  targeting: string | null;
+  bucket_epoch: number;
+  hash_version: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  max_visitors: number | null;
+  anti_flicker_timeout: number;
+  anti_flicker_selector: string | null;
+  consent_mode: string;
+  consent_tcf: number;
+  identity_strategy: string;
+  cookie_domain: string | null;
+  cookie_days: number;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Convert a database row into a Project
+ */
+export function mapProjectRow(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    domain: row.domain,
+    allowedDomains: parseStoredDomains(row.allowed_domains),
+    description: row.description,
+    exposure: row.exposure,
+    targeting: parseStoredTargeting(row.targeting),
+    bucketEpoch: row.bucket_epoch,
+    hashVersion: isHashVersion(row.hash_version)
+      ? row.hash_version
+      : LEGACY_HASH_VERSION,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    maxVisitors: row.max_visitors,
+    antiFlickerTimeout: row.anti_flicker_timeout,
+    antiFlickerSelector: row.anti_flicker_selector,
+    consentMode: isConsentMode(row.consent_mode)
+      ? row.consent_mode
+      : DEFAULT_CONSENT_MODE,
+    consentTcf: row.consent_tcf === 1,
+    identityStrategy: isIdentityStrategy(row.identity_strategy)
+      ? row.identity_strategy
+      : DEFAULT_IDENTITY_STRATEGY,
+    cookieDomain: row.cookie_domain,
+    cookieDays: row.cookie_days,
+    isActive: row.is_active === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Load a single project by ID
+ */
+export function getProject(
+  db: Database.Database,
+  id: string,
+): Project | undefined {
+  const row = db
+    .prepare(`SELECT ${PROJECT_COLUMNS} FROM projects WHERE id = ?`)
+    .get(id) as ProjectRow | undefined;
+
+  return row ? mapProjectRow(row) : undefined;
+}
+
+/**
+ * Count visitor events across all experiments of a project, plus
+ * eligible vs. enrolled visitors for the traffic exposure, visitors
+ * excluded by the targeting and anti-flicker timeouts
+ */
+export function getProjectStats(
+  db: Database.Database,
+  projectId: string,
+): ProjectStats {
+  const events = db
+    .prepare(
+      `
+      SELECT COUNT(*) as count, COUNT(DISTINCT visitor_id) as visitors
+      FROM visitor_events
+      WHERE project_id = ?
+    `,
+    )
+    .get(projectId) as { count: number; visitors: number };
+
+  const traffic = db
+    .prepare(
+      `
+      SELECT status, COUNT(DISTINCT visitor_id) as visitors
+      FROM traffic_events
+      WHERE project_id = ?
+      GROUP BY status
+    `,
+    )
+    .all(projectId) as Array<{ status: string; visitors: number }>;
+
+  const countStatus = (status: string) =>
+    traffic.find((t) => t.status === status)?.visitors ?? 0;
+
+  const antiFlicker = db
+    .prepare(
+      `
+      SELECT COUNT(*) as views,
+        COALESCE(SUM(outcome = 'timeout'), 0) as timeouts
+      FROM anti_flicker_events
+      WHERE project_id = ?
+    `,
+    )
+    .get(projectId) as { views: number; timeouts: number };
+
+  return {
+    totalVisitors: events.count,
+    eligibleVisitors: events.visitors + countStatus("holdout"),
+    enrolledVisitors: events.visitors,
+    ineligibleVisitors: countStatus("ineligible"),
+    antiFlickerViews: antiFlicker.views,
+    antiFlickerTimeouts: antiFlicker.timeouts,
+  };
+}
+
+// Enrolled visitor counts are reused for this long, so the cap can be
+// overshot by the visitors enrolled in between
+const ENROLLED_COUNT_TTL_MS = 10 * 1000;
+
+const enrolledCounts = new Map<
+  string,
+  { visitors: number; countedAt: number }
+>();
+
+/**
+ * Distinct visitors enrolled in any of a project's experiments
+ */
+export function countEnrolledVisitors(
+  db: Database.Database,
+  projectId: string,
+): number {
+  const row = db
+    .prepare(
+      "SELECT COUNT(DISTINCT visitor_id) as visitors FROM visitor_events WHERE project_id = ?",
+    )
+    .get(projectId) as { visitors: number };
+  return row.visitors;
+}
+
+/**
+ * Whether a visitor is enrolled in any of a project's experiments
+ */
+export function isEnrolledVisitor(
+  db: Database.Database,
+  projectId: string,
+  visitorId: string,
+): boolean {
+  return (
+    db
+      .prepare(
+        "SELECT 1 FROM visitor_events WHERE project_id = ? AND visitor_id = ? LIMIT 1",
+      )
+      .get(projectId, visitorId) !== undefined
+  );
+}
+
+/**
+ * A project's schedule state right now
+ * Enrolled visitors are only counted when the project has a visitor cap,
+ * and at most every ENROLLED_COUNT_TTL_MS since every hit checks the state.
+ */
+export function getProjectScheduleState(
+  db: Database.Database,
+  project: Project,
+  now: Date = new Date(),
+): ScheduleState {
+  const state = getScheduleState(project, 0, now);
+  if (state !== "live" || project.maxVisitors === null) return state;
+
+  let cached = enrolledCounts.get(project.id);
+  if (!cached || now.getTime() - cached.countedAt >= ENROLLED_COUNT_TTL_MS) {
+    cached = {
+      visitors: countEnrolledVisitors(db, project.id),
+      countedAt: now.getTime(),
+    };
+    enrolledCounts.set(project.id, cached);
+  }
+  return getScheduleState(project, cached.visitors, now);
+}
@@ -0,0 +1,147 @@
+/**
+ * Project Scheduling
+ * Whether a project is running given its manual toggle, start and end
+ * times and visitor cap, plus formatting for the dashboard's countdowns
+ */
+
+import type { Project, ScheduleState } from "./types";
+
+export type ScheduleFields = Pick<
+  Project,
+  "isActive" | "startsAt" | "endsAt" | "maxVisitors"
+>;
+
+/**
+ * Why a project that isn't live serves no script and records no events
+ */
+export const NOT_RUNNING_MESSAGES: Record<
+  Exclude<ScheduleState, "live">,
+  string
+> = {
+  inactive: "Project is inactive",
+  scheduled: "Project hasn't started yet",
+  ended: "Project has ended",
+  capped: "Project reached its visitor cap",
+};
+
+export const SCHEDULE_STATE_LABELS: Record<ScheduleState, string> = {
+  inactive: "Inactive",
+  scheduled: "Scheduled",
+  live: "Live",
+  ended: "Ended",
+  capped: "Cap reached",
+};
+
+/**
+ * Whether a project in this state serves its script and records events
+ * A capped project keeps running for the visitors it enrolled before the
+ * cap, so their results stay complete; only new enrollments are refused.
+ */
+export function isRunning(state: ScheduleState): state is "live" | "capped" {
+  return state === "live" || state === "capped";
+}
+
+/**
+ * A project's schedule state at `now`
+ * The manual toggle wins, then the time window, then the visitor cap.
+ * `enrolledVisitors` is only compared when a cap is set.
+ */
+export function getScheduleState(
+  project: ScheduleFields,
+  enrolledVisitors: number,
+  now: Date = new Date(),
+): ScheduleState {
+  if (!project.isActive) return "inactive";
+  if (project.startsAt && now < new Date(project.startsAt)) return "scheduled";
+  if (project.endsAt && now >= new Date(project.endsAt)) return "ended";
+  if (project.maxVisitors !== null && enrolledVisitors >= project.maxVisitors) {
+    return "capped";
+  }
+  return "live";
+}
+
+/**
+ * Milliseconds until the schedule changes state on its own, or null if
+ * only the visitor cap or a manual toggle can change it
+ */
+export function msUntilNextChange(
+  project: ScheduleFields,
+  now: Date = new Date(),
+): number | null {
+  if (!project.isActive) return null;
+  const times = [project.startsAt, project.endsAt]
+    .filter((t): t is string => t !== null)
+    .map((t) => new Date(t).getTime() - now.getTime())
+    .filter((ms) => ms > 0);
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * Format a duration as its two largest units, e.g. "2d 4h" or "5m 10s"
+ */
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const units: Array<[string, number]> = [
+    ["d", Math.floor(total / 86400)],
+    ["h", Math.floor(total / 3600) % 24],
+    ["m", Math.floor(total / 60) % 60],
+    ["s", total % 60],
+  ];
+  const first = units.findIndex(([, value]) => value > 0);
+  if (first === -1) return "0s";
+  return units
+    .slice(first, first + 2)
+    .filter(([, value]) => value > 0)
+    .map(([unit, value]) => `${value}${unit}`)
+    .join(" ");
+}
+
+/**
+ * Validate schedule fields from user input
+ * Times must be ISO 8601 strings (or null) and are normalized to UTC;
+ * `maxVisitors` is a positive whole number or null. Fields left undefined
+ * keep their current value when checking that the end is after the start.
+ */
+export function parseSchedule(
+  input: { startsAt?: unknown; endsAt?: unknown; maxVisitors?: unknown },
+  current: Pick<Project, "startsAt" | "endsAt">,
+):
+  | Partial<Pick<Project, "startsAt" | "endsAt" | "maxVisitors">>
+  | { error: string } {
+  const result: Partial<Pick<Project, "startsAt" | "endsAt" | "maxVisitors">> =
+    {};
+
+  for (const field of ["startsAt", "endsAt"] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value === null) {
+      result[field] = null;
+      continue;
+    }
+    const time = typeof value === "string" ? new Date(value) : null;
+    if (!time || Number.isNaN(time.getTime())) {
+      return { error: `${field} must be an ISO 8601 date or null` };
+    }
+    result[field] = time.toISOString();
+  }
+
+  const startsAt =
+    result.startsAt !== undefined ? result.startsAt : current.startsAt;
+  const endsAt = result.endsAt !== undefined ? result.endsAt : current.endsAt;
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return { error: "endsAt must be after startsAt" };
+  }
+
+  if (input.maxVisitors !== undefined) {
+    const value = input.maxVisitors;
+    if (
+      value !== null &&
+      !(typeof value === "number" && Number.isInteger(value) && value >= 1)
+    ) {
+      return { error: "maxVisitors must be a positive whole number or null" };
+    }
+    result.maxVisitors = value;
+  }
+
+  return result;
+}
@@ -0,0 +1,190 @@
+/**
+ * Script Bundles
+ * What the served embed script needs for each project, shared by the
+ * single-project and bundled script endpoints, and how the script and the
+ * runtime it loads are cached
+ */
+
+import { createHash } from "crypto";
+import type Database from "better-sqlite3";
+import { NextResponse } from "next/server";
+import { refreshBanditAllocations } from "./bandit";
+import { getExperiments } from "./experiments";
+import { getFlags } from "./flags";
+import { getProject, getProjectScheduleState } from "./projects";
+import { isRunning, msUntilNextChange, NOT_RUNNING_MESSAGES } from "./schedule";
+import { generateRuntimeScript } from "./script-generator";
+import type { Experiment, FeatureFlag, Project } from "./types";
+
+// The embed script only carries configs, so it can expire quickly: caches
+// revalidate it with its ETag, serving the stale copy meanwhile
+export const SCRIPT_MAX_AGE = 60;
+export const SCRIPT_STALE_WHILE_REVALIDATE = 3600;
+export const NO_CACHE = "no-cache, no-store, must-revalidate";
+export const MAX_BUNDLE_PROJECTS = 20;
+
+// A runtime URL names its content, so it never changes
+const RUNTIME_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// Project IDs as generated, so a requested ID is safe in a comment
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * A project as its script serves it: live with what the script runs, or
+ * why it isn't running
+ */
+export type ScriptEntry =
+  | {
+      live: true;
+      project: Project;
+      experiments: Experiment[];
+      flags: FeatureFlag[];
+      /** Past its visitor cap: only visitors enrolled before it take part */
+      capped: boolean;
+    }
+  | { live: false; projectId: string; message: string };
+
+/**
+ * Load a project for its script; null if it doesn't exist
+ */
+export function loadScriptEntry(
+  db: Database.Database,
+  id: string,
+): ScriptEntry | null {
+  const project = getProject(db, id);
+  if (!project) return null;
+
+  const state = getProjectScheduleState(db, project);
+  if (!isRunning(state)) {
+    return {
+      live: false,
+      projectId: project.id,
+      message: NOT_RUNNING_MESSAGES[state],
+    };
+  }
+
+  return {
+    live: true,
+    project,
+    experiments: refreshBanditAllocations(db, getExperiments(db, project.id)),
+    flags: getFlags(db, project.id),
+    capped: state === "capped",
+  };
+}
+
+/**
+ * Cache-Control for the embed script of live projects: fresh for a
+ * minute, then served stale while revalidating for up to an hour, neither
+ * past the first of their scheduled ends so a project stops on time
+ */
+export function scriptCacheControl(projects: Project[]): string {
+  let untilChange = Infinity;
+  for (const project of projects) {
+    const ms = msUntilNextChange(project);
+    if (ms !== null) untilChange = Math.min(untilChange, Math.floor(ms / 1000));
+  }
+  const maxAge = Math.min(SCRIPT_MAX_AGE, untilChange);
+  const stale = Math.min(SCRIPT_STALE_WHILE_REVALIDATE, untilChange - maxAge);
+  return stale > 0
+    ? `public, max-age=${maxAge}, stale-while-revalidate=${stale}`
+    : `public, max-age=${maxAge}`;
+}
+
+function contentHash(content: string): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+let runtime: { script: string; hash: string } | null = null;
+
+/**
+ * The runtime script and the hash of its content, generated once per
+ * process
+ */
+export function getRuntime(): { script: string; hash: string } {
+  if (!runtime) {
+    const script = generateRuntimeScript();
+    runtime = { script, hash: contentHash(script) };
+  }
+  return runtime;
+}
+
+/**
+ * URL the embed script loads the current runtime from
+ */
+export function getRuntimeUrl(apiEndpoint: string): string {
+  return `${apiEndpoint}/api/runtime/${getRuntime().hash}.js`;
+}
+
+/**
+ * Whether an If-None-Match header lists the ETag
+ */
+function matchesETag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === etag || tag === "*");
+}
+
+/**
+ * Build a JavaScript response tagged with an ETag of its content, or an
+ * empty 304 when the request already has it; never an error status, so the
+ * client site doesn't break
+ */
+export function scriptResponse(
+  request: Request,
+  script: string,
+  cacheControl: string,
+  etag = `"${contentHash(script)}"`,
+): NextResponse {
+  const headers = {
+    "Content-Type": "application/javascript",
+    "Cache-Control": cacheControl,
+    ETag: etag,
+    "Access-Control-Allow-Origin": "*", // Allow cross-origin requests
+  };
+  if (matchesETag(request.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(script, { status: 200, headers });
+}
+
+/**
+ * Serve the runtime for a requested "<hash>.js" file
+ * A hash other than the current one, from an embed script cached before a
+ * deploy, still gets the current runtime, just not cached for good.
+ */
+export function runtimeResponse(request: Request, file: string): NextResponse {
+  const { script, hash } = getRuntime();
+  return scriptResponse(
+    request,
+    script,
+    file === `${hash}.js` ? RUNTIME_CACHE_CONTROL : "no-cache",
+    `"${hash}"`,
+  );
+}
+
+/**
+ * Parse a bundle's comma-separated project IDs, deduplicated in order
+ */
+export function parseBundleIds(
+  value: string | null,
+): { ids: string[] } | { error: string } {
+  const ids = [
+    ...new Set(
+      (value ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    ),
+  ];
+  if (ids.length === 0 || ids.length > MAX_BUNDLE_PROJECTS) {
+    return {
+      error: `ids must list 1-${MAX_BUNDLE_PROJECTS} comma-separated project IDs`,
+    };
+  }
+  if (!ids.every((id) => PROJECT_ID_PATTERN.test(id))) {
+    return { error: "ids must be project IDs" };
+  }
+  return { ids };
+}
@@ -3,115 +3,1410 @@
  * Generates the JavaScript code that clients paste into their websites
  */
 
+import { withAllocatedWeights } from "./bandit";
+import { TCF_PURPOSES } from "./consent";
+import { toClientFlag } from "./flags";
+import { getAllowedDomains } from "./domains";
+import {
+  HTML_ATTRIBUTES,
+  HTML_TAGS,
+  URL_ATTRIBUTES,
+  URL_SCHEMES,
+} from "./dom-changes";
+import { HASH_VERSIONS, hashFunctionSource } from "./hash";
+import type { ClientConfig, Experiment, FeatureFlag, Project } from "./types";
+
 /**
- * Generate the embed script for a project
- * The script is an IIFE (Immediately Invoked Function Expression) that:
- * 1. Creates/retrieves a unique visitor ID
- * 2. Assigns a variation deterministically using hash
- * 3. Applies the variation (URL param or DOM modification)
- * 4. Tracks the assignment via image beacon
+ * Build the config clients assign visitors from
+ * Shared by the embed script and the SDK config endpoint
  */
-export function generateEmbedScript(
-  projectId: string,
+export function buildClientConfig(
+  project: Pick<
+    Project,
+    "id" | "exposure" | "targeting" | "bucketEpoch" | "hashVersion"
+  >,
+  experiments: Experiment[],
+  flags: FeatureFlag[],
+): ClientConfig {
+  return {
+    projectId: project.id,
+    exposure: project.exposure,
+    targeting: project.targeting,
+    bucketEpoch: project.bucketEpoch,
+    hashVersion: project.hashVersion,
+    experiments: experiments
+      .filter((e) => e.status === "running" || e.status === "shipped")
+      .map(withAllocatedWeights)
+      .map((e) => ({
+        id: e.id,
+        key: e.key,
+        variations: e.variations.map((v) =>
+          v.url
+            ? { key: v.key, weight: v.weight, url: v.url }
+            : { key: v.key, weight: v.weight },
+        ),
+        layer: e.layerId
+          ? { id: e.layerId, start: e.layerStart, share: e.layerShare }
+          : null,
+        winner: e.status === "shipped" ? e.winner : null,
+        pages: e.pages,
+        funnel: e.funnel.map((step) => step.path),
+        changes: e.changes,
+      })),
+    flags: flags.map(toClientFlag),
+  };
+}
+
+/**
+ * A project to generate the embed script for, with what it serves
+ */
+export interface EmbedProject {
+  project: Pick<
+    Project,
+    | "id"
+    | "domain"
+    | "allowedDomains"
+    | "exposure"
+    | "targeting"
+    | "bucketEpoch"
+    | "hashVersion"
+    | "consentMode"
+    | "consentTcf"
+    | "identityStrategy"
+    | "cookieDomain"
+    | "cookieDays"
+  >;
+  experiments: Experiment[];
+  flags: FeatureFlag[];
+  /** Past its visitor cap: only visitors enrolled before it take part */
+  capped: boolean;
+}
+
+/**
+ * Serialize a project's script config as JSON so no value is concatenated
+ * into code; "<" is escaped so HTML in a variation's changes can't end a
+ * script tag
+ */
+function serializeEmbedConfig(
+  { project, experiments, flags, capped }: EmbedProject,
   apiEndpoint: string,
 ): string {
-  // Minified version of the script with project-specific config
+  return JSON.stringify({
+    ...buildClientConfig(project, experiments, flags),
+    capped,
+    api: apiEndpoint,
+    domains: getAllowedDomains(project),
+    consent: {
+      mode: project.consentMode,
+      tcf: project.consentTcf ? TCF_PURPOSES : null,
+    },
+    identity: {
+      strategy: project.identityStrategy,
+      domain: project.cookieDomain,
+      days: project.cookieDays,
+    },
+  }).replace(/</g, "\\u003c");
+}
+
+/**
+ * Generate the runtime shared by every project's embed script
+ * The runtime is an IIFE (Immediately Invoked Function Expression) that,
+ * for each project config the embed scripts queue:
+ * 1. Creates/retrieves a unique visitor ID
+ * 2. Assigns a variation per running experiment, using hash and weights
+ * 3. Applies the variations (URL param or DOM modification)
+ * 4. Tracks each assignment via image beacon
+ *
+ * Visitors not matching the project's targeting rules are ineligible and
+ * visitors outside its traffic exposure are held out: both see
+ * the default experience and are only counted, not assigned. Within a
+ * layer, a visitor is only assigned to the experiment owning their slot.
+ *
+ * The first running or shipped experiment is the primary one: it drives
+ * the legacy `data-optim-variation` attribute and unscoped
+ * `data-optim-show` elements.
+ *
+ * Shipped experiments apply their winner to every visitor, enrolled or
+ * not, and are never tracked.
+ *
+ * Split-URL tests, whose variations each have a URL, only run on those
+ * pages. The script decides as soon as it loads and sends a visitor on the
+ * wrong page to their variation's URL with `location.replace`, keeping the
+ * query string and hash. The exposure is sent by `sendBeacon` first, and
+ * the visitor ID rides along as `?optim_vid=` so conversions on the
+ * destination count; a page reached that way never redirects again.
+ *
+ * Each variation's page changes (text, HTML, attributes, CSS, hiding and
+ * moving elements by selector) come from the config as data: CSS and
+ * hiding are applied right away, the rest once the DOM is ready.
+ *
+ * Experiments with pages only run on paths matching them. On a page
+ * matching one of an experiment's funnel steps, the script records the
+ * step for enrolled visitors.
+ *
+ * The visitor ID is kept in localStorage or, with the cookie identity
+ * strategy, in a first-party cookie on the configured parent domain so
+ * subdomains share it. An ID found only in the other storage is moved
+ * over, and when the preferred storage is blocked the other one is used.
+ *
+ * Each visitor's first variation per experiment is kept in localStorage
+ * and honored after weight or variation changes, until the project is
+ * re-bucketed. Once the project reaches its visitor cap, visitors the
+ * server doesn't have enrolled are held out; when the browser has no
+ * stored variation it asks /api/enrollment before deciding.
+ *
+ * A decision made on the server (POST /api/decide) and rendered as
+ * `window.__OPTIMELEON_BOOTSTRAP__` replaces the browser's own assignment.
+ *
+ * For QA, `?optim_force=<target>:<variation>` forces a variation for the
+ * rest of the browser session. Forced sessions are flagged on the beacon
+ * and not recorded.
+ *
+ * Feature flags are evaluated for every visitor, enrolled or not, against
+ * their own targeting and rollout, and exposed as
+ * `window.__OPTIMELEON__.flags`.
+ *
+ * The script only runs on the project's domains (lib/domains.ts).
+ * Anywhere else it reports the hostname with `rj=` and does nothing more.
+ *
+ * With a consent mode, nothing is stored or sent until the visitor
+ * consents through `window.__OPTIMELEON__.consent(true)`,
+ * `window.__OPTIMELEON_CONSENT__` or a TCF v2 CMP. In "wait" mode the
+ * script does nothing until then; in "assign" mode it applies variations
+ * with an ID kept in memory and queues the beacons, which are sent once
+ * consent is granted and dropped if it's denied. A grant is remembered in
+ * localStorage; withdrawing it removes what the script stored.
+ *
+ * Once the variations are applied, the script tells the anti-flicker
+ * snippet (if installed) to show the page. It doesn't while redirecting.
+ *
+ * In single-page apps, a `pushState`, `replaceState` or `popstate` that
+ * changes the path or query is a virtual pageview: the script decides
+ * again for the new URL, removes what no longer applies, re-applies the
+ * rest and tracks it like a page load. Elements rendered later get their
+ * variation's changes as they appear. `window.__OPTIMELEON__.refresh()`
+ * triggers a virtual pageview by hand.
+ *
+ * The projects share the hash functions, the visitor ID and the beacon
+ * batches, and each keeps its own `window.__OPTIMELEON__[projectId]`
+ * guard, so a project embedded twice only runs once. Beacons queued in the
+ * same tick go out together: a single hit as an image, several as one
+ * `sendBeacon` POST to /api/track with a hit per line. Beacons sent while
+ * leaving the page always use `sendBeacon`, which outlives it.
+ *
+ * It holds no project data, so it is served under a hash of its content
+ * and cached for good (lib/script-bundle.ts).
+ */
+export function generateRuntimeScript(): string {
+  const hashes = HASH_VERSIONS.map(
+    (version) => `${version}:${hashFunctionSource(version)}`,
+  ).join(",");
+
+  // Minified runtime, run for each queued project config
   return `(function(){
-  var O=window.__OPTIMELEON__=window.__OPTIMELEON__||{};
-  if(O["${projectId}"])return;
-  O["${projectId}"]=true;
+  // Bucketing hashes by version, emitted from lib/hash.ts
+  var HASHES={${hashes}};
   
-  var config={
-    projectId:"${projectId}",
-    api:"${apiEndpoint}"
-  };
+  var batch=[],scheduled=false;
   
-  function getVisitorId(){
-    var k="optim_vid";
+  function image(url){
     try{
-      var id=localStorage.getItem(k);
-      if(!id){
-        id="v_"+Date.now().toString(36)+Math.random().toString(36).substr(2,9);
-        localStorage.setItem(k,id);
-      }
-      return id;
-    }catch(e){
-      return "v_"+Date.now().toString(36)+Math.random().toString(36).substr(2,9);
-    }
+      var img=new Image();
+      img.src=url;
+    }catch(e){}
   }
   
-  function hash(s){
-    var h=5381;
-    for(var i=0;i<s.length;i++){
-      h=(h*33)^s.charCodeAt(i);
+  // Send the queued hits, grouped by endpoint
+  function flush(leaving){
+    var hits=batch,groups={},bases=[],i;
+    batch=[];
+    scheduled=false;
+    for(i=0;i<hits.length;i++){
+      var at=hits[i].indexOf("?"),base=hits[i].slice(0,at);
+      if(!groups[base]){
+        groups[base]=[];
+        bases.push(base);
+      }
+      groups[base].push(hits[i].slice(at+1));
+    }
+    for(i=0;i<bases.length;i++){
+      var lines=groups[bases[i]];
+      try{
+        if((leaving||lines.length>1)&&navigator.sendBeacon&&navigator.sendBeacon(bases[i],lines.join("\\n")))continue;
+      }catch(e){}
+      for(var j=0;j<lines.length;j++)image(bases[i]+"?"+lines[j]);
     }
-    return h>>>0;
   }
   
-  function getVariation(vid,pid){
-    var vars=["A","B","C","D"];
-    return vars[hash(vid+":"+pid)%4];
+  function send(url,leaving){
+    batch.push(url);
+    if(leaving){
+      flush(true);
+    }else if(!scheduled){
+      scheduled=true;
+      setTimeout(function(){
+        flush(false);
+      },0);
+    }
   }
   
-  function applyVariation(v){
-    // Add data attribute to document for CSS targeting
-    document.documentElement.setAttribute("data-optim-variation",v);
+  function project(config){
+    var O=window.__OPTIMELEON__=window.__OPTIMELEON__||{};
+    if(O[config.projectId])return;
+    O[config.projectId]=true;
     
-    // Show/hide elements based on data-optim-show attribute
-    var els=document.querySelectorAll("[data-optim-show]");
-    for(var i=0;i<els.length;i++){
-      var el=els[i];
-      var showFor=el.getAttribute("data-optim-show");
-      if(showFor&&showFor.indexOf(v)===-1){
-        el.style.display="none";
+    var returning=false;
+    
+    // Let the anti-flicker snippet show the page, if it's installed
+    function reveal(){
+      var af=O.antiFlicker&&O.antiFlicker[config.projectId];
+      if(af)try{af(false);}catch(e){}
+    }
+    
+    // Must match isAllowedHost in lib/domains.ts
+    function hostAllowed(host){
+      if(!config.domains.length)return true;
+      host=host.toLowerCase().replace(/\\.$/,"");
+      for(var i=0;i<config.domains.length;i++){
+        var d=config.domains[i];
+        if(d==="localhost"){
+          if(host==="localhost"||host==="127.0.0.1"||host==="[::1]"||host==="::1")return true;
+        }else if(d.indexOf("*.")===0){
+          if(host.length>d.length-1&&host.slice(1-d.length)===d.slice(1))return true;
+        }else if(host===d||host==="www."+d){
+          return true;
+        }
       }
+      return false;
     }
     
-    // Update URL parameter (optional, for analytics tools)
-    if(window.location.search.indexOf("variation=")===-1){
-      var sep=window.location.search?"&":"?";
-      var newUrl=window.location.href+sep+"variation="+v;
+    // Someone copied the script to a site that isn't the project's: report
+    // it and leave the page alone
+    if(!hostAllowed(window.location.hostname)){
+      console.warn("[Optimeleon] "+window.location.hostname+" isn't one of this project's domains");
+      send(config.api+"/api/track?p="+encodeURIComponent(config.projectId)+"&rj="+encodeURIComponent(window.location.hostname)+"&t="+Date.now());
+      reveal();
+      return;
+    }
+    
+    // "granted" when the project doesn't wait for consent or the visitor gave
+    // it on an earlier page, otherwise "pending" until granted or "denied"
+    var CONSENT_KEY="optim_consent";
+    var consent="granted",queue=[];
+    if(config.consent.mode!=="off"){
+      consent="pending";
       try{
-        window.history.replaceState({},"",newUrl);
+        if(localStorage.getItem(CONSENT_KEY)==="1")consent="granted";
       }catch(e){}
     }
-  }
-  
-  function track(vid,v){
-    try{
-      var img=new Image();
-      img.src=config.api+"/api/track?v="+encodeURIComponent(vid)+"&p="+encodeURIComponent(config.projectId)+"&var="+v+"&t="+Date.now();
-    }catch(e){}
-  }
-  
-  function init(){
-    try{
-      var vid=getVisitorId();
-      var variation=getVariation(vid,config.projectId);
+    
+    // Run now with consent, once it's granted, or never if it's denied
+    function whenConsented(fn){
+      if(consent==="granted")fn();
+      else if(consent==="pending"&&queue.length<100)queue.push(fn);
+    }
+    
+    function newVisitorId(){
+      return "v_"+Date.now().toString(36)+Math.random().toString(36).substr(2,9);
+    }
+    
+    var VID_KEY="optim_vid";
+    var useCookie=config.identity.strategy==="cookie";
+    
+    // The configured parent domain, when this page is on it; otherwise the
+    // cookie stays on this host
+    function cookieScope(){
+      var d=config.identity.domain,host=window.location.hostname;
+      return d&&(host===d||host.slice(-d.length-1)==="."+d)?";domain="+d:"";
+    }
+    
+    function readCookie(){
+      try{
+        var m=document.cookie.match(/(?:^|;\\s*)optim_vid=([^;]+)/);
+        return m?decodeURIComponent(m[1]):null;
+      }catch(e){
+        return null;
+      }
+    }
+    
+    // Browsers drop blocked cookies silently, so read it back
+    function writeCookie(id){
+      try{
+        document.cookie=VID_KEY+"="+encodeURIComponent(id)+";path=/;max-age="+config.identity.days*86400+cookieScope()+";samesite=lax"+(window.location.protocol==="https:"?";secure":"");
+        return readCookie()===id;
+      }catch(e){
+        return false;
+      }
+    }
+    
+    function readLocal(){
+      try{
+        return localStorage.getItem(VID_KEY);
+      }catch(e){
+        return null;
+      }
+    }
+    
+    function writeLocal(id){
+      try{
+        localStorage.setItem(VID_KEY,id);
+        return true;
+      }catch(e){
+        return false;
+      }
+    }
+    
+    // The preferred storage first; an ID only found in the other one, e.g.
+    // from before switching to cookies, is moved over when it's stored
+    function readVisitorId(){
+      return useCookie?readCookie()||readLocal():readLocal()||readCookie();
+    }
+    
+    // Falls back to the other storage when the preferred one is blocked
+    function storeVisitorId(id){
+      if(useCookie?writeCookie(id):writeLocal(id))return;
+      if(useCookie)writeLocal(id);
+      else writeCookie(id);
+    }
+    
+    function clearVisitorId(){
+      try{
+        localStorage.removeItem(VID_KEY);
+      }catch(e){}
+      try{
+        document.cookie=VID_KEY+"=;path=/;max-age=0"+cookieScope();
+        document.cookie=VID_KEY+"=;path=/;max-age=0";
+      }catch(e){}
+    }
+    
+    // A preset ID (from a server decision) replaces the stored one. Without
+    // consent nothing is stored and the ID only lives in memory, shared by
+    // the projects on the page; so does an ID no storage accepts.
+    function getVisitorId(preset){
+      if(consent!=="granted")return preset||O.visitorId||newVisitorId();
+      var stored=readVisitorId();
+      if(stored)returning=true;
+      var id=preset||stored||O.visitorId||newVisitorId();
+      // Rewriting the cookie keeps it alive for its lifetime after the last
+      // visit; localStorage only needs writing when the ID changes
+      if(id!==stored||useCookie)storeVisitorId(id);
+      return id;
+    }
+    
+    // Variations the visitor got first, kept when weights or variations change.
+    // Dropped when the visitor ID changes or the project is re-bucketed.
+    function getSticky(vid){
+      if(consent!=="granted")return {};
+      try{
+        var s=JSON.parse(localStorage.getItem("optim_assign_"+config.projectId)||"null");
+        if(s&&s.v===vid&&s.e===config.bucketEpoch&&s.a)return s.a;
+      }catch(e){}
+      return {};
+    }
+    
+    function hasKeys(obj){
+      for(var k in obj){
+        if(Object.prototype.hasOwnProperty.call(obj,k))return true;
+      }
+      return false;
+    }
+    
+    // Kept until consent is granted
+    var unsaved=null;
+    function saveSticky(vid,sticky){
+      if(consent!=="granted"){
+        unsaved={vid:vid,sticky:sticky};
+        return;
+      }
+      try{
+        localStorage.setItem("optim_assign_"+config.projectId,JSON.stringify({v:vid,e:config.bucketEpoch,a:sticky}));
+      }catch(e){}
+    }
+    
+    // Past the visitor cap only visitors enrolled before it take part. The
+    // browser may not remember them, e.g. after a re-bucket or on another
+    // subdomain, so the server is asked (app/api/enrollment) before
+    // deciding; no answer within a second counts as not enrolled.
+    var enrollment=null;
+    function enrollmentToCheck(){
+      if(!config.capped||consent!=="granted"||getBootstrap())return null;
+      var vid=getCarriedId()||readVisitorId();
+      if(!vid||hasKeys(getSticky(vid))||(enrollment&&enrollment.vid===vid))return null;
+      return vid;
+    }
+    function checkEnrollment(vid,done){
+      var finished=false;
+      var finish=function(res){
+        if(finished)return;
+        finished=true;
+        enrollment={vid:vid,enrolled:!!(res&&res.enrolled===true),experiments:res&&res.experiments||{}};
+        done();
+      };
+      try{
+        var xhr=new XMLHttpRequest();
+        xhr.open("GET",config.api+"/api/enrollment?p="+encodeURIComponent(config.projectId)+"&v="+encodeURIComponent(vid));
+        xhr.timeout=1000;
+        xhr.onload=function(){
+          var res=null;
+          try{
+            if(xhr.status===200)res=JSON.parse(xhr.responseText);
+          }catch(e){}
+          finish(res);
+        };
+        xhr.onerror=xhr.ontimeout=function(){
+          finish(null);
+        };
+        xhr.send();
+      }catch(e){
+        finish(null);
+      }
+    }
+    
+    // Server decision for this project, a single object or an array of them
+    function getBootstrap(){
+      var b=window.__OPTIMELEON_BOOTSTRAP__;
+      if(!b)return null;
+      var list=Object.prototype.toString.call(b)==="[object Array]"?b:[b];
+      for(var i=0;i<list.length;i++){
+        if(list[i]&&list[i].projectId===config.projectId&&list[i].visitorId)return list[i];
+      }
+      return null;
+    }
+    
+    // The project's bucketing hash
+    var hash=HASHES[config.hashVersion];
+    
+    // Custom attributes pushed by the host page before the script runs:
+    // (window.__OPTIMELEON_ATTRIBUTES__=window.__OPTIMELEON_ATTRIBUTES__||[]).push({plan:"pro"})
+    function getAttributes(){
+      var src=window.__OPTIMELEON_ATTRIBUTES__,out={},i,k;
+      if(!src)return out;
+      var list=Object.prototype.toString.call(src)==="[object Array]"?src:[src];
+      for(i=0;i<list.length;i++){
+        for(k in list[i]){
+          if(Object.prototype.hasOwnProperty.call(list[i],k))out[k]=list[i][k];
+        }
+      }
+      return out;
+    }
+    
+    // Query parameters, first value wins like URLSearchParams.get
+    function getQuery(){
+      var out={},qs=window.location.search.replace(/^\\?/,"");
+      if(!qs)return out;
+      var parts=qs.split("&");
+      for(var i=0;i<parts.length;i++){
+        var eq=parts[i].indexOf("=");
+        var k=eq<0?parts[i]:parts[i].slice(0,eq),v=eq<0?"":parts[i].slice(eq+1);
+        try{
+          k=decodeURIComponent(k.replace(/\\+/g," "));
+          v=decodeURIComponent(v.replace(/\\+/g," "));
+        }catch(e){
+          continue;
+        }
+        if(!Object.prototype.hasOwnProperty.call(out,k))out[k]=v;
+      }
+      return out;
+    }
+    
+    // Must match detectDevice in lib/targeting.ts
+    function getDevice(){
+      var ua=navigator.userAgent||"";
+      if(/iPad|Tablet|Android(?!.*Mobile)/i.test(ua))return "tablet";
+      if(/Mobi|iPhone|iPod|Android/i.test(ua))return "mobile";
+      return "desktop";
+    }
+    
+    function ruleValue(rule,ctx){
+      var has=Object.prototype.hasOwnProperty,v;
+      switch(rule.attribute){
+        case "path":return window.location.pathname;
+        case "query":return has.call(ctx.query,rule.name)?ctx.query[rule.name]:null;
+        case "utm":return has.call(ctx.query,"utm_"+rule.name)?ctx.query["utm_"+rule.name]:null;
+        case "referrer":return document.referrer||"";
+        case "device":return getDevice();
+        case "language":return navigator.language||"";
+        case "visitor":return returning?"returning":"new";
+        case "custom":
+          v=has.call(ctx.attributes,rule.name)?ctx.attributes[rule.name]:null;
+          return v===null||v===undefined?null:String(v);
+      }
+      return null;
+    }
+    
+    // Must match matchesRule in lib/targeting.ts
+    function matchesRule(rule,ctx){
+      var actual=ruleValue(rule,ctx);
+      if(actual===null)return rule.operator==="not_equals";
+      switch(rule.operator){
+        case "equals":return actual===rule.value;
+        case "not_equals":return actual!==rule.value;
+        case "prefix":return actual.indexOf(rule.value)===0;
+        case "contains":return actual.indexOf(rule.value)!==-1;
+        case "regex":
+          try{
+            return new RegExp(rule.value).test(actual);
+          }catch(e){
+            return false;
+          }
+      }
+      return false;
+    }
+    
+    // All rules must match; no rules targets everyone
+    function matchesAll(rules,ctx){
+      for(var i=0;i<rules.length;i++){
+        if(!matchesRule(rules[i],ctx))return false;
+      }
+      return true;
+    }
+    
+    function isEligible(){
+      if(!config.targeting.length)return true;
+      return matchesAll(config.targeting,{query:getQuery(),attributes:getAttributes()});
+    }
+    
+    // Flag values by key, must match evaluateFlag in lib/decide.ts
+    function getFlags(vid){
+      var out={},ctx=null;
+      for(var i=0;i<config.flags.length;i++){
+        var f=config.flags[i];
+        var on=f.enabled&&(f.rollout>=100||hash(vid+":"+f.id)%100<f.rollout);
+        if(on&&f.targeting.length){
+          ctx=ctx||{query:getQuery(),attributes:getAttributes()};
+          on=matchesAll(f.targeting,ctx);
+        }
+        out[f.key]=on?f.value:f.defaultValue;
+      }
+      return out;
+    }
+    
+    // Independent hash so changing exposure doesn't reshuffle variations,
+    // must match isExposed in lib/variation.ts
+    function isExposed(vid){
+      if(config.exposure>=100)return true;
+      return hash(vid+":"+config.projectId+":exposure")%100<config.exposure;
+    }
+    
+    // One slot per visitor and layer, must match isInLayer in lib/variation.ts
+    function inLayer(vid,exp){
+      if(!exp.layer)return true;
+      var slot=hash(vid+":"+exp.layer.id)%100;
+      return slot>=exp.layer.start&&slot<exp.layer.start+exp.layer.share;
+    }
+    
+    // Weighted buckets, must match pickWeighted in lib/variation.ts
+    function getVariation(vid,exp){
+      var vars=exp.variations,total=0,i;
+      for(i=0;i<vars.length;i++)total+=vars[i].weight;
+      var bucket=hash(vid+":"+exp.id)%total;
+      for(i=0;i<vars.length;i++){
+        if(bucket<vars[i].weight)return vars[i].key;
+        bucket-=vars[i].weight;
+      }
+      return vars[vars.length-1].key;
+    }
+    
+    // Exact match against a comma-separated list of variation keys
+    function listHas(list,v){
+      var parts=list.split(",");
+      for(var i=0;i<parts.length;i++){
+        if(parts[i].replace(/^\\s+|\\s+$/g,"")===v)return true;
+      }
+      return false;
+    }
+    
+    function findExperiment(key){
+      for(var i=0;i<config.experiments.length;i++){
+        if(config.experiments[i].key===key)return config.experiments[i];
+      }
+      return null;
+    }
+    
+    function hasVariation(exp,v){
+      for(var i=0;i<exp.variations.length;i++){
+        if(exp.variations[i].key===v)return true;
+      }
+      return false;
+    }
+    
+    // QA override from ?optim_force=<target>:<variation>[,...], where target is
+    // the project ID (primary experiment) or an experiment key. Remembered in a
+    // session cookie; ?optim_force=off clears it.
+    function getForced(){
+      var raw,m=window.location.search.match(/[?&]optim_force=([^&]*)/);
+      try{
+        if(m){
+          raw=decodeURIComponent(m[1]);
+          if(raw==="off"){
+            document.cookie="optim_force=;path=/;max-age=0";
+            return null;
+          }
+          document.cookie="optim_force="+encodeURIComponent(raw)+";path=/";
+        }else{
+          var c=document.cookie.match(/(?:^|;\\s*)optim_force=([^;]*)/);
+          if(!c)return null;
+          raw=decodeURIComponent(c[1]);
+        }
+      }catch(e){
+        return null;
+      }
+      var forced={},found=false,parts=raw.split(",");
+      for(var i=0;i<parts.length;i++){
+        var at=parts[i].lastIndexOf(":");
+        if(at<1)continue;
+        var target=parts[i].slice(0,at),v=parts[i].slice(at+1);
+        var exp=target===config.projectId?config.experiments[0]:findExperiment(target);
+        if(exp&&hasVariation(exp,v)){
+          forced[exp.id]=v;
+          found=true;
+        }
+      }
+      return found?forced:null;
+    }
+    
+    // A variation's "css" and "hide" changes go in a style element as soon as
+    // the variation is known, so the original content doesn't flash. Each
+    // pageview replaces the previous one.
+    var styleEl=null;
+    function applyStyles(assigned){
+      var css="";
+      for(var i=0;i<config.experiments.length;i++){
+        var exp=config.experiments[i],list=assigned[exp.id]&&exp.changes[assigned[exp.id]];
+        if(!list)continue;
+        for(var j=0;j<list.length;j++){
+          var c=list[j];
+          if(c.type==="css")css+=c.selector+"{"+c.value+"}";
+          else if(c.type==="hide")css+=c.selector+"{display:none!important}";
+        }
+      }
+      try{
+        if(styleEl&&styleEl.parentNode)styleEl.parentNode.removeChild(styleEl);
+        styleEl=null;
+        if(!css)return;
+        styleEl=document.createElement("style");
+        styleEl.setAttribute("data-optim-changes",config.projectId);
+        styleEl.appendChild(document.createTextNode(css));
+        (document.head||document.documentElement).appendChild(styleEl);
+      }catch(e){}
+    }
+    
+    var MOVE_PLACES={before:"beforebegin",after:"afterend",prepend:"afterbegin",append:"beforeend"};
+    
+    // What changes may contain, emitted from lib/dom-changes.ts
+    var HTML_TAGS=${JSON.stringify(HTML_TAGS)};
+    var HTML_ATTRS=${JSON.stringify(HTML_ATTRIBUTES)};
+    var URL_ATTRS=${JSON.stringify(URL_ATTRIBUTES)};
+    var URL_SCHEMES=${JSON.stringify(URL_SCHEMES)};
+    // Must match isSafeUrl in lib/dom-changes.ts
+    function isSafeUrl(v,name){
+      if(name==="srcset"){
+        var parts=String(v).split(",");
+        for(var i=0;i<parts.length;i++){
+          if(!isSafeUrl(parts[i].replace(/^\\s+/,"").split(/\\s+/)[0],"href"))return false;
+        }
+        return true;
+      }
+      var head=String(v).replace(/[\\u0000-\\u0020]/g,"").split(/[\\/?#]/)[0];
+      if(head.indexOf("&")!==-1)return false;
+      var colon=head.indexOf(":");
+      return colon===-1||URL_SCHEMES.indexOf(head.slice(0,colon).toLowerCase())!==-1;
+    }
+    // Attribute changes are checked on save; these are refused again for
+    // changes saved before the checks existed
+    function isScriptAttr(name,value){
+      name=name.toLowerCase();
+      return name.indexOf("on")===0||name==="srcdoc"||(URL_ATTRS.indexOf(name)!==-1&&!isSafeUrl(value,name));
+    }
+    
+    // Parse an HTML change inertly and keep only the allowed tags and
+    // attributes, with safe URLs. Values are checked on save too; this
+    // covers those saved before.
+    function sanitizeHtml(html){
+      var t=document.createElement("template");
+      t.innerHTML=html;
+      var els=t.content.querySelectorAll("*");
+      for(var i=0;i<els.length;i++){
+        var el=els[i];
+        if(HTML_TAGS.indexOf(el.tagName.toLowerCase())===-1){
+          if(el.parentNode)el.parentNode.removeChild(el);
+          continue;
+        }
+        for(var j=el.attributes.length-1;j>=0;j--){
+          var a=el.attributes[j],name=a.name.toLowerCase();
+          var allowed=HTML_ATTRS.indexOf(name)!==-1||/^(data|aria)-/.test(name);
+          if(!allowed||(URL_ATTRS.indexOf(name)!==-1&&!isSafeUrl(a.value,name))){
+            el.removeAttribute(a.name);
+          }
+        }
+      }
+      return t.innerHTML;
+    }
+    
+    // Text, HTML, attribute and move changes once the DOM is ready. Values are
+    // only ever assigned as data, with HTML sanitized and script attributes
+    // skipped; a bad selector skips just its own change.
+    // Elements already changed are left alone, so re-applying after every
+    // DOM mutation can't loop.
+    function applyChanges(assigned){
+      for(var i=0;i<config.experiments.length;i++){
+        var exp=config.experiments[i],list=assigned[exp.id]&&exp.changes[assigned[exp.id]];
+        if(!list)continue;
+        for(var j=0;j<list.length;j++){
+          var c=list[j];
+          if(c.type==="css"||c.type==="hide")continue;
+          try{
+            var els=document.querySelectorAll(c.selector);
+            var target=c.type==="move"?document.querySelector(c.target):null;
+            // Inserting one by one after or into the start of the target
+            // reverses the order, so go backwards
+            var reverse=c.position==="after"||c.position==="prepend";
+            for(var k=0;k<els.length;k++){
+              var el=els[reverse?els.length-1-k:k];
+              if(c.type==="text"){
+                if(el.textContent!==c.value)el.textContent=c.value;
+              }else if(c.type==="html"){
+                if(el.innerHTML!==el._optimHtml){
+                  el.innerHTML=sanitizeHtml(c.value);
+                  el._optimHtml=el.innerHTML;
+                }
+              }else if(c.type==="attribute"){
+                if(isScriptAttr(c.name,c.value))continue;
+                if(el.getAttribute(c.name)!==c.value)el.setAttribute(c.name,c.value);
+              }else if(el._optimMoved!==c&&target&&target!==el&&!el.contains(target)){
+                target.insertAdjacentElement(MOVE_PLACES[c.position],el);
+                el._optimMoved=c;
+              }
+            }
+          }catch(e){}
+        }
+      }
+    }
+    
+    // Show/hide elements based on data-optim-show attribute,
+    // scoped to an experiment with data-optim-exp (primary by default).
+    // Elements hidden for an experiment that no longer runs are shown again.
+    function applyShow(assigned){
+      var primary=config.experiments[0];
+      var els=document.querySelectorAll("[data-optim-show]");
+      for(var j=0;j<els.length;j++){
+        var el=els[j];
+        var expKey=el.getAttribute("data-optim-exp");
+        var scope=expKey?findExperiment(expKey):primary;
+        if(!scope)continue;
+        var showFor=el.getAttribute("data-optim-show");
+        if(assigned[scope.id]&&showFor&&!listHas(showFor,assigned[scope.id])){
+          if(!el._optimHidden){
+            el.style.display="none";
+            el._optimHidden=true;
+          }
+        }else if(el._optimHidden){
+          el.style.display="";
+          el._optimHidden=false;
+        }
+      }
+    }
+    
+    // Attributes this script set on the root element, removed on a later
+    // pageview where their experiment doesn't run
+    var rootAttrs={};
+    
+    function setRootAttr(name,v){
+      var root=document.documentElement;
+      if(v){
+        root.setAttribute(name,v);
+        rootAttrs[name]=true;
+      }else if(rootAttrs[name]){
+        root.removeAttribute(name);
+        delete rootAttrs[name];
+      }
+    }
+    
+    function applyVariations(assigned){
+      var primary=config.experiments[0];
       
+      // Add data attributes to document for CSS targeting,
+      // skipping experiments the visitor's layer slot excludes them from
+      for(var i=0;i<config.experiments.length;i++){
+        var exp=config.experiments[i];
+        setRootAttr("data-optim-exp-"+exp.key,assigned[exp.id]);
+      }
+      setRootAttr("data-optim-variation",assigned[primary.id]);
+      
+      applyShow(assigned);
+      
+      // Update URL parameter (optional, for analytics tools), keeping the
+      // app's history state
+      if(assigned[primary.id]&&window.location.search.indexOf("variation=")===-1){
+        var loc=window.location;
+        var sep=loc.search?"&":"?";
+        var newUrl=loc.pathname+loc.search+sep+"variation="+encodeURIComponent(assigned[primary.id])+loc.hash;
+        try{
+          window.history.replaceState(window.history.state,"",newUrl);
+        }catch(e){}
+      }
+    }
+    
+    // Must match urlPath in lib/variation.ts
+    function urlPath(url){
+      var p=url.replace(/^https?:\\/\\/[^\\/?#]*/i,"").split(/[?#]/)[0];
+      return p.replace(/\\/+$/,"")||"/";
+    }
+    
+    // Must match matchesPagePattern in lib/variation.ts
+    function pathMatches(pattern,path){
+      var src=urlPath(pattern).replace(/[.+?^{}$()|[\\]\\\\]/g,"\\\\$&").replace(/\\*/g,".*");
+      return new RegExp("^"+src+"$").test(urlPath(path));
+    }
+    
+    function onVariationPage(exp){
+      if(!exp.variations[0].url)return false;
+      var here=urlPath(window.location.pathname);
+      for(var i=0;i<exp.variations.length;i++){
+        if(urlPath(exp.variations[i].url)===here)return true;
+      }
+      return false;
+    }
+    
+    // Split-URL tests run on their variations' pages and experiments with
+    // pages on those, must match isOnTestPage in lib/variation.ts
+    function onTestPage(exp){
+      if(!exp.variations[0].url&&!exp.pages.length)return true;
+      if(onVariationPage(exp))return true;
+      for(var i=0;i<exp.pages.length;i++){
+        if(pathMatches(exp.pages[i],window.location.pathname))return true;
+      }
+      return false;
+    }
+    
+    // Index of the funnel step this page is, or -1
+    function funnelStep(exp){
+      for(var i=0;i<exp.funnel.length;i++){
+        if(pathMatches(exp.funnel[i],window.location.pathname))return i;
+      }
+      return -1;
+    }
+    
+    function variationUrl(exp,v){
+      for(var i=0;i<exp.variations.length;i++){
+        if(exp.variations[i].key===v)return exp.variations[i].url||null;
+      }
+      return null;
+    }
+    
+    // Visitor ID carried over by a split-URL redirect, removed from the address
+    // bar. Kept on the global so every project on the page sees it.
+    function getCarriedId(){
+      if(O.carriedId!==undefined)return O.carriedId;
+      var search=window.location.search;
+      var m=search.match(/([?&])optim_vid=([A-Za-z0-9_-]{1,100})(&|$)/);
+      O.carriedId=m?m[2]:null;
+      if(m){
+        try{
+          window.history.replaceState(window.history.state,"",window.location.pathname+search.replace(m[0],m[3]?m[1]:"")+window.location.hash);
+        }catch(e){}
+      }
+      return O.carriedId;
+    }
+    
+    // The destination's own query and hash win; the current query follows it
+    // and the current hash is kept. optim_vid carries the visitor ID, so
+    // conversions on another domain count towards the same visitor.
+    function redirectUrl(url,vid){
+      var at=url.indexOf("#"),frag=at<0?window.location.hash:url.slice(at);
+      if(at>=0)url=url.slice(0,at);
+      var qs=window.location.search.replace(/^\\?/,"").replace(/(^|&)optim_vid=[^&]*/g,"").replace(/^&/,"");
+      return url+(url.indexOf("?")<0?"?":"&")+(qs?qs+"&":"")+"optim_vid="+encodeURIComponent(vid)+frag;
+    }
+    
+    // Tracking beacons wait for consent
+    function beacon(url,leaving){
+      whenConsented(function(){
+        send(url,leaving);
+      });
+    }
+    
+    function track(vid,exp,v,forced,leaving){
+      beacon(config.api+"/api/track?v="+encodeURIComponent(vid)+"&p="+encodeURIComponent(config.projectId)+"&e="+encodeURIComponent(exp.id)+"&var="+encodeURIComponent(v)+(forced?"&f=1":"")+"&t="+Date.now(),leaving);
+    }
+    
+    // Reached a step of the experiment's funnel
+    function trackStep(vid,exp,step,forced){
+      beacon(config.api+"/api/track?v="+encodeURIComponent(vid)+"&p="+encodeURIComponent(config.projectId)+"&e="+encodeURIComponent(exp.id)+"&st="+step+(forced?"&f=1":"")+"&t="+Date.now());
+    }
+    
+    // Visitors who aren't enrolled: "holdout" or "ineligible"
+    function trackStatus(vid,status){
+      beacon(config.api+"/api/track?v="+encodeURIComponent(vid)+"&p="+encodeURIComponent(config.projectId)+"&s="+status+"&t="+Date.now());
+    }
+    
+    // Reached a conversion goal, e.g. convert("signup") or convert("purchase",49).
+    // Before consent, the visitor ID isn't known yet in "wait" mode.
+    function trackConversion(goal,value){
+      whenConsented(function(){
+        try{
+          var vid=O.visitorId||getVisitorId();
+          send(config.api+"/api/track?v="+encodeURIComponent(vid)+"&p="+encodeURIComponent(config.projectId)+"&c="+encodeURIComponent(goal)+(typeof value==="number"?"&cv="+value:"")+(O.forced?"&f=1":"")+"&t="+Date.now());
+        }catch(e){}
+      });
+    }
+    
+    // One convert() for every project on the page
+    var previousConvert=O.convert;
+    O.convert=function(goal,value){
+      if(previousConvert)previousConvert(goal,value);
+      trackConversion(goal,value);
+    };
+    
+    function emit(name,detail){
+      if(typeof CustomEvent!=="undefined"){
+        document.dispatchEvent(new CustomEvent(name,{detail:detail}));
+      }
+    }
+    
+    // The visitor ID of the last assignment, stored once consent is granted
+    var lastVid=null;
+    
+    // Decide everything as soon as the script runs, so a split-URL test can
+    // redirect before the page renders. A server decision and a carried
+    // visitor ID only apply to the page load, not to virtual pageviews.
+    function assign(virtual){
+      var boot=virtual?null:getBootstrap();
+      var carried=virtual?null:getCarriedId();
+      var vid=getVisitorId(boot&&boot.visitorId||carried);
+      lastVid=vid;
       O.visitorId=vid;
-      O.variation=variation;
       O.projectId=config.projectId;
       
-      applyVariation(variation);
-      track(vid,variation);
+      // Flags of every project on the page, the server's when it decided
+      var flags=boot&&boot.flags?boot.flags:getFlags(vid);
+      O.flags=O.flags||{};
+      for(var k in flags){
+        if(Object.prototype.hasOwnProperty.call(flags,k))O.flags[k]=flags[k];
+      }
       
-      // Dispatch custom event for integrations
-      if(typeof CustomEvent!=="undefined"){
-        document.dispatchEvent(new CustomEvent("optimeleon:ready",{
-          detail:{visitorId:vid,variation:variation,projectId:config.projectId}
-        }));
+      var s={
+        vid:vid,flags:flags,eligible:boot?boot.eligible!==false:isEligible(),
+        enrolled:false,forced:false,tracked:false,arrived:!!carried,
+        assigned:{},testing:false,variation:null
+      };
+      if(!config.experiments.length)return s;
+      
+      // Forced experiments ignore targeting, exposure and layers; the rest
+      // of a forced session is assigned as usual but never recorded
+      var forced=getForced();
+      var sticky=getSticky(vid);
+      // Past the visitor cap, only visitors enrolled before it take part,
+      // with the variations the server remembers if the browser doesn't
+      var known=!!(enrollment&&enrollment.vid===vid&&enrollment.enrolled);
+      if(known){
+        for(var id in enrollment.experiments){
+          if(Object.prototype.hasOwnProperty.call(enrollment.experiments,id)&&!sticky[id])sticky[id]=enrollment.experiments[id];
+        }
+      }
+      var exposed=boot?boot.enrolled===true:s.eligible&&isExposed(vid)&&(!config.capped||known||hasKeys(sticky));
+      s.forced=!!forced;
+      s.enrolled=exposed||s.forced;
+      // The server already recorded decisions it tracked
+      s.tracked=!!(boot&&boot.tracked);
+      O.forced=s.forced;
+      O.eligible=s.eligible;
+      O.enrolled=s.enrolled;
+      O.experiments=O.experiments||{};
+      
+      // Shipped experiments serve their winner to every visitor, untracked
+      var assigned=s.assigned;
+      
+      for(var i=0;i<config.experiments.length;i++){
+        var exp=config.experiments[i];
+        if(!onTestPage(exp))continue;
+        // A redirect would lose the queued exposure, so split-URL tests
+        // wait for consent
+        if(consent!=="granted"&&exp.variations[0].url&&!exp.winner)continue;
+        if(!exp.winner)s.testing=true;
+        if(forced&&forced[exp.id]){
+          assigned[exp.id]=forced[exp.id];
+        }else if(exp.winner){
+          assigned[exp.id]=exp.winner;
+        }else if(boot){
+          var decided=boot.experiments&&boot.experiments[exp.id];
+          if(!exposed||!hasVariation(exp,decided))continue;
+          assigned[exp.id]=decided;
+        }else if(exposed&&inLayer(vid,exp)){
+          var kept=sticky[exp.id];
+          assigned[exp.id]=hasVariation(exp,kept)?kept:getVariation(vid,exp);
+        }else{
+          continue;
+        }
+        O.experiments[exp.id]=assigned[exp.id];
+        if(!(forced&&forced[exp.id])&&!exp.winner)sticky[exp.id]=assigned[exp.id];
+      }
+      if(s.enrolled)saveSticky(vid,sticky);
+      
+      s.variation=assigned[config.experiments[0].id]||null;
+      O.variation=s.variation;
+      return s;
+    }
+    
+    // Send the visitor to their split-URL variation's page, recording the
+    // exposure first. Visitors arriving from a redirect stay put, so two
+    // pages can never bounce a visitor between them.
+    function redirect(s){
+      if(s.arrived)return false;
+      var here=urlPath(window.location.pathname);
+      for(var i=0;i<config.experiments.length;i++){
+        var exp=config.experiments[i],v=s.assigned[exp.id];
+        var url=v?variationUrl(exp,v):null;
+        if(!url||!onVariationPage(exp)||urlPath(url)===here)continue;
+        if(!s.tracked&&!exp.winner)track(s.vid,exp,v,s.forced,true);
+        O.redirecting=true;
+        window.location.replace(redirectUrl(url,s.vid));
+        return true;
+      }
+      return false;
+    }
+    
+    // The state of the current pageview, for elements rendered later
+    var current=null;
+    
+    // Change the page once the DOM is ready; virtual pageviews emit
+    // optimeleon:pageview instead of optimeleon:ready
+    function apply(s,virtual){
+      var done=virtual?"optimeleon:pageview":"optimeleon:ready";
+      current=s;
+      try{
+        if(!config.experiments.length){
+          emit(done,{
+            visitorId:s.vid,variation:null,projectId:config.projectId,
+            experiments:{},enrolled:false,eligible:s.eligible,flags:s.flags
+          });
+          return;
+        }
+        
+        // Visitors who aren't enrolled are only counted while something is
+        // still being tested
+        if(!s.enrolled&&!s.tracked&&s.testing){
+          trackStatus(s.vid,s.eligible?"holdout":"ineligible");
+        }
+        
+        applyVariations(s.assigned);
+        applyChanges(s.assigned);
+        
+        // Track and dispatch per-experiment events for integrations. Split-URL
+        // exposures were recorded before the redirect that brought the visitor.
+        for(var j=0;j<config.experiments.length;j++){
+          var e=config.experiments[j];
+          if(!s.assigned[e.id])continue;
+          if(!s.tracked&&!e.winner&&!(s.arrived&&e.variations[0].url)){
+            track(s.vid,e,s.assigned[e.id],s.forced);
+          }
+          emit("optimeleon:experiment",{
+            visitorId:s.vid,projectId:config.projectId,
+            experimentId:e.id,experimentKey:e.key,variation:s.assigned[e.id]
+          });
+        }
+        
+        // Funnel pages count for every enrolled visitor, whether or not the
+        // experiment runs on them; the report only counts those exposed to it
+        if(s.enrolled){
+          for(var k=0;k<config.experiments.length;k++){
+            var f=config.experiments[k],step=f.winner?-1:funnelStep(f);
+            if(step>=0)trackStep(s.vid,f,step,s.forced);
+          }
+        }
+        
+        emit(done,{
+          visitorId:s.vid,variation:s.variation,projectId:config.projectId,
+          experiments:s.assigned,enrolled:s.enrolled,eligible:s.eligible,
+          forced:s.forced,flags:s.flags
+        });
+      }catch(e){
+        console.warn("[Optimeleon] Error:",e.message);
+      }finally{
+        reveal();
+      }
+    }
+    
+    // The page a virtual pageview is for: path and query, without the
+    // parameters the scripts add or remove themselves
+    function pageKey(){
+      var q=window.location.search.replace(/^\\?/,"").split("&"),keep=[];
+      for(var i=0;i<q.length;i++){
+        if(q[i]&&!/^(variation|optim_vid)=/.test(q[i]))keep.push(q[i]);
+      }
+      return window.location.pathname+"?"+keep.join("&");
+    }
+    
+    var lastPage=null;
+    
+    // Decide again for a new URL and apply it like a page load, once the
+    // app has had a chance to render it
+    function pageview(){
+      if(O.redirecting)return;
+      try{
+        lastPage=pageKey();
+        var s=assign(true);
+        if(!redirect(s)){
+          applyStyles(s.assigned);
+          apply(s,true);
+        }
+      }catch(e){
+        console.warn("[Optimeleon] Error:",e.message);
+      }
+    }
+    
+    function navigated(){
+      if(lastPage===null||pageKey()===lastPage)return;
+      lastPage=pageKey();
+      setTimeout(pageview,0);
+    }
+    
+    // Follow single-page app navigation and elements rendered after the
+    // page loaded
+    function watch(){
+      lastPage=pageKey();
+      var h=window.history;
+      var wrap=function(name){
+        var original=h[name];
+        if(typeof original!=="function")return;
+        h[name]=function(){
+          var result=original.apply(this,arguments);
+          navigated();
+          return result;
+        };
+      };
+      try{
+        wrap("pushState");
+        wrap("replaceState");
+        window.addEventListener("popstate",navigated);
+        if(typeof MutationObserver!=="undefined"&&config.experiments.length){
+          new MutationObserver(function(){
+            if(!current)return;
+            try{
+              applyShow(current.assigned);
+              applyChanges(current.assigned);
+            }catch(e){}
+          }).observe(document.documentElement,{childList:true,subtree:true});
+        }
+      }catch(e){}
+    }
+    
+    // One refresh() for every project on the page, for routers the history
+    // hooks miss
+    var previousRefresh=O.refresh;
+    O.refresh=function(){
+      if(previousRefresh)previousRefresh();
+      if(lastPage!==null)pageview();
+    };
+    
+    // Assign and redirect, or apply once the DOM is ready and follow the
+    // page from then on
+    function run(){
+      var unknown=enrollmentToCheck();
+      if(unknown){
+        checkEnrollment(unknown,function(){
+          if(!O.redirecting)run();
+        });
+        return;
+      }
+      var state=assign();
+      if(redirect(state))return;
+      applyStyles(state.assigned);
+      var start=function(){
+        apply(state);
+        watch();
+      };
+      if(document.readyState==="loading"){
+        document.addEventListener("DOMContentLoaded",start);
+      }else{
+        start();
+      }
+    }
+    
+    // Dormant in "wait" mode until consent is granted
+    var waiting=false;
+    
+    // Granting stores the visitor ID and variations kept in memory so far,
+    // runs a waiting script and sends the queued beacons. Denying drops them
+    // and removes anything stored.
+    function setConsent(granted){
+      if(config.consent.mode==="off")return;
+      if(!granted){
+        consent="denied";
+        queue=[];
+        unsaved=null;
+        clearVisitorId();
+        try{
+          localStorage.removeItem(CONSENT_KEY);
+          localStorage.removeItem("optim_assign_"+config.projectId);
+        }catch(e){}
+        return;
+      }
+      if(consent==="granted")return;
+      consent="granted";
+      try{
+        localStorage.setItem(CONSENT_KEY,"1");
+      }catch(e){}
+      if(lastVid)storeVisitorId(lastVid);
+      if(unsaved)saveSticky(unsaved.vid,unsaved.sticky);
+      unsaved=null;
+      if(waiting&&!O.redirecting){
+        waiting=false;
+        try{
+          run();
+        }catch(e){
+          console.warn("[Optimeleon] Error:",e.message);
+        }
+      }
+      var pending=queue;
+      queue=[];
+      for(var i=0;i<pending.length;i++)pending[i]();
+    }
+    
+    // One consent() for every project on the page
+    var previousConsent=O.consent;
+    O.consent=function(granted){
+      if(previousConsent)previousConsent(granted);
+      setConsent(granted!==false);
+    };
+    
+    // TCF v2 CMPs grant consent with every configured purpose, or when GDPR
+    // doesn't apply; later changes withdraw or grant it again
+    function listenTcf(){
+      if(!config.consent.tcf||typeof window.__tcfapi!=="function")return;
+      try{
+        window.__tcfapi("addEventListener",2,function(data,ok){
+          if(!ok||!data||(data.eventStatus!=="tcloaded"&&data.eventStatus!=="useractioncomplete"))return;
+          var consents=data.purpose&&data.purpose.consents||{};
+          var granted=true;
+          for(var i=0;i<config.consent.tcf.length;i++){
+            if(!consents[config.consent.tcf[i]])granted=false;
+          }
+          setConsent(granted||data.gdprApplies===false);
+        });
+      }catch(e){}
+    }
+    
+    // Consent the page already knew before the script loaded
+    var given=window.__OPTIMELEON_CONSENT__;
+    if(given===true||given===false)setConsent(given);
+    
+    // Another project's script may already be redirecting this page
+    try{
+      if(!config.experiments.length&&!config.flags.length){
+        reveal();
+      }else if(!O.redirecting){
+        if(consent!=="granted"&&config.consent.mode==="wait"){
+          waiting=true;
+          reveal();
+        }else{
+          run();
+        }
       }
     }catch(e){
       console.warn("[Optimeleon] Error:",e.message);
+      reveal();
     }
+    listenTcf();
   }
   
-  if(document.readyState==="loading"){
-    document.addEventListener("DOMContentLoaded",init);
-  }else{
-    init();
+  // Run the configs queued before the runtime arrived and any pushed later.
+  // The loader's placeholders give way to the projects' own functions, and
+  // conversions reported meanwhile are sent.
+  var O=window.__OPTIMELEON__=window.__OPTIMELEON__||{};
+  if(O.runtime)return;
+  O.runtime=true;
+  var configs=O.configs||[],early=O.early||[],i;
+  O.convert=O.consent=O.refresh=O.early=null;
+  O.configs={push:project};
+  for(i=0;i<configs.length;i++)project(configs[i]);
+  for(i=0;i<early.length;i++){
+    if(O.convert)O.convert(early[i][0],early[i][1]);
+  }
+})();`;
+}
+
+/**
+ * Generate the embed script served for one or more projects: their
+ * configs, queued in `window.__OPTIMELEON__.configs` for the runtime, and
+ * a loader that adds the runtime to the page unless another embed script
+ * already did. Until it runs, `convert()` calls are kept for it and
+ * `consent()` is remembered like `window.__OPTIMELEON_CONSENT__`.
+ *
+ * Loaded by a plain script tag while the page is still parsing, the loader
+ * writes the runtime's tag right after its own, so the runtime blocks
+ * rendering like the embed script did when it was one file: redirects and
+ * CSS changes happen before anything is painted. Loaded async, deferred or
+ * after parsing, where `document.write` doesn't work, it appends the
+ * runtime instead and the anti-flicker snippet covers the gap. So it does
+ * if the browser refused the written tag and the runtime hasn't run when
+ * the page is parsed.
+ */
+export function generateEmbedScript(
+  projects: EmbedProject[],
+  apiEndpoint: string,
+  runtimeUrl: string,
+): string {
+  const pushes = projects
+    .map((p) => `  O.configs.push(${serializeEmbedConfig(p, apiEndpoint)});`)
+    .join("\n");
+  const src = JSON.stringify(runtimeUrl).replace(/</g, "\\u003c");
+  // The tag for document.write, with the URL escaped as an attribute
+  const attr = runtimeUrl.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+  const tag = JSON.stringify(`<script src="${attr}"></script>`).replace(
+    /</g,
+    "\\u003c",
+  );
+
+  return `(function(){
+  var O=window.__OPTIMELEON__=window.__OPTIMELEON__||{};
+  if(!O.configs){
+    var early=O.early=[];
+    O.configs=[];
+    O.convert=function(goal,value){
+      early.push([goal,value]);
+    };
+    O.consent=function(granted){
+      window.__OPTIMELEON_CONSENT__=granted!==false;
+    };
+    O.refresh=function(){};
+    var load=function(){
+      var s=document.createElement("script");
+      s.src=${src};
+      s.async=true;
+      (document.head||document.documentElement).appendChild(s);
+    };
+    var cur=document.currentScript;
+    if(document.readyState==="loading"&&cur&&!cur.async&&!cur.defer){
+      document.write(${tag});
+      // Browsers may block a written cross-site script, e.g. Chrome on slow
+      // connections. The runtime then hasn't run by the end of parsing, so
+      // it's loaded async after all.
+      document.addEventListener("DOMContentLoaded",function(){
+        if(!O.runtime)load();
+      });
+    }else{
+      load();
+    }
   }
+${pushes}
+})();`;
+}
+
+/**
+ * Generate the script served for a project that isn't live: only a
+ * comment saying why, and a signal to the anti-flicker snippet so the page
+ * isn't kept hidden until its timeout
+ */
+export function generateInactiveScript(
+  projectId: string,
+  message: string,
+): string {
+  const id = JSON.stringify(projectId);
+  return `/* Optimeleon: ${message} */
+(function(){
+  var af=(window.__OPTIMELEON__||{}).antiFlicker;
+  if(af&&af[${id}])af[${id}](false);
 })();`;
 }
 
@@ -125,6 +1420,39 @@ export function generateEmbedCode(
   return `<script src="${apiEndpoint}/api/s/${projectId}"></script>`;
 }
 
+/**
+ * Generate the anti-flicker snippet, pasted in the <head> right before the
+ * script tag
+ * It runs synchronously and hides the page, or the project's anti-flicker
+ * selector, until the embed script has applied the variations or the
+ * timeout expires, whichever comes first. Each page view reports which one
+ * it was as `af=shown` or `af=timeout`.
+ */
+export function generateAntiFlickerSnippet(
+  project: Pick<Project, "id" | "antiFlickerTimeout" | "antiFlickerSelector">,
+  apiEndpoint: string,
+): string {
+  // Values are passed as JSON arguments, never concatenated into code
+  const args = [project.id, project.antiFlickerTimeout, apiEndpoint]
+    .map((value) => JSON.stringify(value).replace(/</g, "\\u003c"))
+    .join(",");
+  const selector = project.antiFlickerSelector ?? "body";
+
+  return `<style data-optim-af="${project.id}">${selector}{opacity:0!important}</style>
+<script>(function(w,d,p,t,a){
+  var O=w.__OPTIMELEON__=w.__OPTIMELEON__||{},af=O.antiFlicker=O.antiFlicker||{};
+  function show(timedOut){
+    if(af[p]!==show)return;
+    af[p]=null;
+    var s=d.querySelector('style[data-optim-af="'+p+'"]');
+    if(s)s.parentNode.removeChild(s);
+    new Image().src=a+"/api/track?p="+p+"&af="+(timedOut?"timeout":"shown")+"&t="+Date.now();
+  }
+  af[p]=show;
+  setTimeout(function(){show(true);},t);
+})(window,document,${args});</script>`;
+}
+
 /**
  * Get usage instructions for the embed script
  */
@@ -139,8 +1467,77 @@ Add the script tag to your website's <head> or before </body>:
 <script src="https://your-app.com/api/s/YOUR_PROJECT_ID"></script>
 \`\`\`
 
+The script only carries the project's settings, so changes reach visitors
+within a minute. It loads the shared runtime, which browsers and CDNs
+cache for good, right after itself. Keep it a plain \`<script>\` tag in the
+\`<head>\`: redirects and CSS changes then happen before the page renders.
+Added with \`async\` or \`defer\`, or by a tag manager, it loads the runtime
+in the background instead, so the page shows first; add the anti-flicker
+snippet to keep it hidden until the variations are applied.
+
+### Allowed Domains
+The script only runs on the project's domain (and its www. subdomain) and
+the extra allowed domains on the project page: \`*.example.com\` allows every
+subdomain and \`localhost\` allows local development. Anywhere else it does
+nothing, and hits from other sites aren't counted; the project page lists
+where they came from. Allow the destination domains of split-URL tests too.
+
+### Visitor Identity
+The visitor ID is kept in localStorage by default, which every origin has
+its own of, so \`www.shop.com\` and \`checkout.shop.com\` would see two
+visitors. Set the project's visitor identity to a cookie on \`shop.com\` to
+share one ID, and so the same variations, across its subdomains; allow them
+under Allowed Domains too, e.g. \`*.shop.com\`. IDs already in localStorage
+are moved into the cookie on the next visit. Each visit renews the cookie
+for its lifetime; Safari caps cookies set by scripts at 7 days. If the
+preferred storage is blocked the script uses the other one.
+Servers on the domain can read the \`optim_vid\` cookie to pass the same
+visitor ID to \`POST /api/decide\`.
+
+### Multiple Projects
+To run several projects on one page, load them with a single script tag
+instead of one per project:
+\`\`\`html
+<script src="https://your-app.com/api/s?ids=proj_a,proj_b"></script>
+\`\`\`
+They share one copy of the script and the visitor ID, and their beacons
+go out together. Up to 20 projects; one that isn't live is skipped.
+A project also embedded on its own still only runs once.
+
+### Consent
+If visitors must consent before being tracked (GDPR, CCPA), pick a consent
+mode on the project page. With "Wait for consent" the script does nothing
+until then; with "Apply now, track after consent" variations apply with an
+ID kept in memory and beacons are queued. Nothing is stored on the device
+and nothing is tracked before consent, and split-URL tests don't redirect.
+Report the visitor's choice from your consent banner:
+
+\`\`\`javascript
+window.__OPTIMELEON__.consent(true);  // queued beacons are sent
+window.__OPTIMELEON__.consent(false); // queue dropped, stored ID removed
+\`\`\`
+
+If the choice is known before the script loads, set
+\`window.__OPTIMELEON_CONSENT__ = true\` (or \`false\`) first instead. A grant
+is remembered on later pages until it's withdrawn. With a TCF v2 banner,
+enable "Take consent from a TCF v2 consent banner" and load its
+\`__tcfapi\` stub before the script: consent is granted when the visitor
+agrees to purposes 1 (store information on a device) and 8 (measure
+content performance), or when GDPR doesn't apply.
+
+### Anti-Flicker
+The script changes text, HTML and attributes once the DOM is ready, and
+everything only after it loads when it's loaded async or by a tag manager,
+so visitors may see the original content for a moment. To hide it until then, paste the
+anti-flicker snippet from the project page right before the script tag. It
+hides the page, or only the selectors you configure, until the variation is
+applied or the timeout expires (3 seconds by default). The project page
+shows how often the timeout fired; if it often does, the script is loading
+too slowly for the timeout.
+
 ### CSS-Based Variations
-Use the \`data-optim-variation\` attribute on the html element to style variations:
+Use the \`data-optim-variation\` attribute on the html element to style variations.
+The examples use the default A-D keys; substitute your project's variation keys:
 
 \`\`\`css
 /* Show different hero text per variation */
@@ -159,6 +1556,122 @@ Use \`data-optim-show\` to show elements only for specific variations:
 <div data-optim-show="A,B,C,D">This shows for all</div>
 \`\`\`
 
+### Multiple Experiments
+Each running experiment sets its own attribute, named after the experiment key:
+
+\`\`\`css
+[data-optim-exp-hero-copy="B"] .hero-title { font-size: 3rem; }
+[data-optim-exp-pricing="annual"] .price-monthly { display: none; }
+\`\`\`
+
+Scope \`data-optim-show\` to an experiment with \`data-optim-exp\`; without it
+the project's first running or shipped experiment is used:
+
+\`\`\`html
+<div data-optim-exp="pricing" data-optim-show="annual">Billed yearly</div>
+\`\`\`
+
+### Sticky Variations
+A visitor's first variation per experiment is stored in localStorage and kept
+when weights or variations change, as long as that variation still exists.
+"Re-bucket everyone" on the project page clears them.
+
+### Shipped Winners
+Once an experiment's winner is shipped, every visitor gets that variation,
+whatever the targeting, exposure or layers, and nothing is tracked for it.
+Keep the script installed until the winning variation is built into the page.
+
+### Split-URL Tests
+Give every variation a URL (e.g. \`/pricing\` and \`/pricing-v2\`) to test
+whole pages. The experiment only runs on those pages: a visitor who lands on
+a page other than their variation's is redirected with their query string
+and hash, before the page renders. Install the script as a plain
+\`<script>\` tag in the \`<head>\` of every variation's page, and on the page
+where conversions happen.
+Their visitor ID travels in \`?optim_vid=\`, which the script removes on
+arrival, so conversions on the destination count towards the test even on
+another domain. A redirected visitor is never redirected again on arrival.
+
+### Multi-Page Funnels
+An experiment can be limited to a set of pages, e.g. \`/cart\` and
+\`/checkout/*\` (\`*\` matches anything): the visitor keeps the same variation
+on every one of them. Give it funnel steps too and each step page a visitor
+reaches is recorded, for the drop-off report on the project page. Install
+the script on every step, including pages the experiment doesn't change.
+
+### Page Changes
+Instead of styling with attributes, each variation can list changes in the
+dashboard: replace an element's text or HTML, set an attribute, add CSS,
+hide an element or move it next to or into another. Elements are matched by
+CSS selector, and changes apply to every match, in order, once the page has
+loaded; CSS and hidden elements apply before the page renders when the
+script is a plain tag in the \`<head>\`. HTML may use common text, list,
+table, link and image tags with attributes such as \`class\`, \`href\`,
+\`src\` and \`data-*\`; scripts, event handlers, embeds, SVG and URLs other
+than relative, http(s), mailto and tel ones are refused.
+
+### Single-Page Apps
+Route changes made with \`history.pushState\` or \`replaceState\`, and the back
+and forward buttons, count as pageviews: targeting, pages and funnel steps
+are checked again for the new URL, changes that no longer apply are removed
+and exposures are tracked again. Elements your app renders later get their
+\`data-optim-show\` and page changes as they appear. Each of these pageviews
+fires \`optimeleon:pageview\` with the same detail as \`optimeleon:ready\`. If
+your router doesn't go through the History API, call
+\`window.__OPTIMELEON__.refresh()\` after each route change.
+
+### Traffic Exposure
+When a project's exposure is below 100%, held-out visitors keep the default
+experience: only shipped winners are applied. The ready event
+still fires with \`enrolled: false\` and \`variation: null\`.
+
+### Layers
+Experiments in the same layer are mutually exclusive: each owns a share of
+the layer's traffic and a visitor is only enrolled in the one owning their
+slot. Experiments a visitor isn't in set no attribute and hide nothing, and
+are left out of \`e.detail.experiments\`. If that's the primary experiment,
+\`variation\` is \`null\`.
+
+### Targeting
+Projects can limit who takes part with targeting rules (URL path, query and
+UTM parameters, referrer, device, language, new vs. returning visitor and
+custom attributes). Visitors who don't match are ineligible: they keep the
+default experience and the ready event fires with \`eligible: false\`.
+
+Push custom attributes before the embed script:
+
+\`\`\`html
+<script>
+  (window.__OPTIMELEON_ATTRIBUTES__ = window.__OPTIMELEON_ATTRIBUTES__ || []).push({ plan: "pro" });
+</script>
+\`\`\`
+
+### Server-Side Decisions
+Call \`POST /api/decide\` from your server to render the right variant, then
+pass the response to the page before the embed script. The script adopts the
+server's visitor ID and variations instead of assigning its own:
+
+\`\`\`html
+<script>
+  window.__OPTIMELEON_BOOTSTRAP__ = { /* POST /api/decide response */ };
+</script>
+\`\`\`
+
+Escape \`<\` when serializing the JSON into the page.
+
+### QA Overrides
+Force a variation with the \`optim_force\` URL parameter, using the project ID
+(for the primary experiment) or an experiment key. The override lasts for the
+browser session and those visits are not counted in results:
+
+\`\`\`
+https://example.com/?optim_force=pricing:annual
+https://example.com/?optim_force=pricing:annual,hero-copy:B
+https://example.com/?optim_force=off
+\`\`\`
+
+Preview links on the project page do the same without sharing the syntax.
+
 ### JavaScript Integration
 Listen for the ready event:
 
@@ -166,6 +1679,12 @@ Listen for the ready event:
 document.addEventListener('optimeleon:ready', function(e) {
   console.log('Variation:', e.detail.variation);
   console.log('Visitor ID:', e.detail.visitorId);
+  console.log('All experiments:', e.detail.experiments);
+});
+
+// Fired per experiment on every pageview
+document.addEventListener('optimeleon:experiment', function(e) {
+  console.log(e.detail.experimentKey, e.detail.variation);
 });
 \`\`\`
 
@@ -173,7 +1692,33 @@ Or access directly:
 \`\`\`javascript
 if (window.__OPTIMELEON__) {
   console.log(window.__OPTIMELEON__.variation);
+  console.log(window.__OPTIMELEON__.experiments); // { [experimentId]: variation }
 }
 \`\`\`
+
+### Feature Flags
+Flags are evaluated for every visitor, whether or not they're in an
+experiment, and each has its own targeting rules and rollout percentage.
+Read them by key once the ready event fired:
+
+\`\`\`javascript
+document.addEventListener('optimeleon:ready', function(e) {
+  if (e.detail.flags['new-checkout']) showNewCheckout();
+});
+
+window.__OPTIMELEON__.flags['banner-text']; // after ready
+\`\`\`
+
+With several projects on a page, \`window.__OPTIMELEON__.flags\` holds the
+flags of all of them, so keep keys unique. Backends can evaluate the same
+flags with \`POST /api/flags\`.
+
+### Conversions
+Report goals from the page; bandit experiments optimize for them:
+
+\`\`\`javascript
+window.__OPTIMELEON__.convert('signup');
+window.__OPTIMELEON__.convert('purchase', 49.0); // with a value
+\`\`\`
 `;
 }
@@ -0,0 +1,124 @@
+/**
+ * Statistics Helpers
+ * Distribution functions for the dashboard's quality reports
+ */
+
+/**
+ * Probability of a chi-square statistic at least this large by chance,
+ * with the given degrees of freedom
+ */
+export function chiSquarePValue(
+  chiSquare: number,
+  degreesOfFreedom: number,
+): number {
+  if (degreesOfFreedom <= 0) return 1;
+  if (chiSquare <= 0) return 1;
+  return upperGammaRegularized(degreesOfFreedom / 2, chiSquare / 2);
+}
+
+/**
+ * Chi-square goodness-of-fit statistic of observed counts against
+ * expected counts of the same length
+ */
+export function chiSquareStatistic(
+  observed: number[],
+  expected: number[],
+): number {
+  return observed.reduce((sum, count, i) => {
+    if (expected[i] <= 0) return sum;
+    return sum + (count - expected[i]) ** 2 / expected[i];
+  }, 0);
+}
+
+// Q(a, x), via the series for small x and a continued fraction otherwise
+// (Numerical Recipes, gammq)
+function upperGammaRegularized(a: number, x: number): number {
+  if (x < a + 1) return 1 - lowerGammaSeries(a, x);
+  return upperGammaFraction(a, x);
+}
+
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 1000;
+
+function lowerGammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+function upperGammaFraction(a: number, x: number): number {
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+// Lanczos approximation
+const LANCZOS = [
+  76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155,
+  0.1208650973866179e-2, -0.5395239384953e-5,
+];
+
+function logGamma(x: number): number {
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of LANCZOS) series += coefficient / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+/**
+ * Draw from a Beta(alpha, beta) distribution
+ */
+export function sampleBeta(alpha: number, beta: number): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x / (x + y);
+}
+
+// Marsaglia and Tsang's method; shapes below 1 are boosted by one
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+// Box-Muller transform
+function sampleNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,205 @@
+/**
+ * Audience Targeting
+ * Validation and evaluation of a project's targeting rules
+ *
+ * The embed script evaluates the same rules in the browser; keep
+ * matchesRule and detectDevice in sync with lib/script-generator.ts.
+ */
+
+import type {
+  TargetingAttribute,
+  TargetingOperator,
+  TargetingRule,
+} from "./types";
+
+export const TARGETING_ATTRIBUTES: TargetingAttribute[] = [
+  "path",
+  "query",
+  "utm",
+  "referrer",
+  "device",
+  "language",
+  "visitor",
+  "custom",
+];
+
+export const TARGETING_OPERATORS: TargetingOperator[] = [
+  "equals",
+  "not_equals",
+  "prefix",
+  "contains",
+  "regex",
+];
+
+export const MAX_TARGETING_RULES = 20;
+const MAX_VALUE_LENGTH = 200;
+
+// Attributes that need a parameter or attribute name
+const NAMED_ATTRIBUTES: TargetingAttribute[] = ["query", "utm", "custom"];
+
+const NAME_PATTERN = /^[A-Za-z0-9_.-]{1,60}$/;
+
+/**
+ * What the visitor looks like, as seen by the embed script
+ */
+export interface TargetingContext {
+  path: string;
+  query: Record<string, string>;
+  referrer: string;
+  device: "mobile" | "tablet" | "desktop";
+  language: string;
+  returning: boolean;
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Classify a user agent as mobile, tablet or desktop
+ */
+export function detectDevice(userAgent: string): TargetingContext["device"] {
+  if (/iPad|Tablet|Android(?!.*Mobile)/i.test(userAgent)) return "tablet";
+  if (/Mobi|iPhone|iPod|Android/i.test(userAgent)) return "mobile";
+  return "desktop";
+}
+
+/**
+ * The value a rule compares against, or null if the visitor has none
+ */
+function ruleValue(rule: TargetingRule, ctx: TargetingContext): string | null {
+  switch (rule.attribute) {
+    case "path":
+      return ctx.path;
+    case "query":
+      return ownValue(ctx.query, rule.name ?? "");
+    case "utm":
+      return ownValue(ctx.query, `utm_${rule.name}`);
+    case "referrer":
+      return ctx.referrer;
+    case "device":
+      return ctx.device;
+    case "language":
+      return ctx.language;
+    case "visitor":
+      return ctx.returning ? "returning" : "new";
+    case "custom": {
+      const value = ownValue(ctx.attributes, rule.name ?? "");
+      return value === null || value === undefined ? null : String(value);
+    }
+  }
+}
+
+// Own properties only, so names like "constructor" miss the prototype
+function ownValue<T>(record: Record<string, T>, key: string): T | null {
+  return Object.hasOwn(record, key) ? record[key] : null;
+}
+
+/**
+ * Evaluate one rule; a missing value only satisfies "not_equals"
+ */
+export function matchesRule(
+  rule: TargetingRule,
+  ctx: TargetingContext,
+): boolean {
+  const actual = ruleValue(rule, ctx);
+  if (actual === null) return rule.operator === "not_equals";
+
+  switch (rule.operator) {
+    case "equals":
+      return actual === rule.value;
+    case "not_equals":
+      return actual !== rule.value;
+    case "prefix":
+      return actual.startsWith(rule.value);
+    case "contains":
+      return actual.includes(rule.value);
+    case "regex":
+      try {
+        return new RegExp(rule.value).test(actual);
+      } catch {
+        return false;
+      }
+  }
+}
+
+/**
+ * Whether a visitor matches all of a project's rules
+ */
+export function matchesTargeting(
+  rules: TargetingRule[],
+  ctx: TargetingContext,
+): boolean {
+  return rules.every((rule) => matchesRule(rule, ctx));
+}
+
+/**
+ * Validate and normalize targeting rules from user input
+ * Returns an error message if the input is invalid
+ */
+export function parseTargeting(
+  input: unknown,
+): { rules: TargetingRule[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "Targeting must be an array of rules" };
+  }
+
+  if (input.length > MAX_TARGETING_RULES) {
+    return { error: `At most ${MAX_TARGETING_RULES} targeting rules` };
+  }
+
+  const rules: TargetingRule[] = [];
+
+  for (const item of input) {
+    const attribute = item?.attribute;
+    if (!TARGETING_ATTRIBUTES.includes(attribute)) {
+      return { error: `Unknown targeting attribute "${attribute}"` };
+    }
+
+    const operator = item.operator;
+    if (!TARGETING_OPERATORS.includes(operator)) {
+      return { error: `Unknown targeting operator "${operator}"` };
+    }
+
+    const value = typeof item.value === "string" ? item.value.trim() : "";
+    if (value.length === 0 || value.length > MAX_VALUE_LENGTH) {
+      return {
+        error: `Targeting values must be 1-${MAX_VALUE_LENGTH} characters`,
+      };
+    }
+
+    if (operator === "regex") {
+      try {
+        new RegExp(value);
+      } catch {
+        return { error: `Invalid regular expression "${value}"` };
+      }
+    }
+
+    const rule: TargetingRule = { attribute, operator, value };
+
+    if (NAMED_ATTRIBUTES.includes(attribute)) {
+      const name = typeof item.name === "string" ? item.name.trim() : "";
+      if (!NAME_PATTERN.test(name)) {
+        return {
+          error: `A ${attribute} rule needs a name: letters, numbers, '.', '-' or '_'`,
+        };
+      }
+      rule.name = name;
+    }
+
+    rules.push(rule);
+  }
+
+  return { rules };
+}
+
+/**
+ * Parse stored targeting JSON; anything unreadable targets everyone
+ */
+export function parseStoredTargeting(value: string | null): TargetingRule[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -6,15 +6,300 @@ export interface Project {
   id: string;
   name: string;
   domain: string;
+  /** Sites besides `domain` allowed to run the script, see lib/domains.ts */
+  allowedDomains: string[];
   description: string | null;
+  /** Percentage of visitors enrolled in experiments; the rest are held out */
+  exposure: number;
+  /** Conditions a visitor must meet to be eligible; empty targets everyone */
+  targeting: TargetingRule[];
+  /** Bumped to discard every visitor's remembered variations */
+  bucketEpoch: number;
+  /** Hash function used for bucketing, see lib/hash.ts */
+  hashVersion: HashVersion;
+  /** Scheduled start and end (ISO timestamps); null leaves that side open */
+  startsAt: string | null;
+  endsAt: string | null;
+  /** Stop once this many visitors are enrolled; null for no cap */
+  maxVisitors: number | null;
+  /** Milliseconds the anti-flicker snippet hides the page at most */
+  antiFlickerTimeout: number;
+  /** Elements the anti-flicker snippet hides; null hides the whole page */
+  antiFlickerSelector: string | null;
+  /** Whether the script waits for consent, see lib/consent.ts */
+  consentMode: ConsentMode;
+  /** Also take consent from a TCF v2 CMP (`__tcfapi`) */
+  consentTcf: boolean;
+  /** Where the script keeps the visitor ID, see lib/identity.ts */
+  identityStrategy: IdentityStrategy;
+  /** Parent domain of the ID cookie; null keeps it on the page's host */
+  cookieDomain: string | null;
+  /** Days the ID cookie lasts after the last visit */
+  cookieDays: number;
   createdAt: string;
   updatedAt: string;
   isActive: boolean;
 }
 
+/**
+ * Whether a project serves its script and records events: "live" only
+ * when it's active, inside its start/end window and under its visitor cap
+ */
+export type ScheduleState =
+  "inactive" | "scheduled" | "live" | "ended" | "capped";
+
+/**
+ * Bucketing hash: 1 = djb2 (legacy), 2 = MurmurHash3
+ */
+export type HashVersion = 1 | 2;
+
+/**
+ * What the embed script does before the visitor consents: "off" doesn't
+ * wait for consent, "wait" does nothing at all, and "assign" applies
+ * variations with an ID kept in memory and queues beacons until then
+ */
+export type ConsentMode = "off" | "wait" | "assign";
+
+/**
+ * Where the embed script keeps the visitor ID first; the other storage is
+ * the fallback when it's blocked
+ */
+export type IdentityStrategy = "localStorage" | "cookie";
+
+export type TargetingAttribute =
+  | "path"
+  | "query"
+  | "utm"
+  | "referrer"
+  | "device"
+  | "language"
+  | "visitor"
+  | "custom";
+
+export type TargetingOperator =
+  "equals" | "not_equals" | "prefix" | "contains" | "regex";
+
+/**
+ * A single audience condition; a visitor must match all of a project's rules
+ */
+export interface TargetingRule {
+  attribute: TargetingAttribute;
+  /** Parameter or attribute name for "query", "utm" and "custom" rules */
+  name?: string;
+  operator: TargetingOperator;
+  value: string;
+}
+
+/**
+ * An experiment within a project
+ * A project can run several experiments on the same site at once, each
+ * assigning visitors independently
+ */
+export interface Experiment {
+  id: string;
+  projectId: string;
+  /** Slug used in the `data-optim-exp-<key>` attribute */
+  key: string;
+  name: string;
+  variations: VariationDefinition[];
+  status: ExperimentStatus;
+  /** Layer this experiment is mutually exclusive within, if any */
+  layerId: string | null;
+  /** First layer slot (0-99) owned by this experiment */
+  layerStart: number;
+  /** Number of layer slots, i.e. percentage of the layer's traffic */
+  layerShare: number;
+  /** "bandit" shifts traffic toward the best-converting variation */
+  allocation: AllocationMode;
+  /** Conversion goal a bandit optimizes for */
+  banditGoal: string | null;
+  /** Latest bandit weights by variation key; null until first computed */
+  banditWeights: Record<string, number> | null;
+  /** Variation served to every visitor once shipped */
+  winner: Variation | null;
+  /** Why the winner was chosen, recorded when shipping */
+  conclusion: string | null;
+  shippedAt: string | null;
+  /** Results frozen when the experiment was shipped */
+  finalStats: ExperimentStats | null;
+  /** URL path patterns the experiment runs on; empty runs it everywhere */
+  pages: string[];
+  /** Pages a visitor moves through, in order, reported per variation */
+  funnel: FunnelStep[];
+  /** Page changes each variation makes, applied by the embed script */
+  changes: Record<Variation, DomChange[]>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * "shipped" is final: the winner is served to everyone, untracked
+ */
+export type ExperimentStatus = "draft" | "running" | "paused" | "shipped";
+
+export type AllocationMode = "fixed" | "bandit";
+
+/**
+ * A change a variation makes to every element matching `selector`
+ * "css" adds declarations for the selector and "hide" hides it, both
+ * through a style element; "move" moves the elements relative to the
+ * first match of `target`
+ */
+export type DomChange =
+  | { type: "text" | "html"; selector: string; value: string }
+  | { type: "attribute"; selector: string; name: string; value: string }
+  | { type: "css"; selector: string; value: string }
+  | { type: "hide"; selector: string }
+  | {
+      type: "move";
+      selector: string;
+      target: string;
+      position: MovePosition;
+    };
+
+export type DomChangeType = DomChange["type"];
+
+export type MovePosition = "before" | "after" | "prepend" | "append";
+
+/**
+ * One page of a funnel, e.g. { name: "Shipping", path: "/checkout/shipping" }
+ * Paths are patterns like an experiment's pages: "*" matches anything.
+ */
+export interface FunnelStep {
+  name: string;
+  path: string;
+}
+
+/**
+ * Distinct visitors per variation who were exposed to the experiment and
+ * who reached each funnel step, in step order
+ * (GET /api/projects/[id]/experiments/[experimentId]/funnel)
+ */
+export interface FunnelReport {
+  steps: FunnelStep[];
+  variations: Record<Variation, { entered: number; reached: number[] }>;
+}
+
+/**
+ * One recomputation of a bandit's weights, with the outcomes it used
+ */
+export interface AllocationSnapshot {
+  computedAt: string;
+  weights: Record<string, number>;
+  /** Distinct visitors per variation */
+  visitors: Record<string, number>;
+  /** Distinct visitors per variation who reached the goal after exposure */
+  conversions: Record<string, number>;
+}
+
+/**
+ * The parts of an experiment that assignment depends on
+ */
+export type AssignableExperiment = Pick<
+  Experiment,
+  | "id"
+  | "key"
+  | "status"
+  | "layerId"
+  | "layerStart"
+  | "layerShare"
+  | "winner"
+  | "pages"
+> & { variations: Array<Pick<VariationDefinition, "key" | "weight" | "url">> };
+
+/**
+ * Everything needed to assign visitors without the database
+ * Embedded in the script and served to the SDK by GET /api/config/[id]
+ */
+export interface ClientConfig {
+  projectId: string;
+  exposure: number;
+  targeting: TargetingRule[];
+  /** Remembered variations from another epoch are ignored */
+  bucketEpoch: number;
+  hashVersion: HashVersion;
+  /** Running experiments only; the first is the primary experiment */
+  experiments: ClientExperiment[];
+  flags: ClientFlag[];
+}
+
+export interface ClientExperiment {
+  id: string;
+  key: string;
+  variations: Array<Pick<VariationDefinition, "key" | "weight" | "url">>;
+  layer: { id: string; start: number; share: number } | null;
+  /** Set once shipped: every visitor gets it and nothing is tracked */
+  winner: Variation | null;
+  pages: string[];
+  /** Path patterns of the funnel steps, in order */
+  funnel: string[];
+  changes: Record<Variation, DomChange[]>;
+}
+
+/**
+ * A feature flag served alongside a project's experiments
+ * Visitors matching its targeting and inside its rollout get `value`;
+ * everyone else, and everyone while it's disabled, gets `defaultValue`
+ */
+export interface FeatureFlag {
+  id: string;
+  projectId: string;
+  /** Name the page reads it by, unique per project */
+  key: string;
+  type: FlagType;
+  enabled: boolean;
+  /** Percentage of matching visitors who get `value` */
+  rollout: number;
+  value: FlagValue;
+  defaultValue: FlagValue;
+  /** Conditions a visitor must meet; independent of the project's targeting */
+  targeting: TargetingRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FlagType = "boolean" | "string" | "json";
+
+/**
+ * A flag's value; "json" flags can hold any JSON value
+ */
+export type FlagValue =
+  boolean | string | number | null | FlagValue[] | { [key: string]: FlagValue };
+
+export type ClientFlag = Pick<
+  FeatureFlag,
+  "id" | "key" | "enabled" | "rollout" | "value" | "defaultValue" | "targeting"
+>;
+
+/**
+ * A group of mutually exclusive experiments
+ * Each visitor lands in one slot of the layer and can only be enrolled in
+ * the experiment owning that slot
+ */
+export interface Layer {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LayerWithOccupancy extends Layer {
+  /** Slots owned by experiments, out of 100 */
+  allocated: number;
+  unallocated: number;
+  experiments: Array<
+    Pick<
+      Experiment,
+      "id" | "key" | "name" | "status" | "layerStart" | "layerShare"
+    >
+  >;
+}
+
 export interface VisitorEvent {
   id: string;
   projectId: string;
+  experimentId: string;
   visitorId: string;
   variation: Variation;
   timestamp: string;
@@ -22,17 +307,103 @@ export interface VisitorEvent {
   referrer: string | null;
 }
 
-export type Variation = "A" | "B" | "C" | "D";
+/**
+ * A variation key, e.g. "A" or "free-shipping-banner".
+ * Valid keys are defined per experiment.
+ */
+export type Variation = string;
+
+export interface VariationDefinition {
+  key: Variation;
+  label: string;
+  /** Relative share of traffic, e.g. 90 and 10 for a 90/10 split */
+  weight: number;
+  /** Page this variation lives on in a split-URL test: a path or URL */
+  url?: string;
+}
 
 export interface CreateProjectInput {
   name: string;
   domain: string;
   description?: string;
+  exposure?: number;
+  variations?: VariationDefinition[];
+}
+
+export interface CreateExperimentInput {
+  key: string;
+  name: string;
+  variations?: VariationDefinition[];
+  status?: ExperimentStatus;
+  layerId?: string | null;
+  layerShare?: number;
+}
+
+export interface ExperimentStats {
+  totalVisitors: number;
+  variations: Record<Variation, number>;
+}
+
+export interface ExperimentWithStats extends Experiment {
+  stats: ExperimentStats;
+}
+
+export interface ProjectStats {
+  totalVisitors: number;
+  /** Distinct visitors matching the targeting: enrolled plus held out */
+  eligibleVisitors: number;
+  /** Distinct visitors who loaded the script but didn't match the targeting */
+  ineligibleVisitors: number;
+  /** Distinct visitors assigned to experiments */
+  enrolledVisitors: number;
+  /** Page views the anti-flicker snippet reported, and how many timed out */
+  antiFlickerViews: number;
+  antiFlickerTimeouts: number;
+}
+
+/**
+ * Hits from a site outside a project's allowlist
+ */
+export interface RejectedOrigin {
+  /** e.g. "https://copycat.example", or the hostname the script reported */
+  origin: string;
+  hits: number;
+  lastSeenAt: string;
 }
 
 export interface ProjectWithStats extends Project {
-  stats?: {
-    totalVisitors: number;
-    variations: Record<Variation, number>;
-  };
+  stats?: ProjectStats;
+  experiments?: ExperimentWithStats[];
+  layers?: LayerWithOccupancy[];
+  flags?: FeatureFlag[];
+}
+
+export interface HashFit {
+  hashVersion: HashVersion;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  /** Chance of a fit this uneven from a perfectly uniform hash */
+  pValue: number;
+}
+
+export interface ExperimentDistribution {
+  experimentId: string;
+  key: string;
+  /** Visitors each variation would get under the current weights */
+  expected: Record<string, number>;
+  fits: Array<HashFit & { counts: Record<string, number> }>;
+}
+
+/**
+ * Chi-square report of how evenly each hash version buckets a project's
+ * stored visitor IDs (GET /api/projects/[id]/distribution)
+ */
+export interface DistributionReport {
+  sampleSize: number;
+  hashVersion: HashVersion;
+  /** Whether every bucket expects enough visitors for the test to hold */
+  reliable: boolean;
+  /** Exposure slots (`hash % 100`), which exposure and layers rely on */
+  slots: HashFit[];
+  experiments: ExperimentDistribution[];
 }
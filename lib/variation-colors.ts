@@ -0,0 +1,29 @@
+/**
+ * Variation Colors
+ * Dashboard palette, assigned to variations by their position in the project
+ */
+
+const COLOR_KEYS = ["a", "b", "c", "d", "e", "f"] as const;
+
+const COLORS = [
+  "#6366f1",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#0ea5e9",
+];
+
+/**
+ * Suffix for the `variation-*` and `bg-variation-*` CSS classes
+ */
+export function variationColorKey(index: number): string {
+  return COLOR_KEYS[index % COLOR_KEYS.length];
+}
+
+/**
+ * Hex color for inline styles (e.g. progress bars)
+ */
+export function variationColor(index: number): string {
+  return COLORS[index % COLORS.length];
+}
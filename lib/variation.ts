@@ -3,44 +3,168 @@
  * Deterministic hashing for consistent visitor-to-variation mapping
  */
 
-import type { Variation } from "./types";
+import { hashWith, LEGACY_HASH_VERSION } from "./hash";
+import type {
+  AssignableExperiment,
+  Experiment,
+  HashVersion,
+  Project,
+  Variation,
+  VariationDefinition,
+} from "./types";
 
 /**
- * djb2 hash function
- * A simple, fast, and well-distributed hash function
- * Same input always produces same output (deterministic)
+ * Variations used when a project doesn't define its own
  */
-export function hashString(str: string): number {
-  let hash = 5381;
-  for (let i = 0; i < str.length; i++) {
-    // hash * 33 + charCode (using XOR for better distribution)
-    hash = (hash * 33) ^ str.charCodeAt(i);
-  }
-  // Convert to unsigned 32-bit integer
-  return hash >>> 0;
+export const DEFAULT_VARIATIONS: VariationDefinition[] = [
+  { key: "A", label: "Variation A", weight: 1 },
+  { key: "B", label: "Variation B", weight: 1 },
+  { key: "C", label: "Variation C", weight: 1 },
+  { key: "D", label: "Variation D", weight: 1 },
+];
+
+export const MIN_VARIATIONS = 2;
+export const MAX_VARIATIONS = 10;
+export const MAX_WEIGHT = 10000;
+
+// Keys end up in data attributes, URLs and CSS selectors, so keep them simple
+const VARIATION_KEY_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+// Split-URL targets: a path on the same site or an absolute http(s) URL
+const VARIATION_URL_PATTERN = /^(\/(?!\/)|https?:\/\/[^/?#\s]+)\S*$/i;
+const MAX_URL_LENGTH = 2000;
+
+// Page patterns are paths where "*" matches anything, e.g. "/checkout/*"
+const PAGE_PATTERN = /^\/\S{0,199}$/;
+export const MAX_PAGES = 20;
+
+/**
+ * Hash a string for bucketing
+ * Same input and version always produce the same output (deterministic);
+ * version 1 (djb2) is the default for callers that predate versioning
+ */
+export function hashString(
+  str: string,
+  version: HashVersion = LEGACY_HASH_VERSION,
+): number {
+  return hashWith(version, str);
 }
 
 /**
- * Assign a variation based on visitor ID and project ID
+ * Assign a variation based on visitor ID and experiment ID
  * This is completely deterministic - same input always gives same output
  *
  * @param visitorId - Unique identifier for the visitor
- * @param projectId - Unique identifier for the project
- * @returns One of 'A', 'B', 'C', or 'D'
+ * @param experimentId - Unique identifier for the experiment
+ * @param variations - The experiment's variations, in order
+ * @param hashVersion - The project's bucketing hash
+ * @returns The key of one of the experiment's variations
  */
 export function assignVariation(
   visitorId: string,
-  projectId: string,
+  experimentId: string,
+  variations: Array<Pick<VariationDefinition, "key" | "weight">>,
+  hashVersion: HashVersion = LEGACY_HASH_VERSION,
 ): Variation {
-  // Combine visitor and project IDs with a separator
-  const combined = `${visitorId}:${projectId}`;
+  // Combine visitor and experiment IDs with a separator
+  const combined = `${visitorId}:${experimentId}`;
 
   // Hash the combined string
-  const hash = hashString(combined);
+  const hash = hashString(combined, hashVersion);
 
-  // Map to one of 4 variations
-  const variations: Variation[] = ["A", "B", "C", "D"];
-  return variations[hash % 4];
+  // Map to one of the experiment's variations
+  return pickWeighted(hash, variations).key;
+}
+
+/**
+ * Whether a visitor falls inside a project's traffic exposure
+ * Uses its own hash, independent of variation assignment, and compares
+ * `hash % 100` against the percentage: raising the exposure only adds
+ * visitors, so existing participants keep participating.
+ */
+export function isExposed(
+  visitorId: string,
+  projectId: string,
+  exposure: number,
+  hashVersion: HashVersion = LEGACY_HASH_VERSION,
+): boolean {
+  if (exposure >= 100) return true;
+  return (
+    hashString(`${visitorId}:${projectId}:exposure`, hashVersion) % 100 <
+    exposure
+  );
+}
+
+/**
+ * Whether a visitor's layer slot falls in an experiment's range
+ * Every visitor gets one slot (0-99) per layer, so experiments with
+ * non-overlapping ranges in the same layer never share a visitor.
+ * Experiments outside any layer include everyone.
+ */
+export function isInLayer(
+  visitorId: string,
+  experiment: Pick<Experiment, "layerId" | "layerStart" | "layerShare">,
+  hashVersion: HashVersion = LEGACY_HASH_VERSION,
+): boolean {
+  if (!experiment.layerId) return true;
+  const slot =
+    hashString(`${visitorId}:${experiment.layerId}`, hashVersion) % 100;
+  return (
+    slot >= experiment.layerStart &&
+    slot < experiment.layerStart + experiment.layerShare
+  );
+}
+
+/**
+ * Server-side assignment for a visitor across a project's experiments
+ * Mirrors the embed script: visitors outside the exposure are held out
+ * and get no assignments at all, and layered experiments only assign
+ * visitors whose slot they own. A remembered variation that still exists
+ * wins over the hash, like the script's stored assignments.
+ */
+export function assignExperiments(
+  visitorId: string,
+  project: Pick<Project, "id" | "exposure" | "hashVersion">,
+  experiments: AssignableExperiment[],
+  sticky: Record<string, Variation> = {},
+): { enrolled: boolean; assignments: Record<string, Variation> } {
+  const { hashVersion } = project;
+  if (!isExposed(visitorId, project.id, project.exposure, hashVersion)) {
+    return { enrolled: false, assignments: {} };
+  }
+
+  const assignments: Record<string, Variation> = {};
+  experiments
+    .filter(
+      (e) => e.status === "running" && isInLayer(visitorId, e, hashVersion),
+    )
+    .forEach((e) => {
+      const remembered = Object.hasOwn(sticky, e.id) ? sticky[e.id] : null;
+      assignments[e.id] =
+        remembered !== null && isValidVariation(remembered, e.variations)
+          ? remembered
+          : assignVariation(visitorId, e.id, e.variations, hashVersion);
+    });
+
+  return { enrolled: true, assignments };
+}
+
+/**
+ * Map a hash into weighted buckets
+ * Each variation owns a contiguous range of `hash % totalWeight`, so with
+ * equal weights this is the same as `hash % variations.length`
+ */
+export function pickWeighted<T extends Pick<VariationDefinition, "weight">>(
+  hash: number,
+  variations: T[],
+): T {
+  const total = variations.reduce((sum, v) => sum + v.weight, 0);
+  let bucket = hash % total;
+  for (const v of variations) {
+    if (bucket < v.weight) return v;
+    bucket -= v.weight;
+  }
+  return variations[variations.length - 1];
 }
 
 /**
@@ -57,8 +181,211 @@ export function generateVisitorId(): string {
 }
 
 /**
- * Validate a variation value
+ * Whether a visitor falls inside a feature flag's rollout
+ * Hashes `visitorId:flagId` the way assignVariation hashes experiments;
+ * raising the percentage only adds visitors.
+ */
+export function isInRollout(
+  visitorId: string,
+  flagId: string,
+  rollout: number,
+  hashVersion: HashVersion = LEGACY_HASH_VERSION,
+): boolean {
+  if (rollout >= 100) return true;
+  return hashString(`${visitorId}:${flagId}`, hashVersion) % 100 < rollout;
+}
+
+/**
+ * Validate an exposure percentage (whole number from 0 to 100)
+ */
+export function isValidExposure(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= 100
+  );
+}
+
+/**
+ * Validate a variation value against an experiment's variations
+ */
+export function isValidVariation(
+  value: string,
+  variations: Array<Pick<VariationDefinition, "key">>,
+): value is Variation {
+  return variations.some((v) => v.key === value);
+}
+
+/**
+ * Validate and normalize a list of variations from user input
+ * Returns an error message if the input is invalid
+ */
+export function parseVariations(
+  input: unknown,
+): { variations: VariationDefinition[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "Variations must be an array" };
+  }
+
+  if (input.length < MIN_VARIATIONS || input.length > MAX_VARIATIONS) {
+    return {
+      error: `A project needs between ${MIN_VARIATIONS} and ${MAX_VARIATIONS} variations`,
+    };
+  }
+
+  const variations: VariationDefinition[] = [];
+  const seen = new Set<string>();
+
+  for (const item of input) {
+    const key = typeof item?.key === "string" ? item.key.trim() : "";
+    if (!VARIATION_KEY_PATTERN.test(key)) {
+      return {
+        error:
+          "Variation keys must be 1-40 characters: letters, numbers, '-' or '_'",
+      };
+    }
+    if (seen.has(key)) {
+      return { error: `Duplicate variation key "${key}"` };
+    }
+    seen.add(key);
+
+    const label =
+      typeof item?.label === "string" && item.label.trim().length > 0
+        ? item.label.trim()
+        : key;
+
+    const weight = item?.weight === undefined ? 1 : item.weight;
+    if (!isValidWeight(weight)) {
+      return {
+        error: `Weight for "${key}" must be a whole number from 0 to ${MAX_WEIGHT}`,
+      };
+    }
+    const url = typeof item?.url === "string" ? item.url.trim() : item?.url;
+    if (url === undefined || url === null || url === "") {
+      variations.push({ key, label, weight });
+    } else if (
+      typeof url === "string" &&
+      url.length <= MAX_URL_LENGTH &&
+      VARIATION_URL_PATTERN.test(url)
+    ) {
+      variations.push({ key, label, weight, url });
+    } else {
+      return {
+        error: `URL for "${key}" must be a path starting with "/" or an http(s) URL`,
+      };
+    }
+  }
+
+  if (variations.every((v) => v.weight === 0)) {
+    return { error: "At least one variation needs a weight above 0" };
+  }
+
+  const urls = variations.filter((v) => v.url).map((v) => urlPath(v.url!));
+  if (urls.length > 0 && urls.length < variations.length) {
+    return { error: "Split-URL tests need a URL for every variation" };
+  }
+  if (new Set(urls).size < urls.length) {
+    return { error: "Each variation needs a different URL path" };
+  }
+
+  return { variations };
+}
+
+/**
+ * Apply a `{ [key]: weight }` map to a project's existing variations
+ * Variations missing from the map keep their current weight
+ */
+export function applyWeights(
+  variations: VariationDefinition[],
+  weights: unknown,
+): { variations: VariationDefinition[] } | { error: string } {
+  if (!weights || typeof weights !== "object" || Array.isArray(weights)) {
+    return { error: "Weights must be an object of variation key to weight" };
+  }
+
+  for (const key of Object.keys(weights)) {
+    if (!isValidVariation(key, variations)) {
+      return { error: `Unknown variation "${key}"` };
+    }
+  }
+
+  const map = weights as Record<string, unknown>;
+  return parseVariations(
+    variations.map((v) =>
+      Object.hasOwn(map, v.key) ? { ...v, weight: map[v.key] } : v,
+    ),
+  );
+}
+
+function isValidWeight(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= MAX_WEIGHT
+  );
+}
+
+/**
+ * Path of a split-URL variation's URL, without trailing slashes
+ * Must match urlPath in the embed script
+ */
+export function urlPath(url: string): string {
+  const path = url.replace(/^https?:\/\/[^/?#]*/i, "").split(/[?#]/)[0];
+  return path.replace(/\/+$/, "") || "/";
+}
+
+export function isValidPagePattern(value: unknown): value is string {
+  return typeof value === "string" && PAGE_PATTERN.test(value);
+}
+
+/**
+ * Whether a path matches a page pattern, ignoring trailing slashes
+ * Must match pathMatches in the embed script
+ */
+export function matchesPagePattern(pattern: string, path: string): boolean {
+  const source = urlPath(pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${source}$`).test(urlPath(path));
+}
+
+/**
+ * Validate an experiment's page patterns from user input
+ */
+export function parsePages(
+  input: unknown,
+): { pages: string[] } | { error: string } {
+  if (!Array.isArray(input) || input.length > MAX_PAGES) {
+    return { error: `Pages must be a list of at most ${MAX_PAGES} paths` };
+  }
+  const pages = input.map((p) => (typeof p === "string" ? p.trim() : p));
+  if (!pages.every(isValidPagePattern)) {
+    return {
+      error: 'Pages must be paths starting with "/", with "*" as a wildcard',
+    };
+  }
+  return { pages: [...new Set(pages as string[])] };
+}
+
+/**
+ * Whether an experiment runs on the page at `path`
+ * Split-URL tests run on their variations' pages and experiments with
+ * pages on the pages matching them, so a variation stays in place across
+ * a multi-page flow. Other experiments run everywhere the script is
+ * installed.
  */
-export function isValidVariation(value: string): value is Variation {
-  return ["A", "B", "C", "D"].includes(value);
+export function isOnTestPage(
+  experiment: Pick<AssignableExperiment, "variations" | "pages">,
+  path: string,
+): boolean {
+  const split = experiment.variations.some((v) => v.url);
+  if (!split && experiment.pages.length === 0) return true;
+  const current = urlPath(path);
+  return (
+    experiment.variations.some(
+      (v) => v.url !== undefined && urlPath(v.url) === current,
+    ) || experiment.pages.some((p) => matchesPagePattern(p, current))
+  );
 }
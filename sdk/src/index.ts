@@ -0,0 +1,317 @@
+/**
+ * Optimeleon SDK
+ * Assign visitors in-process from a project's config and report exposures
+ * and conversions in batches
+ *
+ * Assignment runs the same code as the decision API (lib/decide.ts), so a
+ * visitor lands in the same variations here, on the server and in the
+ * embed script.
+ */
+
+import {
+  decideFromConfig,
+  evaluateFlag,
+  parseDecisionContext,
+} from "../../lib/decide";
+import { isOnTestPage } from "../../lib/variation";
+import type { Decision } from "../../lib/decide";
+import type { ClientConfig, FlagValue, Variation } from "../../lib/types";
+
+export type { ClientConfig, FlagValue, Variation };
+export type SdkDecision = Omit<Decision, "tracked">;
+
+/**
+ * Request details for targeting rules, as accepted by POST /api/decide
+ */
+export interface DecisionContext {
+  url?: string;
+  referrer?: string;
+  userAgent?: string;
+  language?: string;
+  returning?: boolean;
+}
+
+export interface OptimeleonOptions {
+  /** Base URL of the Optimeleon app, e.g. https://optimeleon.example.com */
+  apiUrl: string;
+  /** Projects to load configs for */
+  projects: string[];
+  /** How often to refetch configs, in ms (default 60s; 0 disables) */
+  refreshInterval?: number;
+  /** How often to send queued events, in ms (default 5s; 0 disables) */
+  flushInterval?: number;
+  /** Send as soon as this many events are queued (default 100, max 500) */
+  batchSize?: number;
+  /** Defaults to the global fetch (Node 18+) */
+  fetch?: typeof fetch;
+  /** Called for failed config fetches and event batches */
+  onError?: (error: Error) => void;
+}
+
+type QueuedEvent =
+  | {
+      type: "exposure";
+      projectId: string;
+      experimentId: string;
+      visitorId: string;
+      variation: Variation;
+    }
+  | {
+      type: "traffic";
+      projectId: string;
+      visitorId: string;
+      status: "holdout" | "ineligible";
+    }
+  | {
+      type: "conversion";
+      projectId: string;
+      visitorId: string;
+      goal: string;
+      value?: number;
+    };
+
+// Matches the ingestion endpoint's limit
+const MAX_BATCH_SIZE = 500;
+
+// Events kept while the ingestion endpoint is unreachable
+const MAX_QUEUE_SIZE = 10000;
+
+export class OptimeleonClient {
+  private readonly apiUrl: string;
+  private readonly projectIds: string[];
+  private readonly batchSize: number;
+  private readonly fetchFn: typeof fetch;
+  private readonly onError: (error: Error) => void;
+  private readonly configs = new Map<string, ClientConfig>();
+  private queue: QueuedEvent[] = [];
+  private flushing: Promise<void> | null = null;
+  private timers: NodeJS.Timeout[] = [];
+
+  constructor(private readonly options: OptimeleonOptions) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, "");
+    this.projectIds = [...options.projects];
+    this.batchSize = Math.min(
+      Math.max(options.batchSize ?? 100, 1),
+      MAX_BATCH_SIZE,
+    );
+    this.fetchFn = options.fetch ?? fetch;
+    this.onError =
+      options.onError ??
+      ((error) => console.warn(`Optimeleon: ${error.message}`));
+  }
+
+  /**
+   * Load every project's config and start the refresh and flush timers
+   * Resolves once all fetches settle; projects that failed to load
+   * return null until a refresh succeeds
+   */
+  async init(): Promise<void> {
+    await this.refresh();
+
+    const { refreshInterval = 60000, flushInterval = 5000 } = this.options;
+    if (refreshInterval > 0) {
+      this.timers.push(setInterval(() => void this.refresh(), refreshInterval));
+    }
+    if (flushInterval > 0) {
+      this.timers.push(setInterval(() => void this.flush(), flushInterval));
+    }
+    // Don't keep the process alive just for these
+    this.timers.forEach((timer) => timer.unref());
+  }
+
+  /**
+   * Refetch every project's config
+   * A failed fetch keeps the previous config; a deleted or inactive
+   * project is dropped so it stops assigning visitors
+   */
+  async refresh(): Promise<void> {
+    await Promise.all(
+      this.projectIds.map(async (projectId) => {
+        try {
+          const res = await this.fetchFn(
+            `${this.apiUrl}/api/config/${encodeURIComponent(projectId)}`,
+          );
+          if (res.status === 404 || res.status === 409) {
+            this.configs.delete(projectId);
+            return;
+          }
+          if (!res.ok) {
+            throw new Error(`config request returned ${res.status}`);
+          }
+          this.configs.set(projectId, (await res.json()) as ClientConfig);
+        } catch (error) {
+          this.onError(
+            new Error(
+              `Failed to load config for ${projectId}: ${errorMessage(error)}`,
+            ),
+          );
+        }
+      }),
+    );
+  }
+
+  /**
+   * Variation of the project's primary experiment for a visitor
+   * Returns null when the visitor isn't in it or the config isn't loaded
+   */
+  getVariation(
+    visitorId: string,
+    projectId: string,
+    attributes?: Record<string, unknown>,
+    context?: DecisionContext,
+  ): Variation | null {
+    return (
+      this.decide(visitorId, projectId, attributes, context)?.variation ?? null
+    );
+  }
+
+  /**
+   * Value of one of the project's feature flags for a visitor
+   * Returns undefined when the flag doesn't exist or the config isn't
+   * loaded. Nothing is queued.
+   */
+  getFlag(
+    visitorId: string,
+    projectId: string,
+    key: string,
+    attributes?: Record<string, unknown>,
+    context?: DecisionContext,
+  ): FlagValue | undefined {
+    const config = this.configs.get(projectId);
+    const flag = config?.flags.find((f) => f.key === key);
+    if (!config || !flag) return undefined;
+
+    const targetingContext = parseDecisionContext(context, attributes);
+    if ("error" in targetingContext) {
+      throw new TypeError(targetingContext.error);
+    }
+
+    return evaluateFlag(flag, visitorId, targetingContext, config.hashVersion);
+  }
+
+  /**
+   * Full decision across the project's running experiments, queueing the
+   * exposures (or the holdout/ineligible status) like the embed script's
+   * beacon. Returns null when the config isn't loaded.
+   */
+  decide(
+    visitorId: string,
+    projectId: string,
+    attributes?: Record<string, unknown>,
+    context?: DecisionContext,
+  ): SdkDecision | null {
+    const config = this.configs.get(projectId);
+    if (!config) return null;
+
+    const targetingContext = parseDecisionContext(context, attributes);
+    if ("error" in targetingContext) {
+      throw new TypeError(targetingContext.error);
+    }
+
+    const decision = decideFromConfig(config, visitorId, targetingContext);
+    // Shipped winners go to everyone and aren't recorded
+    const shipped = new Set(
+      config.experiments.filter((e) => e.winner).map((e) => e.id),
+    );
+    if (decision.enrolled) {
+      for (const [experimentId, variation] of Object.entries(
+        decision.experiments,
+      )) {
+        if (shipped.has(experimentId)) continue;
+        this.enqueue({
+          type: "exposure",
+          projectId,
+          experimentId,
+          visitorId,
+          variation,
+        });
+      }
+    } else if (
+      config.experiments.some(
+        (e) => !e.winner && isOnTestPage(e, targetingContext.path),
+      )
+    ) {
+      this.enqueue({
+        type: "traffic",
+        projectId,
+        visitorId,
+        status: decision.eligible ? "holdout" : "ineligible",
+      });
+    }
+    return decision;
+  }
+
+  /**
+   * Record a visitor reaching a goal, e.g. "signup" or "purchase" with
+   * the order total as the value
+   */
+  track(
+    visitorId: string,
+    projectId: string,
+    goal: string,
+    value?: number,
+  ): void {
+    this.enqueue({ type: "conversion", projectId, visitorId, goal, value });
+  }
+
+  /**
+   * Send every queued event
+   * Batches that fail to send go back on the queue for the next flush
+   */
+  async flush(): Promise<void> {
+    // One flush at a time keeps events in order
+    while (this.flushing) await this.flushing;
+
+    this.flushing = (async () => {
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, this.batchSize);
+        try {
+          const res = await this.fetchFn(`${this.apiUrl}/api/events`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ events: batch }),
+          });
+          // A rejected batch would be rejected again, so only retry 5xx
+          if (res.status >= 400 && res.status < 500) {
+            this.onError(
+              new Error(`Events batch rejected with ${res.status}; dropped`),
+            );
+          } else if (!res.ok) {
+            throw new Error(`events request returned ${res.status}`);
+          }
+        } catch (error) {
+          this.queue = [...batch, ...this.queue].slice(0, MAX_QUEUE_SIZE);
+          this.onError(
+            new Error(`Failed to send events: ${errorMessage(error)}`),
+          );
+          return;
+        }
+      }
+    })();
+
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  /**
+   * Stop the timers and send what's left in the queue
+   */
+  async close(): Promise<void> {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+    await this.flush();
+  }
+
+  private enqueue(event: QueuedEvent): void {
+    if (this.queue.length >= MAX_QUEUE_SIZE) return;
+    this.queue.push(event);
+    if (this.queue.length >= this.batchSize) void this.flush();
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}